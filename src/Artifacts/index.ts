@@ -0,0 +1,318 @@
+import { mkdir, open, readdir, readFile, rm, rmdir, writeFile } from "fs/promises"
+import path from "path"
+import { Logger } from "pino"
+import { ContainerRuntime } from "../ContainerRuntime"
+import { TarFileSink, extractTar } from "./tar"
+
+export type { TarEntry, TarEntryHeader, TarFileSink } from "./tar"
+export { TarFormatError, TarSizeError, extractTar, packTar } from "./tar"
+
+export type ArtifactsConfig = {
+    // Local directory the artifacts are stored in, nothing is collected when unset
+    dir?: string
+    // Directory the node writes its recordings and artifacts to, inside the container
+    containerPath: string
+    // Time a collection is kept (ms, 0 = no limit)
+    maxAge: number
+    // Total size of the stored collections (bytes, 0 = no limit), the oldest are deleted first
+    maxTotalSize: number
+    // Time pulling the artifacts out of a container may take (ms)
+    collectTimeout: number
+    // Size of the artifacts of one container (bytes, 0 = no limit), larger ones are not collected
+    maxCollectSize: number
+}
+
+export type ArtifactFile = {
+    // Path relative to the artifact directory of the container ("recording.webm")
+    name: string
+    size: number
+}
+
+/**
+ * The artifacts of one lease, keyed by sessionID and sessionUUID
+ */
+export type ArtifactCollection = {
+    sessionID: string
+    // The lease ID when the lease had no sessionUUID
+    sessionUUID: string
+    leaseID?: string
+    clientID?: string
+    browserName: string
+    pool: string
+    collectedAt: number
+    // Bytes, over every file
+    size: number
+    files: ArtifactFile[]
+}
+
+export type ArtifactSource = Omit<ArtifactCollection, "collectedAt" | "size" | "files">
+
+export type ArtifactFilter = {
+    sessionID?: string
+    clientID?: string
+}
+
+// Retention is enforced at most this often (and after every collection)
+const SWEEP_INTERVAL = 10 * 60 * 1000
+
+// Written last, a collection without it is incomplete
+const META_FILE = "collection.json"
+const FILES_DIR = "files"
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".webm": "video/webm",
+    ".mp4": "video/mp4",
+    ".json": "application/json",
+    ".har": "application/json",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".log": "text/plain",
+    ".txt": "text/plain"
+}
+
+export function getContentType(fileName: string): string {
+    return CONTENT_TYPES[path.extname(fileName).toLowerCase()] || "application/octet-stream"
+}
+
+/**
+ * Directory name of an ID (sessionIDs are free-form)
+ */
+function toSegment(value: string): string {
+    return encodeURIComponent(value).replace(/\./g, "%2E")
+}
+
+/**
+ * Path of an archive entry below the artifact directory, undefined for entries outside of it
+ * "artifacts/videos/a.webm" -> "videos/a.webm" (the archive holds the directory itself)
+ */
+function toFileName(entryName: string): string | undefined {
+    const parts = path.posix.normalize(entryName).split("/").filter((p) => p !== "" && p !== ".")
+    if (parts.length < 2 || parts.includes("..")) {
+        return undefined
+    }
+    return parts.slice(1).join("/")
+}
+
+/**
+ * Pulls recordings and other artifacts out of the containers before they are stopped
+ * Keeps them in a local directory (<dir>/<sessionID>/<sessionUUID>/) with a retention by age and total size
+ */
+export default class ArtifactStore {
+    private _config: ArtifactsConfig
+    private _logger: Logger
+    private _sweepTimer: NodeJS.Timeout | undefined
+
+    constructor(config: ArtifactsConfig, logger: Logger) {
+        this._config = config
+        this._logger = logger
+    }
+
+    public get enabled(): boolean {
+        return Boolean(this._config.dir)
+    }
+
+    public async start(): Promise<void> {
+        if (!this._config.dir) {
+            return
+        }
+
+        await mkdir(this._config.dir, { recursive: true })
+        await this.sweep()
+        this._sweepTimer = setInterval(() => {
+            this.sweep().catch((error) => {
+                this._logger.error({ error }, 'ERROR_SWEEPING_ARTIFACTS')
+            })
+        }, SWEEP_INTERVAL)
+    }
+
+    public stop(): void {
+        if (this._sweepTimer) {
+            clearInterval(this._sweepTimer)
+            this._sweepTimer = undefined
+        }
+    }
+
+    /**
+     * Copies the artifact directory of a container into the store
+     * @returns the collection, undefined when the container has no artifacts
+     */
+    public async collect(runtime: ContainerRuntime, containerName: string, source: ArtifactSource): Promise<ArtifactCollection | undefined> {
+        if (!this._config.dir) {
+            return undefined
+        }
+
+        const archive = await runtime.archive(containerName, this._config.containerPath, this._config.collectTimeout)
+        if (!archive) {
+            return undefined
+        }
+
+        // Files are written as the archive arrives, the collection is only listed once its metadata is written
+        const directory = this.getDirectory(source.sessionID, source.sessionUUID)
+        await rm(directory, { recursive: true, force: true })
+
+        const files: ArtifactFile[] = []
+        const timer = setTimeout(() => {
+            archive.destroy(new Error(`Collecting the artifacts took more than ${this._config.collectTimeout} ms`))
+        }, this._config.collectTimeout)
+        try {
+            await extractTar(archive, async (entry): Promise<TarFileSink | undefined> => {
+                const name = toFileName(entry.name)
+                if (!name) {
+                    return undefined
+                }
+
+                const target = path.join(directory, FILES_DIR, name)
+                await mkdir(path.dirname(target), { recursive: true })
+                const file = await open(target, "w")
+                files.push({ name, size: entry.size })
+                return {
+                    // Writes the whole chunk at the current position
+                    write: (chunk) => file.writeFile(chunk),
+                    close: () => file.close()
+                }
+            }, this._config.maxCollectSize)
+        } catch (error) {
+            await rm(directory, { recursive: true, force: true })
+            throw error
+        } finally {
+            clearTimeout(timer)
+            archive.destroy()
+        }
+
+        if (files.length === 0) {
+            await rm(directory, { recursive: true, force: true })
+            await rmdir(path.dirname(directory)).catch(() => {})
+            return undefined
+        }
+
+        const collection = await this.writeCollection(directory, source, files)
+        this.sweep().catch((error) => {
+            this._logger.error({ error }, 'ERROR_SWEEPING_ARTIFACTS')
+        })
+        return collection
+    }
+
+    /**
+     * Stored collections, newest first
+     */
+    public async list(filter: ArtifactFilter = {}): Promise<ArtifactCollection[]> {
+        if (!this._config.dir) {
+            return []
+        }
+
+        const sessionDirs = filter.sessionID ?
+            [toSegment(filter.sessionID)] :
+            await readdir(this._config.dir).catch(() => [] as string[])
+
+        const collections: ArtifactCollection[] = []
+        for (const sessionDir of sessionDirs) {
+            const uuidDirs = await readdir(path.join(this._config.dir, sessionDir)).catch(() => [] as string[])
+            for (const uuidDir of uuidDirs) {
+                const collection = await this.readCollection(path.join(this._config.dir, sessionDir, uuidDir))
+                if (collection && (!filter.clientID || collection.clientID === filter.clientID)) {
+                    collections.push(collection)
+                }
+            }
+        }
+
+        return collections.sort((a, b) => b.collectedAt - a.collectedAt)
+    }
+
+    public async get(sessionID: string, sessionUUID: string): Promise<ArtifactCollection | undefined> {
+        if (!this._config.dir) {
+            return undefined
+        }
+        return this.readCollection(this.getDirectory(sessionID, sessionUUID))
+    }
+
+    /**
+     * Local path of a file of the collection, undefined when the collection has no such file
+     */
+    public getFilePath(collection: ArtifactCollection, fileName: string): string | undefined {
+        if (!collection.files.some((file) => file.name === fileName)) {
+            return undefined
+        }
+        return path.join(this.getDirectory(collection.sessionID, collection.sessionUUID), FILES_DIR, fileName)
+    }
+
+    /**
+     * @returns the deleted collection, undefined when there was none
+     */
+    public async delete(sessionID: string, sessionUUID: string): Promise<ArtifactCollection | undefined> {
+        const collection = await this.get(sessionID, sessionUUID)
+        if (!collection) {
+            return undefined
+        }
+
+        await this.remove(collection)
+        return collection
+    }
+
+    /**
+     * Deletes the collections older than maxAge, then the oldest ones until the total fits in maxTotalSize
+     * @returns the number of deleted collections
+     */
+    public async sweep(): Promise<number> {
+        const { maxAge, maxTotalSize } = this._config
+        if (!this._config.dir || (maxAge <= 0 && maxTotalSize <= 0)) {
+            return 0
+        }
+
+        const now = Date.now()
+        const collections = (await this.list()).reverse()
+        let total = collections.reduce((sum, c) => sum + c.size, 0)
+
+        let deleted = 0
+        for (const collection of collections) {
+            const isExpired = maxAge > 0 && now - collection.collectedAt > maxAge
+            const isOverSize = maxTotalSize > 0 && total > maxTotalSize
+            if (!isExpired && !isOverSize) {
+                continue
+            }
+
+            await this.remove(collection)
+            total -= collection.size
+            deleted++
+        }
+
+        if (deleted > 0) {
+            this._logger.info({ deleted, totalSize: total }, 'ARTIFACTS_SWEPT')
+        }
+        return deleted
+    }
+
+    /**
+     * Writes the metadata of files already in `directory`, which makes the collection visible
+     */
+    private async writeCollection(directory: string, source: ArtifactSource, files: ArtifactFile[]): Promise<ArtifactCollection> {
+        const collection: ArtifactCollection = {
+            ...source,
+            collectedAt: Date.now(),
+            size: files.reduce((total, file) => total + file.size, 0),
+            files
+        }
+        await writeFile(path.join(directory, META_FILE), JSON.stringify(collection))
+
+        this._logger.info({ sessionID: source.sessionID, sessionUUID: source.sessionUUID, files: files.length, size: collection.size }, 'ARTIFACTS_COLLECTED')
+        return collection
+    }
+
+    private getDirectory(sessionID: string, sessionUUID: string): string {
+        return path.join(this._config.dir as string, toSegment(sessionID), toSegment(sessionUUID))
+    }
+
+    private async readCollection(directory: string): Promise<ArtifactCollection | undefined> {
+        try {
+            return JSON.parse(await readFile(path.join(directory, META_FILE), "utf-8")) as ArtifactCollection
+        } catch (error) {
+            return undefined
+        }
+    }
+
+    private async remove(collection: ArtifactCollection): Promise<void> {
+        const directory = this.getDirectory(collection.sessionID, collection.sessionUUID)
+        await rm(directory, { recursive: true, force: true })
+        // Drop the session directory with its last collection
+        await rmdir(path.dirname(directory)).catch(() => {})
+    }
+}
@@ -0,0 +1,283 @@
+/**
+ * Minimal tar (ustar) reading and writing, enough for the archives the container engines return
+ * Pax and GNU long names are read, links and special files are skipped
+ */
+
+const BLOCK_SIZE = 512
+
+export type TarEntry = {
+    // Relative path inside the archive ("artifacts/recording.webm")
+    name: string
+    data: Buffer
+    // ms since epoch
+    mtime: number
+}
+
+/**
+ * A regular file of a streamed archive, before its data
+ */
+export type TarEntryHeader = {
+    name: string
+    size: number
+    mtime: number
+}
+
+/**
+ * Receives the data of one file of a streamed archive
+ */
+export type TarFileSink = {
+    write(chunk: Buffer): Promise<unknown>
+    close(): Promise<void>
+}
+
+export class TarFormatError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "TarFormatError"
+    }
+}
+
+export class TarSizeError extends Error {
+    public readonly maxSize: number
+
+    constructor(maxSize: number) {
+        super(`The archive holds more than ${maxSize} bytes of files`)
+        this.name = "TarSizeError"
+        this.maxSize = maxSize
+    }
+}
+
+// Long names (GNU "L", pax "x") are kept in memory, anything bigger is not a name
+const MAX_NAME_RECORD = 1024 * 1024
+
+function readString(header: Buffer, offset: number, length: number): string {
+    const field = header.subarray(offset, offset + length)
+    const end = field.indexOf(0)
+    return field.subarray(0, end === -1 ? field.length : end).toString("utf-8")
+}
+
+/**
+ * Octal number, or base-256 when the high bit is set (GNU, sizes over 8 GB)
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+    const field = header.subarray(offset, offset + length)
+    if (field[0] & 0x80) {
+        let value = field[0] & 0x7f
+        for (let i = 1; i < field.length; i++) {
+            value = value * 256 + field[i]
+        }
+        return value
+    }
+
+    const text = readString(header, offset, length).trim()
+    return text ? parseInt(text, 8) : 0
+}
+
+function checksum(header: Buffer): number {
+    let sum = 0
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        // The checksum field counts as spaces
+        sum += i >= 148 && i < 156 ? 0x20 : header[i]
+    }
+    return sum
+}
+
+/**
+ * "<length> <key>=<value>\n" records of a pax header
+ */
+function readPaxPath(data: Buffer): string | undefined {
+    let offset = 0
+    while (offset < data.length) {
+        const space = data.indexOf(0x20, offset)
+        if (space === -1) {
+            break
+        }
+        const length = parseInt(data.subarray(offset, space).toString("utf-8"))
+        if (!length) {
+            break
+        }
+
+        const record = data.subarray(space + 1, offset + length - 1).toString("utf-8")
+        const separator = record.indexOf("=")
+        if (record.slice(0, separator) === "path") {
+            return record.slice(separator + 1)
+        }
+        offset += length
+    }
+    return undefined
+}
+
+type ExtractState =
+    // Waiting for the next 512 bytes header
+    | { kind: "header" }
+    // Data of a regular file, sent to `sink` (dropped without one)
+    | { kind: "file", remaining: number, padding: number, sink?: TarFileSink }
+    // Long name of the next entry
+    | { kind: "name", type: string, remaining: number, padding: number, chunks: Buffer[] }
+    // Data of skipped entries and padding
+    | { kind: "skip", remaining: number }
+    | { kind: "end" }
+
+/**
+ * Reads a tar archive as it arrives, without holding it in memory
+ * The data of each regular file goes to the sink `openFile` returns (the file is skipped without one)
+ * @param maxSize - Total bytes of regular files (0 = no limit), checked against each header before its data is read
+ * @returns the bytes of regular files in the archive
+ * @throws TarFormatError when a header is corrupted or the archive is truncated, TarSizeError over `maxSize`
+ */
+export async function extractTar(
+    archive: AsyncIterable<Buffer>,
+    openFile: (entry: TarEntryHeader) => Promise<TarFileSink | undefined>,
+    maxSize: number = 0
+): Promise<number> {
+    let state: ExtractState = { kind: "header" }
+    let pending: Buffer = Buffer.alloc(0)
+    let offset = 0
+    let total = 0
+    let longName: string | undefined
+
+    const readHeader = async (header: Buffer): Promise<ExtractState> => {
+        // End of archive
+        if (header.every((byte) => byte === 0)) {
+            return { kind: "end" }
+        }
+        if (checksum(header) !== readNumber(header, 148, 8)) {
+            throw new TarFormatError(`Invalid header checksum at offset ${offset}`)
+        }
+
+        const size = readNumber(header, 124, 12)
+        const type = String.fromCharCode(header[156] || 0x30)
+        const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+
+        if (type === "L" || type === "x") {
+            if (size > MAX_NAME_RECORD) {
+                throw new TarFormatError(`Name record too large at offset ${offset}`)
+            }
+            return { kind: "name", type, remaining: size, padding, chunks: [] }
+        }
+        if (type === "g") {
+            return { kind: "skip", remaining: size + padding }
+        }
+
+        const prefix = readString(header, 345, 155)
+        const name = longName || (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100))
+        longName = undefined
+
+        // Regular files only ("\0" is the pre-POSIX regular file)
+        if (type !== "0" && type !== "7") {
+            return { kind: "skip", remaining: size + padding }
+        }
+
+        total += size
+        if (maxSize > 0 && total > maxSize) {
+            throw new TarSizeError(maxSize)
+        }
+        const sink = await openFile({ name, size, mtime: readNumber(header, 136, 12) * 1000 })
+        return { kind: "file", remaining: size, padding, sink }
+    }
+
+    try {
+        for await (const chunk of archive) {
+            // Trailing zero blocks
+            if (state.kind === "end") {
+                continue
+            }
+            pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk
+
+            while (state.kind !== "end") {
+                // The entry is complete, its padding is skipped
+                if (state.kind === "file" && state.remaining === 0) {
+                    await state.sink?.close()
+                    state = { kind: "skip", remaining: state.padding }
+                    continue
+                }
+                if (state.kind === "name" && state.remaining === 0) {
+                    const record = Buffer.concat(state.chunks)
+                    longName = state.type === "L" ? readString(record, 0, record.length) : readPaxPath(record) || longName
+                    state = { kind: "skip", remaining: state.padding }
+                    continue
+                }
+                if (state.kind === "skip" && state.remaining === 0) {
+                    state = { kind: "header" }
+                    continue
+                }
+
+                if (state.kind === "header") {
+                    if (pending.length < BLOCK_SIZE) {
+                        break
+                    }
+                    const header = pending.subarray(0, BLOCK_SIZE)
+                    pending = pending.subarray(BLOCK_SIZE)
+                    state = await readHeader(header)
+                    offset += BLOCK_SIZE
+                    continue
+                }
+
+                if (pending.length === 0) {
+                    break
+                }
+                const data = pending.subarray(0, Math.min(state.remaining, pending.length))
+                pending = pending.subarray(data.length)
+                state.remaining -= data.length
+                offset += data.length
+                if (state.kind === "file") {
+                    await state.sink?.write(data)
+                } else if (state.kind === "name") {
+                    state.chunks.push(data)
+                }
+            }
+        }
+    } catch (error) {
+        if (state.kind === "file") {
+            await state.sink?.close().catch(() => {})
+        }
+        throw error
+    }
+
+    // Engines may leave out the two zero blocks, the archive must still end between entries
+    if (state.kind !== "end" && (state.kind !== "header" || pending.length > 0)) {
+        if (state.kind === "file") {
+            await state.sink?.close().catch(() => {})
+        }
+        throw new TarFormatError("Truncated archive")
+    }
+
+    return total
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+    header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii")
+}
+
+/**
+ * Writes a ustar archive of regular files (names up to 100 bytes)
+ */
+export function packTar(entries: TarEntry[]): Buffer {
+    const blocks: Buffer[] = []
+
+    for (const entry of entries) {
+        if (Buffer.byteLength(entry.name) > 100) {
+            throw new TarFormatError(`Name too long: ${entry.name}`)
+        }
+
+        const header = Buffer.alloc(BLOCK_SIZE)
+        header.write(entry.name, 0, 100, "utf-8")
+        writeOctal(header, 0o644, 100, 8)
+        writeOctal(header, 0, 108, 8)
+        writeOctal(header, 0, 116, 8)
+        writeOctal(header, entry.data.length, 124, 12)
+        writeOctal(header, Math.floor(entry.mtime / 1000), 136, 12)
+        header.write("0", 156, 1, "ascii")
+        header.write("ustar\u000000", 257, 8, "ascii")
+        header.write(checksum(header).toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii")
+
+        blocks.push(header, entry.data)
+        const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE
+        if (padding > 0) {
+            blocks.push(Buffer.alloc(padding))
+        }
+    }
+
+    blocks.push(Buffer.alloc(BLOCK_SIZE * 2))
+    return Buffer.concat(blocks)
+}
@@ -0,0 +1,157 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { readFileSync } from "fs"
+import { z } from "zod"
+
+export const SCOPES = ["lease", "free", "read-status", "admin"] as const
+
+export type Scope = typeof SCOPES[number]
+
+const ApiKeySchema = z.object({
+    id: z.string(),
+    key: z.string().min(16),
+    scopes: z.array(z.enum(SCOPES)),
+    // Restricts the key to the browsers of one client
+    clientID: z.string().optional()
+})
+
+const AuthFileSchema = z.object({
+    keys: z.array(ApiKeySchema).default([]),
+    // Secret used to verify HMAC-signed bearer tokens
+    tokenSecret: z.string().min(32).optional()
+})
+
+export type ApiKey = z.infer<typeof ApiKeySchema>
+
+export type AuthConfig = z.infer<typeof AuthFileSchema>
+
+/**
+ * The authenticated caller of a request
+ */
+export type Principal = {
+    id: string
+    scopes: Scope[]
+    clientID?: string
+}
+
+/**
+ * Claims of a signed bearer token
+ */
+export type TokenClaims = {
+    sub: string
+    scopes: Scope[]
+    clientID?: string
+    // Expiry (unix seconds)
+    exp: number
+}
+
+const TokenClaimsSchema = z.object({
+    sub: z.string(),
+    scopes: z.array(z.enum(SCOPES)),
+    clientID: z.string().optional(),
+    exp: z.number()
+})
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "AuthError"
+    }
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+/**
+ * Resolves API keys and signed bearer tokens to a Principal
+ */
+export default class Auth {
+    private _config: AuthConfig
+
+    constructor(config: AuthConfig) {
+        this._config = config
+    }
+
+    public static fromFile(path: string): Auth {
+        return new Auth(AuthFileSchema.parse(JSON.parse(readFileSync(path, "utf-8"))))
+    }
+
+    /**
+     * Issues a token `<base64url(claims)>.<base64url(hmac-sha256)>`
+     */
+    public static signToken(claims: TokenClaims, secret: string): string {
+        const payload = Buffer.from(JSON.stringify(claims)).toString("base64url")
+        return `${payload}.${sign(payload, secret)}`
+    }
+
+    /**
+     * @param apiKey value of the `x-api-key` header
+     * @param authorization value of the `Authorization` header (`Bearer <api key or token>`)
+     * @throws AuthError when no valid credential is provided
+     */
+    public authenticate(apiKey?: string, authorization?: string): Principal {
+        let credential = apiKey
+        if (!credential && authorization) {
+            const [scheme, value] = authorization.split(" ")
+            if (scheme?.toLowerCase() === "bearer" && value) {
+                credential = value
+            }
+        }
+
+        if (!credential) {
+            throw new AuthError("Missing API key or bearer token")
+        }
+
+        const key = this._config.keys.find((k) => safeEqual(k.key, credential as string))
+        if (key) {
+            return { id: key.id, scopes: key.scopes, clientID: key.clientID }
+        }
+
+        if (this._config.tokenSecret && credential.includes(".")) {
+            return this.verifyToken(credential, this._config.tokenSecret)
+        }
+
+        throw new AuthError("Invalid API key")
+    }
+
+    private verifyToken(token: string, secret: string): Principal {
+        const [payload, signature] = token.split(".")
+        if (!payload || !signature || !safeEqual(sign(payload, secret), signature)) {
+            throw new AuthError("Invalid token signature")
+        }
+
+        let claims: TokenClaims
+        try {
+            claims = TokenClaimsSchema.parse(JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")))
+        } catch (error) {
+            throw new AuthError("Malformed token")
+        }
+
+        if (claims.exp * 1000 <= Date.now()) {
+            throw new AuthError("Token expired")
+        }
+
+        return { id: claims.sub, scopes: claims.scopes, clientID: claims.clientID }
+    }
+}
+
+/**
+ * The admin scope grants every other scope
+ */
+export function hasScope(principal: Principal, scope: Scope): boolean {
+    return principal.scopes.includes(scope) || principal.scopes.includes("admin")
+}
+
+/**
+ * Whether the caller may see / free a browser leased by `clientID`
+ * Principals without a clientID are not restricted
+ */
+export function canAccessClient(principal: Principal | undefined, clientID?: string): boolean {
+    return !principal?.clientID || principal.clientID === clientID
+}
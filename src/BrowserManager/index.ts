@@ -1,8 +1,20 @@
-import { Docker } from 'docker-cli-js'
+import { ContainerRuntime, ContainerRuntimeKind, ContainerRunSpec, ContainerState, CONTAINER_PORTS, createContainerRuntime, isContainerNotFoundError } from '../ContainerRuntime'
 import { io, Socket } from 'socket.io-client'
 import { Logger } from "pino"
-import axios from 'axios'
-import path from 'path'
+import PortAllocator, { PortKind, PortRange, PortSet } from '../PortAllocator'
+import { StateStore, StateStoreKind, createStateStore } from '../StateStore'
+import WaitQueue, { WaitOptions, WaitQueueStats, combineStats } from '../WaitQueue'
+import { PoolConfig } from './pools'
+import { extendNodeLease, getBrowserHost } from '../utility/browser'
+import { clientLabel, containerCreateSeconds, leaseExpirationsTotal, socketDisconnectsTotal } from '../Metrics'
+import EventBus, { LifecycleEventType } from '../Events'
+import { randomBytes, randomUUID } from 'crypto'
+import WebhookDispatcher, { LeaseWebhookEvent, WebhookConfig, createDeliveryStore, toLeaseWebhookEvent } from '../Webhooks'
+import ArtifactStore, { ArtifactsConfig } from '../Artifacts'
+import ProfileStore, { ProfileStoreConfig } from '../Profiles'
+import ProxyPool, { AssignedProxy, ProxyPoolConfig } from '../Proxies'
+
+export * from './pools'
 
 /**
  * Represents a browser instance with its configuration and state
@@ -10,18 +22,29 @@ import path from 'path'
 export type Browser = {
     name: string
     index: number
+    // Name of the pool (image) the browser belongs to
+    pool: string
     isUp: boolean
     isRemoving: boolean
+    isRetiring?: boolean
+    // Failed too many health checks, skipped by reserveBrowser until its container is recycled
+    isUnhealthy?: boolean
     lastUsed: number
+    idleSince: number
     createdAt: number
     leaseTime: number
-    ports: {
-        vnc: number
-        app: number
-        browser: number
-    },
+    // Absolute lease deadline (ms since epoch), -1 when not leased
+    expiresAt: number
+    // Identifies the current lease (/leases/:leaseID), unset when not leased
+    leaseID?: string
+    leasedAt?: number
+    // Authenticates CDP connections through the gateway (/devtools/:browserID), unset when not leased
+    leaseToken?: string
+    ports: PortSet,
     vncPassword?: string;
     vncVersion?: "legacy" | "new";
+    // VNC access the lease was launched with, viewers of "ro" leases cannot send input
+    vncMode?: "ro" | "rw";
     isDebug?: boolean;
 	viewport: {
         width: number
@@ -29,24 +52,57 @@ export type Browser = {
     };
     labels?: Record<string, string>
     webhook?: string
+    // Lease events sent to `webhook`
+    webhookEvents?: LeaseWebhookEvent[]
+    // Overrides the manager's leaseExpiryWarning for this lease (ms)
+    expiryWarning?: number
     sessionID?: string
     fingerprintID?: string
     clientID?: string
     driver?: string
     reportKey?: string
     sessionUUID?: string
+    // Proxy of the proxy pool the lease was launched with (without its credentials)
+    proxy?: AssignedProxy
+}
+
+/**
+ * Fields (and node labels) only handed to the lease holder when the lease is created
+ */
+const SECRET_FIELDS = ["leaseToken", "vncPassword"]
+
+/**
+ * A browser as listed by the status endpoints, without its secrets
+ */
+export type PublicBrowser = Omit<Browser, "leaseToken" | "vncPassword">
+
+export function toPublicBrowser(browser: Browser): PublicBrowser {
+    const { leaseToken, vncPassword, ...rest } = browser
+    return {
+        ...rest,
+        labels: browser.labels ? Object.fromEntries(
+            Object.entries(browser.labels).filter(([name]) => !SECRET_FIELDS.includes(name))
+        ) : undefined
+    }
 }
 
 /**
  * Configuration options for the BrowserManager
  */
 type Config = {
-    browserImageName: string
+    pools: PoolConfig[]
+    defaultPool: string
     browserPrefix: string
-    numBrowsers: number
-    baseBrowserPort: number
-    baseBrowserAppPort: number
-    baseBrowserVncPort: number
+    scaleDownCooldown: number
+    scaleCheckInterval: number
+    // Time before the lease deadline at which `lease.expiring` is published (ms)
+    leaseExpiryWarning: number
+    // Cap on the total lifetime of a lease, extensions included (ms, 0 = unlimited)
+    maxLeaseLifetime: number
+    portRanges: Record<PortKind, PortRange>
+    // Host address the container ports are published on, loopback unless the ports are exposed directly
+    portBindHost: string
+    portBindCheck: boolean
     screenResolution?: string
     launchArgs?: Record<string, string>
     maxRetries: number
@@ -56,96 +112,224 @@ type Config = {
         height: number
     }
     additionalDockerArgs: Record<string, string>
+    containerRuntime: ContainerRuntimeKind
+    stateStore: StateStoreKind
+    stateStoreNamespace: string
+    webhooks: WebhookConfig
+    artifacts: ArtifactsConfig
+    profiles: ProfileStoreConfig
+    proxies: ProxyPoolConfig
+}
+
+/**
+ * A single scaling decision taken by the autoscaler
+ */
+export type ScaleEvent = {
+    direction: "up" | "down"
+    pool: string
+    browserName: string
+    reason: string
+    at: number
+}
+
+/**
+ * Size and queue of a single pool
+ */
+export type PoolCapacity = {
+    image: string
+    minBrowsers: number
+    maxBrowsers: number
+    targetIdle: number
+    total: number
+    idle: number
+    starting: number
+    leased: number
+    unhealthy: number
+    queue: WaitQueueStats
+}
+
+/**
+ * Snapshot of the pool size and the autoscaler state (totals over every pool)
+ */
+export type PoolStatus = Omit<PoolCapacity, "image"> & {
+    defaultPool: string
+    pools: Record<string, PoolCapacity>
+    lastScaleEvent?: ScaleEvent
+    recentScaleEvents: ScaleEvent[]
+}
+
+const MAX_SCALE_EVENTS = 50
+
+// Ended leases remembered so extending them answers "expired" instead of "unknown"
+const MAX_ENDED_LEASES = 1000
+
+/**
+ * Drain state: no new leases, the active ones run until they end
+ */
+export type DrainStatus = {
+    draining: boolean
+    // The drain ends with a shutdown, it cannot be cancelled
+    shuttingDown: boolean
+    reason?: string
+    // ms since epoch
+    startedAt?: number
+    // Leases still active at the deadline are ended by the shutdown (ms since epoch)
+    deadline?: number
+    activeLeases: number
+}
+
+export class DrainCancelError extends Error {
+    constructor() {
+        super("The manager is shutting down, the drain cannot be cancelled")
+        this.name = "DrainCancelError"
+    }
 }
 
 /**
- * Default Docker binary paths for different operating systems
+ * How a lease ended
  */
-const DEFAULT_DOCKER_PATHS = {
-    win32: [
-        'C:\\Program Files\\Docker\\Docker\\resources\\bin\\docker.exe',
-        'C:\\Program Files (x86)\\Docker\\Docker\\resources\\bin\\docker.exe',
-        '%ProgramFiles%\\Docker\\Docker\\resources\\bin\\docker.exe',
-        '%ProgramW6432%\\Docker\\Docker\\resources\\bin\\docker.exe'
-    ],
-    darwin: [
-        '/usr/local/bin/docker',
-        '/opt/homebrew/bin/docker',
-        '/usr/bin/docker',
-        '/Applications/Docker.app/Contents/Resources/bin/docker',
-        '~/Library/Group Containers/group.com.docker/docker'
-    ],
-    linux: [
-        '/usr/bin/docker',
-        '/usr/local/bin/docker',
-        '/opt/bin/docker',
-        '/snap/bin/docker',
-        '/var/lib/snapd/snap/bin/docker',
-        '~/.docker/cli-plugins/docker'
-    ]
-} as const;
+export type EndedLease = {
+    leaseID: string
+    endedAt: number
+    reason: string
+}
+
+export class LeaseLifetimeError extends Error {
+    public readonly maxExpiresAt: number
+
+    constructor(maxExpiresAt: number) {
+        super(`Lease reached its maximum lifetime (${new Date(maxExpiresAt).toISOString()})`)
+        this.name = "LeaseLifetimeError"
+        this.maxExpiresAt = maxExpiresAt
+    }
+}
+
+const UNASSIGNED_PORTS: PortSet = { vnc: 0, app: 0, browser: 0 }
 
 /**
- * Manages a pool of browser containers using Docker
+ * Labels put on every container started by the manager
+ */
+const MANAGED_LABEL = "cmgr.managed"
+const PREFIX_LABEL = "cmgr.prefix"
+const POOL_LABEL = "cmgr.pool"
+
+/**
+ * Manages a pool of browser containers through a ContainerRuntime (Docker, Podman or the simulator)
  * Handles container lifecycle, health checks, and browser state management
  */
 export default class BrowserManager {
     private static _instance: BrowserManager;
     private _browsers: Record<string, Browser> = {};
-    private _docker: Docker
+    private _runtime: ContainerRuntime
+    private _store: StateStore
     private _config: Config
     private _logger: Logger
     private _sockets: Record<string, Socket> = {}
+    private _portAllocator: PortAllocator
     private _timeoutObjs: Record<string, NodeJS.Timeout> = {}
+    private _warningObjs: Record<string, NodeJS.Timeout> = {}
+    private _endedLeases: Map<string, EndedLease> = new Map()
     private _isKilling: boolean = false
+    private _isScaling: boolean = false
+    private _scaleTimer: NodeJS.Timeout | undefined
+    private _scaleEvents: ScaleEvent[] = []
+    private _drain: { reason: string, startedAt: number, deadline?: number, shuttingDown: boolean } | undefined
+    // Browsers whose node went away during a drain, recreated if the drain is cancelled
+    private _downWhileDraining: Set<string> = new Set()
+    // Browser and lease lifecycle events (streamed on /events)
+    public readonly events: EventBus = new EventBus()
+    // Session result callbacks, with retries and a delivery log in the state store
+    public readonly webhooks: WebhookDispatcher
+    // Recordings and other files pulled out of the containers before they are stopped
+    public readonly artifacts: ArtifactStore
+    // sessionData of the sessions with a fingerprintID, restored into the next launch with that fingerprintID
+    public readonly profiles: ProfileStore
+    // Proxy inventory the leases asking for a proxyPool / proxyTags are assigned from
+    public readonly proxies: ProxyPool
+    // One queue per pool, so a request never waits behind one for another image
+    private _waitQueues: Record<string, WaitQueue<Browser, number>> = {}
 
     private constructor(config: Config, logger: Logger) {
         this._config = config
         this._logger = logger
+        this._portAllocator = new PortAllocator(config.portRanges, config.portBindHost, config.portBindCheck)
+
+        this._runtime = createContainerRuntime(config.containerRuntime, logger)
+        this._store = createStateStore(config.stateStore, config.stateStoreNamespace)
+        this.webhooks = new WebhookDispatcher(config.webhooks, logger, createDeliveryStore(config.stateStore, config.stateStoreNamespace))
+        this.artifacts = new ArtifactStore(config.artifacts, logger)
+        this.profiles = new ProfileStore(config.profiles, logger)
+        this.proxies = new ProxyPool(config.proxies, logger)
+        for (const pool of config.pools) {
+            this._waitQueues[pool.name] = new WaitQueue()
+        }
+    }
 
-        const dockerEnv = this.buildDockerEnvironment()
-        this._docker = new Docker({
-            echo: false,
-            env: dockerEnv
-        })
+    public get defaultPool(): string {
+        return this._config.defaultPool
+    }
+
+    private getPool(name: string): PoolConfig {
+        return this._config.pools.find((p) => p.name === name) as PoolConfig
     }
 
     /**
-     * Builds the Docker environment configuration
-     * Includes PATH and other Docker-related environment variables
+     * Publishes a lifecycle event with the current identity of the browser
      */
-    private buildDockerEnvironment(): NodeJS.ProcessEnv {
-        const customEnv = { ...process.env }
-        
-        // Get platform-specific paths
-        const platformPaths = DEFAULT_DOCKER_PATHS[process.platform as keyof typeof DEFAULT_DOCKER_PATHS] || []
-        
-        // Build PATH environment variable
-        let pathsToAdd: string[] = []
-
-        // First check if DOCKER_PATH is explicitly set
-        if (process.env.DOCKER_PATH) {
-            pathsToAdd.push(path.dirname(process.env.DOCKER_PATH))
+    private publishEvent(type: LifecycleEventType, browserName: string, data: Record<string, unknown> = {}): void {
+        const browser = this._browsers[browserName]
+        if (!browser) {
+            return
         }
 
-        // Add platform-specific default paths
-        pathsToAdd.push(...platformPaths.map(p => path.dirname(p)))
-
-        // Get existing PATH
-        const existingPath = process.env.PATH || ''
-
-        // Combine paths
-        const newPath = [...new Set([...pathsToAdd, ...existingPath.split(path.delimiter)])].join(path.delimiter)
+        // Events are streamed to any subscriber of the client, secret labels go without their value
+        if (type === "node.label" && SECRET_FIELDS.includes(data.name as string)) {
+            data = { name: data.name }
+        }
 
-        // Update environment
-        customEnv.PATH = newPath
+        const event = this.events.publish({
+            type,
+            browserName,
+            pool: browser.pool,
+            browserID: browser.labels?.id,
+            sessionID: browser.sessionID || undefined,
+            clientID: browser.clientID || undefined,
+            data
+        })
 
-        // Add other Docker-related environment variables if they exist
-        if (process.env.DOCKER_HOST) customEnv.DOCKER_HOST = process.env.DOCKER_HOST
-        if (process.env.DOCKER_TLS_VERIFY) customEnv.DOCKER_TLS_VERIFY = process.env.DOCKER_TLS_VERIFY
-        if (process.env.DOCKER_CERT_PATH) customEnv.DOCKER_CERT_PATH = process.env.DOCKER_CERT_PATH
+        // Lease webhooks the client subscribed to
+        const webhookEvent = toLeaseWebhookEvent(event)
+        if (
+            webhookEvent && browser.webhook && browser.leaseTime !== -1 &&
+            browser.webhookEvents?.includes(webhookEvent)
+        ) {
+            this.webhooks.dispatch(webhookEvent, browser.webhook, browser.clientID || "", {
+                event: webhookEvent,
+                at: event.at,
+                browserID: event.browserID,
+                sessionID: event.sessionID,
+                sessionUUID: browser.sessionUUID || undefined,
+                clientID: event.clientID,
+                pool: event.pool,
+                data
+            }).catch((error) => {
+                this._logger.error({ browserName, event: webhookEvent, error }, 'ERROR_DISPATCHING_LEASE_WEBHOOK')
+            })
+        }
+    }
 
-        return customEnv
+    /**
+     * Finds the pool by name, or the first pool running the image
+     * @returns the pool name (the default pool without selector), undefined if nothing matches
+     */
+    public resolvePool(selector: { pool?: string, image?: string }): string | undefined {
+        if (selector.pool) {
+            return this._config.pools.find((p) => p.name === selector.pool)?.name
+        }
+        if (selector.image) {
+            return this._config.pools.find((p) => p.image === selector.image)?.name
+        }
+        return this._config.defaultPool
     }
 
     /**
@@ -161,35 +345,43 @@ export default class BrowserManager {
 
     /**
      * Initializes the BrowserManager
-     * Checks Docker availability and sets up initial browser containers
-     * @throws Error if Docker is not running after max attempts
+     * Checks container runtime availability and sets up initial browser containers
+     * @throws Error if the runtime is not running after max attempts
      */
     public async init(pullOnStart: boolean = false): Promise<void> {
-        // Check if docker is running with retries
+        // Flags the runtime would drop fail the start instead
+        for (const pool of this._config.pools) {
+            const unsupported = this._runtime.unsupportedArgs({ ...this._config.additionalDockerArgs, ...pool.dockerArgs })
+            if (unsupported.length > 0) {
+                throw new Error(`Pool ${pool.name}: the ${this._runtime.name} runtime does not support the docker args ${unsupported.join(", ")}`)
+            }
+        }
+
+        // Check if the container runtime (docker, podman, simulator) is running with retries
         let dockerRunning = false;
         let dockerCheckAttempts = 0;
         let dockerCheckTimeout = 5000;
         while (!dockerRunning && dockerCheckAttempts < 50) {
             try {
-                await Promise.race([
-                    this._docker.command("info"),
-                    new Promise((_, reject) => 
-                        setTimeout(() => reject(new Error('Docker info command timed out')), dockerCheckTimeout)
-                    )
-                ]);
+                await this._runtime.ping(dockerCheckTimeout);
                 dockerRunning = true;
-                this._logger.info('Docker is running');
+                this._logger.info({ runtime: this._runtime.name }, 'Container runtime is running');
             } catch (err) {
                 dockerCheckAttempts++;
-                this._logger.warn({ attempt: dockerCheckAttempts }, 'Docker not ready, retrying...');
+                this._logger.warn({ runtime: this._runtime.name, attempt: dockerCheckAttempts }, 'Container runtime not ready, retrying...');
                 await new Promise(resolve => setTimeout(resolve, 5000));
             }
         }
 
         if(!dockerRunning) {
-            throw new Error("Docker is not running")
+            throw new Error(`Container runtime ${this._runtime.name} is not running`)
         }
 
+        // Resume the webhook retries of the previous instance
+        await this.webhooks.start()
+        await this.artifacts.start()
+        this.proxies.start()
+
         // Check if we're in manage-only mode
         const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
         if (manageOnly) {
@@ -198,87 +390,545 @@ export default class BrowserManager {
             return;
         }
 
-        // Pull Image 
+        // Pull the image of every pool
         if(pullOnStart) {
-            this._logger.info(`Pulling image ${this._config.browserImageName}`)
-            await this._docker.command(`pull ${this._config.browserImageName}`)
-            this._logger.info(`Pulled image ${this._config.browserImageName}`)
+            for (const image of new Set(this._config.pools.map((p) => p.image))) {
+                this._logger.info(`Pulling image ${image}`)
+                await this._runtime.pull(image)
+                this._logger.info(`Pulled image ${image}`)
+            }
         }
 
-        for (let i = 0; i < this._config.numBrowsers; i++) {
-            const browserName = `${this._config.browserPrefix}-${this._config.baseBrowserPort + i}`
-            this._browsers[browserName] = {
-                name: browserName,
-                index: i,
+        // Adopt the containers that survived a restart
+        await this.rehydrate()
+
+        // Fill every pool up to its minBrowsers
+        for (const pool of this._config.pools) {
+            while (this.getPoolBrowsers(pool.name).length < pool.minBrowsers) {
+                await this.startBrowser(this.nextFreeIndex(), pool.name, "min_browsers", true)
+            }
+        }
+
+        this.startAutoscaler()
+    }
+
+    /**
+     * Restores the pool from the state store
+     * Running containers with a known state are adopted (leases keep their absolute deadline),
+     * containers without state or with an expired lease are removed
+     */
+    private async rehydrate(): Promise<void> {
+        const stored = await this._store.listBrowsers()
+        const containers = await this._runtime.list({
+            labels: {
+                [MANAGED_LABEL]: "true",
+                [PREFIX_LABEL]: this._config.browserPrefix
+            }
+        })
+        const now = Date.now()
+
+        for (const container of containers) {
+            const browser = stored.find((b) => b.name === container.name)
+            const isExpired = browser !== undefined && browser.leaseTime !== -1 && browser.expiresAt <= now
+            // State written before pools existed belongs to the default pool
+            const pool = browser?.pool || this._config.defaultPool
+            const isOrphaned = !this.getPool(pool)
+            if (!browser || isExpired || isOrphaned) {
+                this._logger.info(
+                    {
+                        browserName: container.name,
+                        reason: !browser ? "unknown_container" : isExpired ? "lease_expired" : "pool_removed"
+                    },
+                    'REMOVING_STALE_CONTAINER'
+                )
+                try {
+                    await this._runtime.remove(container.name, true)
+                } catch (e) {}
+                continue
+            }
+
+            const ports = this.getPublishedPorts(container)
+            this._portAllocator.reserve(container.name, ports)
+            this._browsers[container.name] = {
+                ...browser,
+                pool,
+                ports,
                 isUp: false,
                 isRemoving: false,
-                lastUsed: -1,
-                createdAt: Date.now(),
-                leaseTime: -1,
-                isDebug: false,
-                viewport: this._config.resolution,
-                ports: {
-                    vnc: this._config.baseBrowserVncPort + i,
-                    app: this._config.baseBrowserAppPort + i,
-                    browser: this._config.baseBrowserPort + i
-                },
-                labels: {},
-                webhook: "",
-                sessionID: "",
-                clientID: "",
-                fingerprintID: "",
-                sessionUUID: "",
-                reportKey: ""
+                isRetiring: false
             }
-    
-            try {
-                await this._docker.command(`kill ${browserName}`)
-            } catch (e) {}
-    
-            await this.initContainer(browserName, i, `${this._config.resolution.width}x${this._config.resolution.height}`, true)
+
+            this._logger.info(
+                { browserName: container.name, sessionID: browser.sessionID, expiresAt: browser.expiresAt },
+                browser.leaseTime !== -1 ? 'ADOPTED_LEASED_CONTAINER' : 'ADOPTED_IDLE_CONTAINER'
+            )
+
+            await this.connectToBrowser(container.name, browser.index)
+            if (browser.leaseTime !== -1) {
+                this.armTimeout(container.name, browser.expiresAt)
+            }
+        }
+
+        // Forget the state of containers that are gone
+        for (const browser of stored) {
+            if (!this._browsers[browser.name]) {
+                await this._store.deleteBrowser(browser.name)
+            }
+        }
+    }
+
+    /**
+     * Writes the browser state to the state store (non-blocking)
+     */
+    private persist(browserName: string): void {
+        const browser = this._browsers[browserName]
+        if (!browser) {
+            return
+        }
+
+        this._store.saveBrowser(browser).catch((error) => {
+            this._logger.error({ browserName, error }, 'ERROR_PERSISTING_STATE')
+        })
+    }
+
+    public get hasPersistentState(): boolean {
+        return this._store.isPersistent
+    }
+
+    public get isDraining(): boolean {
+        return Boolean(this._drain)
+    }
+
+    /**
+     * Stops handing out browsers: queued requests are cancelled and the autoscaler stops
+     * Active leases keep running and can still be extended
+     * A drain for a shutdown keeps the earliest deadline and cannot be cancelled
+     */
+    public drain(reason: string, options: { deadline?: number, shutdown?: boolean } = {}): DrainStatus {
+        if (this._drain) {
+            this._drain.shuttingDown = this._drain.shuttingDown || Boolean(options.shutdown)
+            if (options.deadline !== undefined) {
+                this._drain.deadline = Math.min(this._drain.deadline ?? options.deadline, options.deadline)
+            }
+        } else {
+            this._drain = { reason, startedAt: Date.now(), deadline: options.deadline, shuttingDown: Boolean(options.shutdown) }
+            this.stopAutoscaler()
+            this.cancelWaiting("draining")
+        }
+
+        const status = this.getDrainStatus()
+        this._logger.info(status, 'DRAIN_STARTED')
+        return status
+    }
+
+    /**
+     * Takes leases again
+     * @throws DrainCancelError when the drain ends with a shutdown
+     */
+    public resume(): void {
+        if (!this._drain) {
+            return
+        }
+        if (this._drain.shuttingDown) {
+            throw new DrainCancelError()
+        }
+
+        this._drain = undefined
+        this._logger.info('DRAIN_CANCELLED')
+        for (const browserName of this._downWhileDraining) {
+            const browser = this._browsers[browserName]
+            if (browser && !browser.isUp && !browser.isRetiring && !browser.isRemoving) {
+                this.initContainer(browserName, browser.index, `${this._config.resolution.width}x${this._config.resolution.height}`)
+            }
+        }
+        this._downWhileDraining.clear()
+        this.startAutoscaler()
+        this.autoscale().catch((error) => {
+            this._logger.error({ error }, 'ERROR_AUTOSCALING')
+        })
+    }
+
+    public getDrainStatus(): DrainStatus {
+        return {
+            draining: Boolean(this._drain),
+            shuttingDown: this._drain?.shuttingDown || false,
+            reason: this._drain?.reason,
+            startedAt: this._drain?.startedAt,
+            deadline: this._drain?.deadline,
+            activeLeases: Object.values(this._browsers).filter((b) => b.leaseTime !== -1).length
+        }
+    }
+
+    /**
+     * Waits until no browser is leased anymore, or until the deadline
+     * @returns the number of leases still active
+     */
+    public waitForLeases(deadline?: number): Promise<number> {
+        return new Promise((resolve) => {
+            let timer: NodeJS.Timeout | undefined
+            let unsubscribe: (() => void) | undefined
+            const check = () => {
+                const { activeLeases } = this.getDrainStatus()
+                if (activeLeases > 0 && (deadline === undefined || Date.now() < deadline)) {
+                    return
+                }
+
+                clearInterval(timer)
+                unsubscribe?.()
+                this._logger.info({ activeLeases }, activeLeases === 0 ? 'DRAIN_COMPLETE' : 'DRAIN_DEADLINE_REACHED')
+                resolve(activeLeases)
+            }
+
+            // Leases also end without an event when their container dies, poll as well
+            timer = setInterval(check, 1000)
+            unsubscribe = this.events.subscribe({ types: ["lease.freed"] }, check)
+            check()
+        })
+    }
+
+    /**
+     * Stops managing the pool without stopping the containers
+     * Used on shutdown with a persistent state store, the next instance adopts the containers
+     */
+    public async detach(): Promise<void> {
+        this._logger.info('Detaching from existing browsers')
+        this._isKilling = true
+        this.stopAutoscaler()
+        this.cancelWaiting("shutting down")
+
+        for (const browserName in this._browsers) {
+            this.resetTimeout(browserName)
+            if (this._sockets[browserName]) {
+                this._sockets[browserName].removeAllListeners()
+                this._sockets[browserName].disconnect()
+                delete this._sockets[browserName]
+            }
+        }
+
+        await this.webhooks.stop()
+        this.artifacts.stop()
+        this.proxies.stop()
+        await this.profiles.close()
+        await this._store.close()
+    }
+
+    /**
+     * Builds the initial (idle) state of a browser slot
+     */
+    private createBrowserState(browserName: string, index: number, pool: string): Browser {
+        return {
+            name: browserName,
+            index: index,
+            pool: pool,
+            isUp: false,
+            isRemoving: false,
+            lastUsed: -1,
+            idleSince: Date.now(),
+            createdAt: Date.now(),
+            leaseTime: -1,
+            expiresAt: -1,
+            isDebug: false,
+            viewport: this._config.resolution,
+            // Assigned by the port allocator in initContainer
+            ports: { ...UNASSIGNED_PORTS },
+            labels: {},
+            webhook: "",
+            webhookEvents: [],
+            sessionID: "",
+            clientID: "",
+            fingerprintID: "",
+            sessionUUID: "",
+            reportKey: ""
+        }
+    }
+
+    /**
+     * Registers a new browser slot and starts its container
+     * @param index - Index in the browser pool
+     * @param pool - Pool the browser belongs to
+     * @param reason - Why the browser is started (logged)
+     * @param shouldCrashIfFailed - Whether to throw error on failure
+     */
+    private async startBrowser(index: number, pool: string, reason: string, shouldCrashIfFailed: boolean = false): Promise<void> {
+        const browserName = this.getBrowserName(index)
+        this._browsers[browserName] = this.createBrowserState(browserName, index, pool)
+        this._logger.info({ browserName, index, pool, reason }, 'STARTING_BROWSER')
+        this.persist(browserName)
+
+        // Remove a leftover container with the same name
+        try {
+            await this._runtime.remove(browserName, true)
+        } catch (e) {}
+
+        await this.initContainer(browserName, index, `${this._config.resolution.width}x${this._config.resolution.height}`, shouldCrashIfFailed)
+    }
+
+    /**
+     * Permanently removes a browser from the pool
+     * Unlike killBrowser, the container is not re-created afterwards
+     */
+    private async retireBrowser(browserName: string, reason: string): Promise<void> {
+        const browser = this._browsers[browserName]
+        if(!browser) {
+            return
+        }
+
+        browser.isRetiring = true
+        this.resetTimeout(browserName)
+
+        // Detach the socket first so the disconnect handler doesn't recreate the container
+        if (this._sockets[browserName]) {
+            this._sockets[browserName].removeAllListeners()
+            this._sockets[browserName].disconnect()
+            delete this._sockets[browserName]
+        }
+
+        try {
+            await this._runtime.stop(browserName)
+            this._logger.info({ browserName, reason }, 'RETIRED_CONTAINER')
+        } catch (error) {
+            if (!isContainerNotFoundError(error)) {
+                this._logger.error({ browserName, error }, 'ERROR_RETIRING_CONTAINER')
+            }
+        }
+
+        delete this._browsers[browserName]
+        this._portAllocator.release(browserName)
+        this._store.deleteBrowser(browserName).catch((error) => {
+            this._logger.error({ browserName, error }, 'ERROR_PERSISTING_STATE')
+        })
+    }
+
+    private getBrowserName(index: number): string {
+        return `${this._config.browserPrefix}-${index}`
+    }
+
+    /**
+     * Returns the lowest pool index that is not used by any browser
+     */
+    private nextFreeIndex(): number {
+        const used = new Set(Object.values(this._browsers).map((b) => b.index))
+        let index = 0
+        while (used.has(index)) {
+            index++
+        }
+
+        return index
+    }
+
+    /**
+     * Starts the periodic autoscaler (not used in MANAGE_ONLY mode)
+     */
+    private startAutoscaler(): void {
+        if (this._scaleTimer) {
+            clearInterval(this._scaleTimer)
+        }
+
+        this._scaleTimer = setInterval(() => {
+            this.autoscale().catch((error) => {
+                this._logger.error({ error }, 'ERROR_AUTOSCALING')
+            })
+        }, this._config.scaleCheckInterval)
+    }
+
+    private stopAutoscaler(): void {
+        if (this._scaleTimer) {
+            clearInterval(this._scaleTimer)
+            this._scaleTimer = undefined
+        }
+    }
+
+    private recordScaleEvent(event: ScaleEvent): void {
+        this._scaleEvents.push(event)
+        if (this._scaleEvents.length > MAX_SCALE_EVENTS) {
+            this._scaleEvents.shift()
+        }
+
+        this._logger.info(event, event.direction === "up" ? 'SCALE_UP' : 'SCALE_DOWN')
+    }
+
+    /**
+     * Browsers of a pool, without the ones being retired
+     */
+    private getPoolBrowsers(pool: string): Browser[] {
+        return Object.values(this._browsers).filter((b) => b.pool === pool && !b.isRetiring)
+    }
+
+    /**
+     * Browsers counted as idle capacity (including the ones still booting)
+     */
+    private getIdleBrowsers(pool: string): Browser[] {
+        return this.getPoolBrowsers(pool).filter((b) => b.leaseTime === -1 && !b.isRemoving)
+    }
+
+    private cancelWaiting(reason: string): void {
+        for (const queue of Object.values(this._waitQueues)) {
+            queue.cancelAll(reason)
+        }
+    }
+
+    /**
+     * Grows or shrinks every pool so that `targetIdle` browsers are available,
+     * always staying within [minBrowsers, maxBrowsers] of the pool
+     */
+    public async autoscale(): Promise<void> {
+        const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
+        if (this._isScaling || this._isKilling || this._drain || manageOnly) {
+            return
+        }
+
+        this._isScaling = true
+        try {
+            for (const pool of this._config.pools) {
+                await this.autoscalePool(pool)
+            }
+        } finally {
+            this._isScaling = false
+        }
+    }
+
+    private async autoscalePool(pool: PoolConfig): Promise<void> {
+        const total = this.getPoolBrowsers(pool.name).length
+        const idle = this.getIdleBrowsers(pool.name)
+
+        // Scale up (queued requests count as demand on top of targetIdle)
+        let toStart = Math.max(
+            pool.targetIdle + this._waitQueues[pool.name].size - idle.length,
+            pool.minBrowsers - total
+        )
+        toStart = Math.min(toStart, pool.maxBrowsers - total)
+        if (toStart > 0) {
+            const starting: Promise<void>[] = []
+            for (let i = 0; i < toStart; i++) {
+                const index = this.nextFreeIndex()
+                const reason = total + i < pool.minBrowsers ? "below_min_browsers" : "below_target_idle"
+                // Reserve the index synchronously, startBrowser registers the browser right away
+                starting.push(this.startBrowser(index, pool.name, reason))
+                this.recordScaleEvent({
+                    direction: "up",
+                    pool: pool.name,
+                    browserName: this.getBrowserName(index),
+                    reason,
+                    at: Date.now()
+                })
+            }
+
+            await Promise.all(starting)
+            return
+        }
+
+        // Scale down (only browsers that are up, idle and past the cooldown)
+        const now = Date.now()
+        const excess = Math.min(
+            idle.length - pool.targetIdle,
+            total - pool.minBrowsers
+        )
+        if (excess > 0) {
+            const candidates = idle
+                .filter((b) => b.isUp && b.idleSince !== -1 && now - b.idleSince >= this._config.scaleDownCooldown)
+                .sort((a, b) => a.idleSince - b.idleSince)
+                .slice(0, excess)
+
+            for (const browser of candidates) {
+                this.recordScaleEvent({
+                    direction: "down",
+                    pool: pool.name,
+                    browserName: browser.name,
+                    reason: "idle_cooldown_elapsed",
+                    at: now
+                })
+                await this.retireBrowser(browser.name, "idle_cooldown_elapsed")
+            }
+        }
+    }
+
+    private getPoolCapacity(pool: PoolConfig): PoolCapacity {
+        const browsers = this.getPoolBrowsers(pool.name)
+        const idle = this.getIdleBrowsers(pool.name)
+
+        return {
+            image: pool.image,
+            minBrowsers: pool.minBrowsers,
+            maxBrowsers: pool.maxBrowsers,
+            targetIdle: pool.targetIdle,
+            total: browsers.length,
+            idle: idle.filter((b) => b.isUp && !b.isUnhealthy).length,
+            starting: idle.filter((b) => !b.isUp).length,
+            leased: browsers.filter((b) => b.leaseTime !== -1).length,
+            unhealthy: browsers.filter((b) => b.isUnhealthy).length,
+            queue: this._waitQueues[pool.name].getStats()
+        }
+    }
+
+    /**
+     * Returns the pool size and autoscaler state, in total and per pool
+     */
+    public getPoolStatus(): PoolStatus {
+        const pools = Object.fromEntries(this._config.pools.map((p) => [p.name, this.getPoolCapacity(p)]))
+        const capacities = Object.values(pools)
+        const sum = (key: "minBrowsers" | "maxBrowsers" | "targetIdle" | "total" | "idle" | "starting" | "leased" | "unhealthy") =>
+            capacities.reduce((total, c) => total + c[key], 0)
+
+        return {
+            defaultPool: this._config.defaultPool,
+            minBrowsers: sum("minBrowsers"),
+            maxBrowsers: sum("maxBrowsers"),
+            targetIdle: sum("targetIdle"),
+            total: sum("total"),
+            idle: sum("idle"),
+            starting: sum("starting"),
+            leased: sum("leased"),
+            unhealthy: sum("unhealthy"),
+            queue: combineStats(capacities.map((c) => c.queue)),
+            pools,
+            lastScaleEvent: this._scaleEvents[this._scaleEvents.length - 1],
+            recentScaleEvents: [...this._scaleEvents]
         }
     }
 
     private async initManageMode(): Promise<void> {
         // Discover existing containers
-        const dockerCommand = `ps --filter name=${this._config.browserPrefix} --format "{{.Names}}" --no-trunc`;
-        
         try {
-            const listResult = await this._docker.command(dockerCommand);
+            const containers = await this._runtime.list({
+                namePrefix: this._config.browserPrefix
+            });
             
-            if (!listResult.raw || listResult.raw.trim() === '') {
+            if (containers.length === 0) {
                 this._logger.warn('No existing browser containers found');
                 return;
             }
             
-            const containerNames = listResult.raw.trim().split('\n').filter((name: string) => name.trim() !== '');
+            const containerNames = containers.map((c) => c.name);
             this._logger.info({ foundContainers: containerNames }, 'Discovered existing containers');
             
-            for (let i = 0; i < containerNames.length && i < this._config.numBrowsers; i++) {
+            // Discovered containers belong to the default pool
+            const pool = this.getPool(this._config.defaultPool);
+            for (let i = 0; i < containerNames.length && i < pool.maxBrowsers; i++) {
                 const browserName = containerNames[i];
-                // Extract index from port number in container name
-                const portMatch = browserName.match(/\d+$/);
-                const port = portMatch ? parseInt(portMatch[0]) : this._config.baseBrowserPort + i;
-                const index = port - this._config.baseBrowserPort;
-                const calculatedIndex = index >= 0 ? index : i;
+                const calculatedIndex = this.nextFreeIndex();
+
+                // Use the ports the container actually publishes
+                const ports = this.getPublishedPorts(await this._runtime.inspect(browserName));
+                this._portAllocator.reserve(browserName, ports);
                 
                 this._browsers[browserName] = {
                     name: browserName,
                     index: calculatedIndex,
+                    pool: pool.name,
                     isUp: false,
                     isRemoving: false,
                     lastUsed: -1,
+                    idleSince: Date.now(),
                     createdAt: Date.now(),
                     leaseTime: -1,
+                    expiresAt: -1,
                     isDebug: false,
                     viewport: this._config.resolution,
-                    ports: {
-                        vnc: this._config.baseBrowserVncPort + calculatedIndex,
-                        app: this._config.baseBrowserAppPort + calculatedIndex,
-                        browser: this._config.baseBrowserPort + calculatedIndex
-                    },
+                    ports: ports,
                     labels: {},
                     webhook: "",
+                    webhookEvents: [],
+                    expiryWarning: undefined,
                     sessionID: "",
                     clientID: "",
                     fingerprintID: "",
@@ -305,74 +955,50 @@ export default class BrowserManager {
     public async getBrowsersFromDocker(): Promise<Browser[]> {
         try {
             // List all containers with our browser prefix
-            const dockerCommand = `ps -a --filter name=${this._config.browserPrefix} --format "table {{.Names}}\t{{.Status}}\t{{.Ports}}\t{{.CreatedAt}}" --no-trunc`;
-            const listResult = await this._docker.command(dockerCommand);
+            const containers = await this._runtime.list({
+                all: true,
+                namePrefix: this._config.browserPrefix
+            });
             
-            if (!listResult.raw || listResult.raw.trim() === '') {
+            if (containers.length === 0) {
                 this._logger.info('No browser containers found in Docker');
                 
                 return [];
             }
-
-            const lines = listResult.raw.trim().split('\n');
-            // Skip header line
-            const containerLines = lines.slice(1);
             
             const browsers: Browser[] = [];
             
-            for (const line of containerLines) {
-                if (!line.trim()) continue;
+            for (const container of containers) {
+                const containerName = container.name;
                 
                 try {
-                    // The Docker table format uses multiple spaces as separators, not tabs
-                    // Let's parse it more carefully
-                    const trimmedLine = line.trim();
-                    
-                    // Split by multiple spaces to get the parts
-                    const parts = trimmedLine.split(/\s{2,}/);
-                    
-
-                    
-                    if (parts.length < 4) {
-                        this._logger.warn({ line: trimmedLine, partsCount: parts.length }, 'Line has insufficient parts');
-                        continue;
-                    }
-                    
-                    const containerName = parts[0].trim();
-                    const status = parts[1].trim();
-                    const ports = parts[2].trim();
-                    const createdAt = parts[3].trim();
-                    
-                    // Get detailed container information
-                    const inspectResult = await this._docker.command(`inspect ${containerName}`);
-                    const containerInfo = JSON.parse(inspectResult.raw)[0];
-                    
                     // Extract browser index from container name
                     const indexMatch = containerName.match(new RegExp(`${this._config.browserPrefix}-(\\d+)$`));
-                    const index = indexMatch ? parseInt(indexMatch[1]) - this._config.baseBrowserPort : 0;
+                    const index = indexMatch ? parseInt(indexMatch[1]) : 0;
+                    const knownPorts = this._portAllocator.getPorts(containerName);
                     
-                    // Parse ports to get the actual port mappings
-                    const portMappings = this.parseDockerPorts(ports);
-                    
-                    // Determine if container is running
-                    const isUp = status.toLowerCase().includes('up');
+                    // Published ports of the container
+                    const portMappings = container.ports;
                     
                     // Extract labels from container
-                    const labels = containerInfo.Config?.Labels || {};
+                    const labels = container.labels;
                     
                     // Create browser object
                     const browser: Browser = {
                         name: containerName,
                         index: index,
-                        isUp: isUp,
-                        isRemoving: status.toLowerCase().includes('removing'),
+                        pool: labels[POOL_LABEL] || this._config.defaultPool,
+                        isUp: container.state === 'running',
+                        isRemoving: container.state === 'removing',
                         lastUsed: labels.lastUsed ? parseInt(labels.lastUsed) : -1,
-                        createdAt: new Date(containerInfo.Created).getTime(),
+                        idleSince: -1,
+                        createdAt: container.createdAt,
                         leaseTime: labels.leaseTime ? parseInt(labels.leaseTime) : -1,
+                        expiresAt: -1,
                         ports: {
-                            vnc: portMappings.vnc || (this._config.baseBrowserVncPort + index),
-                            app: portMappings.app || (this._config.baseBrowserAppPort + index),
-                            browser: portMappings.browser || (this._config.baseBrowserPort + index)
+                            vnc: portMappings.vnc || knownPorts?.vnc || 0,
+                            app: portMappings.app || knownPorts?.app || 0,
+                            browser: portMappings.browser || knownPorts?.browser || 0
                         },
                         vncPassword: labels.vncPassword,
                         vncVersion: labels.vncVersion === 'new' ? 'new' : 'legacy',
@@ -394,7 +1020,7 @@ export default class BrowserManager {
                     browsers.push(browser);
                     
                 } catch (error) {
-                    this._logger.error({ error, containerLine: line }, 'Error processing container information');
+                    this._logger.error({ error, containerName }, 'Error processing container information');
                     continue;
                 }
             }
@@ -409,38 +1035,11 @@ export default class BrowserManager {
     }
 
     /**
-     * Parses Docker port mappings from the ports string
-     * Example input: "0.0.0.0:5900->5900/tcp, 0.0.0.0:4444->4444/tcp"
+     * Host ports published by a container
+     * Falls back to the container ports when nothing is published (containers reached by name)
      */
-    private parseDockerPorts(portsString: string): { vnc?: number; app?: number; browser?: number } {
-        const portMappings: { vnc?: number; app?: number; browser?: number } = {};
-        
-        if (!portsString || portsString === '') {
-            return portMappings;
-        }
-        
-        // Split by comma to get individual port mappings
-        const portEntries = portsString.split(',').map(p => p.trim());
-        
-        for (const entry of portEntries) {
-            // Match pattern like "0.0.0.0:5900->5900/tcp"
-            const match = entry.match(/0\.0\.0\.0:(\d+)->(\d+)\/tcp/);
-            if (match) {
-                const externalPort = parseInt(match[1]);
-                const internalPort = parseInt(match[2]);
-                
-                // Map internal ports to our browser port types
-                if (internalPort === 5900) {
-                    portMappings.vnc = externalPort;
-                } else if (internalPort === 3000) {
-                    portMappings.app = externalPort;
-                } else if (internalPort === 4444) {
-                    portMappings.browser = externalPort;
-                }
-            }
-        }
-        
-        return portMappings;
+    private getPublishedPorts(container: ContainerState): PortSet {
+        return { ...CONTAINER_PORTS, ...container.ports };
     }
 
     public async addBrowser(browser: Browser): Promise<void> {
@@ -454,6 +1053,7 @@ export default class BrowserManager {
     public async updateBrowser(browserName: string, updates: Partial<Browser>): Promise<void> {
         if (this._browsers[browserName]) {
             this._browsers[browserName] = { ...this._browsers[browserName], ...updates };
+            this.persist(browserName);
         }
     }
 
@@ -462,7 +1062,7 @@ export default class BrowserManager {
         resolution:  "1280x1024" | "1920x1080" | "1366x768" | "1536x864" | "1280x720" | "1440x900" | "1280x2400"
     ): Promise<void> {
         // Kill
-        await this.killBrowser(browserName, 0)
+        await this.killBrowser(browserName, 0, "reinitialized")
 
         // Reinitialize
         await this.initContainer(
@@ -489,8 +1089,11 @@ export default class BrowserManager {
         const start = Date.now();
         let attempts = 0;
         
+        // Image and args of the browser's pool
+        const pool = this.getPool(this._browsers[browserName]?.pool || this._config.defaultPool);
+
         // Support for additional launch arguments
-        const launchArgs: Record<string, string> = this._config.launchArgs || {};
+        const launchArgs: Record<string, string> = { ...this._config.launchArgs, ...pool.launchArgs };
         const envs = {
             XVFB_RESOLUTION: resolution,
             VNC_NO_SSL: 'true',
@@ -500,31 +1103,47 @@ export default class BrowserManager {
             ...launchArgs  // Merge any additional launch arguments
         }
 
-        const ports = {
-            '8080': String(this._config.baseBrowserAppPort + index),
-            '19222': String(this._config.baseBrowserPort + index),
-            '15900': String(this._config.baseBrowserVncPort + index)
+        // Pick free host ports (keeps the previous ones when they are still bindable)
+        let hostPorts: PortSet
+        try {
+            hostPorts = await this._portAllocator.allocate(browserName)
+        } catch (err) {
+            this._logger.error({ browserName, error: err }, 'ERROR_ALLOCATING_PORTS')
+            if (shouldCrashIfFailed) {
+                throw err
+            }
+            return
         }
 
-        let additionalDockerArgs = ""
-        if(this._config.additionalDockerArgs) {
-            additionalDockerArgs = Object.entries(this._config.additionalDockerArgs).map(([key, value]) => `--${key}=${value}`).join(' ')
+        if (this._browsers[browserName]) {
+            this._browsers[browserName].ports = hostPorts
+            this.persist(browserName)
         }
 
-        const dockerCommand = `run -d --pull never --rm ${additionalDockerArgs} --name ${browserName} ${
-            Object.entries(envs).map(([key, value]) => `-e ${key}=${value}`).join(' ')
-        } ${
-            Object.entries(ports).map(([container, host]) => `-p ${host}:${container}`).join(' ')
-        } ${this._config.browserImageName}`;
+        const spec: ContainerRunSpec = {
+            name: browserName,
+            image: pool.image,
+            env: envs,
+            labels: {
+                [MANAGED_LABEL]: "true",
+                [PREFIX_LABEL]: this._config.browserPrefix,
+                [POOL_LABEL]: pool.name
+            },
+            ports: hostPorts,
+            hostIP: this._config.portBindHost,
+            extraArgs: { ...this._config.additionalDockerArgs, ...pool.dockerArgs }
+        }
 
-        this._logger.info({ browserName, command: dockerCommand }, 'Initializing container');
+        this._logger.info({ browserName, runtime: this._runtime.name, spec }, 'Initializing container');
 
         // Creating container with retries
         while (attempts < this._config.maxRetries) {
             try {
                 this._logger.info({ browserName, attempt: attempts + 1 }, 'CREATING_CONTAINER');
                 
-                await this._docker.command(dockerCommand);
+                await this._runtime.run(spec);
+                containerCreateSeconds.observe({ pool: pool.name }, (Date.now() - start) / 1000);
+                this.publishEvent("container.created", browserName, { image: pool.image, ports: hostPorts, durationMs: Date.now() - start });
 
                 this._logger.info(
                     { browserName, duration: Date.now() - start },
@@ -545,6 +1164,11 @@ export default class BrowserManager {
                     break;
                 }
 
+                // A container that was created but failed to start would block the name
+                try {
+                    await this._runtime.remove(browserName, true);
+                } catch (e) {}
+
                 // Wait before retrying (using the same killWaitTime config)
                 await new Promise(resolve => setTimeout(resolve, this._config.killWaitTime));
             }
@@ -559,16 +1183,8 @@ export default class BrowserManager {
      */
     private async connectToBrowser(browserName: string, index: number): Promise<void> {
         try {
-            // In manage-only mode or when BROWSER_CONNECTION_HOST is empty, use container name
-            const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
-            let host = process.env.BROWSER_CONNECTION_HOST || 'localhost';
-            
-            // If BROWSER_CONNECTION_HOST is empty and we're in manage-only mode, use container name
-            if (!process.env.BROWSER_CONNECTION_HOST && manageOnly) {
-                host = browserName;
-            }
-            
-            const socket = io(`http://${host}:${this._config.baseBrowserAppPort + index}`, {
+            const host = getBrowserHost(browserName);
+            const socket = io(`http://${host}:${this._browsers[browserName].ports.app}`, {
                 reconnection: true,
                 reconnectionAttempts: 15,
                 reconnectionDelay: 1000,
@@ -582,6 +1198,20 @@ export default class BrowserManager {
             socket.on('disconnect', () => {
                 this._logger.info({ browserName }, 'SOCKET_DISCONNECTED');
                 this.resetTimeout(browserName)
+                if(this._browsers[browserName]) {
+                    socketDisconnectsTotal.inc({ pool: this._browsers[browserName].pool })
+
+                    // Disconnects not caused by the manager mean the node went away
+                    const browser = this._browsers[browserName]
+                    if(!browser.isRemoving && !browser.isRetiring && !this._isKilling) {
+                        this.publishEvent("browser.crashed", browserName, { reason: "socket_disconnected" })
+                    }
+                }
+
+                // Browser was retired by the autoscaler
+                if(!this._browsers[browserName] || this._browsers[browserName].isRetiring) {
+                    return
+                }
 
                 // Non-blocking reinitialization after 2 seconds
                 this._browsers[browserName].isUp = false
@@ -590,6 +1220,11 @@ export default class BrowserManager {
                 const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
                 if(!this._isKilling && !manageOnly) {
                     setTimeout(() => {
+                        // A draining node starts no containers, the browser comes back if the drain is cancelled
+                        if(this._drain) {
+                            this._downWhileDraining.add(browserName)
+                            return
+                        }
                         this.initContainer(
                             browserName,
                             index,
@@ -618,14 +1253,29 @@ export default class BrowserManager {
                     this._browsers[browserName].labels["id"] = id;
                     this._browsers[browserName].labels["ip"] = ip;
                     this._browsers[browserName].isUp = true;
+                    this._browsers[browserName].isUnhealthy = false;
+                    if(this._browsers[browserName].leaseTime === -1) {
+                        this._browsers[browserName].idleSince = Date.now();
+                    }
+                    this.persist(browserName);
+                    this.publishEvent("browser.up", browserName, { ip });
+                    this.serveWaitQueue(this._browsers[browserName].pool);
                 } else if (event.name === "node:setLabel") {
                     const { labelName, labelValue } = event.data;
                     this._browsers[browserName].labels[labelName] = labelValue;
+                    this.persist(browserName);
+                    this.publishEvent("node.label", browserName, { name: labelName, value: labelValue });
                 } else if (event.name === "node:setParam") {
                     const { param, value } = event.data;
                     this._browsers[browserName].labels[param] = value;
+                    this.persist(browserName);
+                    this.publishEvent("node.label", browserName, { name: param, value });
                 } else if (event.name === "node:deleted") {
                     const { isError, message } = event.data;
+                    if(isError) {
+                        this.publishEvent("browser.crashed", browserName, { reason: "node_error", message });
+                    }
+                    await this.saveProfile(browserName, event.data.sessionData);
                     try {
                         if(this._browsers[browserName].sessionID && this._browsers[browserName].clientID){
                             let sessionData = ""
@@ -644,23 +1294,19 @@ export default class BrowserManager {
                                 this._browsers[browserName].reportKey && this._browsers[browserName].reportKey !== "" &&
                                 this._browsers[browserName].sessionUUID && this._browsers[browserName].sessionUUID !== ""
                             ) {
-                                try {
-                                    await axios.post(this._browsers[browserName].webhook, {
-                                        clientID: this._browsers[browserName].clientID,
-                                        sessionUUID: this._browsers[browserName].sessionUUID,
-                                        sessionData: sessionData,
-                                        isError: isError,
-                                        error: message,
-                                        reportKey: this._browsers[browserName].reportKey,
-                                    }, {
-                                        headers: {
-                                            "Content-Type": "application/json"
-                                        }
-                                    })
-                                } catch (error) {}
+                                await this.webhooks.dispatch("session.result", this._browsers[browserName].webhook as string, this._browsers[browserName].clientID as string, {
+                                    clientID: this._browsers[browserName].clientID,
+                                    sessionUUID: this._browsers[browserName].sessionUUID,
+                                    sessionData: sessionData,
+                                    isError: isError,
+                                    error: message,
+                                    reportKey: this._browsers[browserName].reportKey,
+                                })
                             }
                         }
-                    } catch (error) {}
+                    } catch (error) {
+                        this._logger.error({ browserName, error }, 'ERROR_DISPATCHING_SESSION_RESULT');
+                    }
                 }
             });
 
@@ -671,30 +1317,136 @@ export default class BrowserManager {
         }
     }
 
+    public async getBrowser(browserName: string) : Promise<Browser | undefined> {
+        return this._browsers[browserName]
+    }
+
     public async getBrowserWithId(id:string) : Promise<Browser | undefined> {
         const browser = Object.values(this._browsers).find((b)=> b.labels?.id === id)
         return browser
     }
 
+    public async getBrowserWithLeaseId(leaseID: string) : Promise<Browser | undefined> {
+        return Object.values(this._browsers).find((b)=> b.leaseID === leaseID && b.leaseTime !== -1)
+    }
+
+    /**
+     * How the lease ended, if it ended recently
+     */
+    public getEndedLease(leaseID: string): EndedLease | undefined {
+        return this._endedLeases.get(leaseID)
+    }
+
+    private recordEndedLease(leaseID: string | undefined, reason: string): void {
+        if (!leaseID) {
+            return
+        }
+
+        this._endedLeases.set(leaseID, { leaseID, endedAt: Date.now(), reason })
+        if (this._endedLeases.size > MAX_ENDED_LEASES) {
+            // Maps iterate in insertion order, drop the oldest
+            this._endedLeases.delete(this._endedLeases.keys().next().value as string)
+        }
+    }
+
     public async getBrowserWithSessionId(sessionId:string) : Promise<Browser | undefined> {
         const browser = Object.values(this._browsers).find((b)=> b.sessionID === sessionId)
         return browser
     }
     
+    /**
+     * Takes a browser out of rotation and replaces its container
+     * The browser is handed out again once the new container reports its state
+     * @param killReason - "unhealthy" when the health checker gave up on it (the browser is marked unhealthy), "recycled" when asked through the API
+     */
+    public async recycleBrowser(browserName: string, reason: string, killReason: "unhealthy" | "recycled"): Promise<void> {
+        const browser = this._browsers[browserName]
+        if (!browser || browser.isRemoving || browser.isRetiring) {
+            return
+        }
+
+        if (killReason === "unhealthy") {
+            browser.isUnhealthy = true
+            this.persist(browserName)
+            this._logger.warn({ browserName, pool: browser.pool, reason }, 'RECYCLING_UNHEALTHY_BROWSER')
+        } else {
+            this._logger.info({ browserName, pool: browser.pool, reason }, 'RECYCLING_BROWSER')
+        }
+        await this.killBrowser(browserName, 0, killReason)
+    }
+
     public async killAllExisting() {
         this._logger.info(`Killing All existing browsers`)
         this._isKilling = true
+        this.stopAutoscaler()
+        this.cancelWaiting("shutting down")
         
         for(const browserName in this._browsers) {
-            await this.killBrowser(browserName, 0)
+            await this.killBrowser(browserName, 0, "shutdown")
+        }
+
+        await this.webhooks.stop()
+        this.artifacts.stop()
+        this.proxies.stop()
+        await this.profiles.close()
+    }
+
+    /**
+     * Saves the sessionData reported by the node as the new version of the lease's fingerprint profile
+     * Failures are logged, the session result is still reported
+     */
+    private async saveProfile(browserName: string, sessionData: unknown): Promise<void> {
+        const browser = this._browsers[browserName]
+        if (!browser?.fingerprintID || sessionData === undefined || sessionData === null || sessionData === "") {
+            return
+        }
+
+        try {
+            await this.profiles.save(
+                browser.fingerprintID,
+                typeof sessionData === "string" ? sessionData : JSON.stringify(sessionData),
+                {
+                    clientID: browser.clientID || undefined,
+                    source: "session",
+                    sessionID: browser.sessionID || undefined,
+                    leaseID: browser.leaseID
+                }
+            )
+        } catch (error) {
+            this._logger.error({ browserName, fingerprintID: browser.fingerprintID, error: error instanceof Error ? error.message : error }, 'ERROR_SAVING_PROFILE')
+        }
+    }
+
+    /**
+     * Copies the artifacts of a leased browser's container into the artifact store
+     * Failures are logged, they never keep the container from being stopped
+     */
+    private async collectArtifacts(browserName: string): Promise<void> {
+        const browser = this._browsers[browserName]
+        if (!this.artifacts.enabled || !browser?.sessionID) {
+            return
+        }
+
+        try {
+            await this.artifacts.collect(this._runtime, browserName, {
+                sessionID: browser.sessionID,
+                sessionUUID: browser.sessionUUID || browser.leaseID || browser.labels?.id || browserName,
+                leaseID: browser.leaseID,
+                clientID: browser.clientID || undefined,
+                browserName,
+                pool: browser.pool
+            })
+        } catch (error) {
+            this._logger.warn({ browserName, sessionID: browser.sessionID, error: error instanceof Error ? error.message : error }, 'ERROR_COLLECTING_ARTIFACTS')
         }
     }
 
     /**
      * Kills a browser container and cleans up associated resources
      * Implements retry logic for reliability
+     * @param reason - Why a leased browser is freed (published with `lease.freed`)
      */
-    public async killBrowser(browserName: string, tryNum: number = 0): Promise<void> {        
+    public async killBrowser(browserName: string, tryNum: number = 0, reason: string = "released"): Promise<void> {        
         try {
             if(!this._browsers[browserName]) {
                 return
@@ -702,6 +1454,12 @@ export default class BrowserManager {
     
             if(tryNum === 0) {
                 this._browsers[browserName].isRemoving = true
+                if(this._browsers[browserName].leaseTime !== -1) {
+                    this.publishEvent("lease.freed", browserName, { reason })
+                    this.recordEndedLease(this._browsers[browserName].leaseID, reason)
+                }
+                // The container (started with --rm) takes its files with it
+                await this.collectArtifacts(browserName)
             }
 
             // Clear any timeout objects
@@ -713,7 +1471,7 @@ export default class BrowserManager {
             
             if (manageOnly) {
                 // Restart the container - Docker will handle restart policy
-                await this._docker.command(`restart ${browserName}`);
+                await this._runtime.restart(browserName);
                 this._logger.info({ browserName }, 'RESTARTED_CONTAINER');
                 
                 // Wait a bit for container to restart
@@ -724,7 +1482,7 @@ export default class BrowserManager {
                 await this.connectToBrowser(browserName, index);
             } else {
                 // Kill the container
-                await this._docker.command(`stop ${browserName}`);
+                await this._runtime.stop(browserName);
                 this._logger.info({ browserName }, 'KILLED_CONTAINER');
             }
             
@@ -742,9 +1500,17 @@ export default class BrowserManager {
                     isUp: false,
                     isRemoving: false,
                     lastUsed: -1,
+                    idleSince: Date.now(),
                     leaseTime: -1,
+                    expiresAt: -1,
+                    leaseID: undefined,
+                    leasedAt: undefined,
+                    leaseToken: undefined,
+                    proxy: undefined,
                     labels: {},
                     webhook: "",
+                    webhookEvents: [],
+                    expiryWarning: undefined,
                     sessionID: "",
                     clientID: "",
                     fingerprintID: "",
@@ -759,10 +1525,18 @@ export default class BrowserManager {
                     isUp: false,
                     isRemoving: false,
                     lastUsed: -1,
+                    idleSince: Date.now(),
                     createdAt: Date.now(),
                     leaseTime: -1,
+                    expiresAt: -1,
+                    leaseID: undefined,
+                    leasedAt: undefined,
+                    leaseToken: undefined,
+                    proxy: undefined,
                     labels: {},
                     webhook: "",
+                    webhookEvents: [],
+                    expiryWarning: undefined,
                     sessionID: "",
                     clientID: "",
                     fingerprintID: "",
@@ -771,13 +1545,12 @@ export default class BrowserManager {
                 }
                 this._logger.info({ browserName }, 'Successfully killed browser');
             }
+            this.persist(browserName)
         } catch (error:unknown) {
             // Ignore "no such container" errors since the container is already gone
-            if(error instanceof Error) {
-                if (error.toString().toLowerCase().includes('no such container')) {
-                    this._logger.info({ browserName }, 'Container already removed');
-                    return;
-                }
+            if(isContainerNotFoundError(error)) {
+                this._logger.info({ browserName }, 'Container already removed');
+                return;
             }
 
             this._logger.error({ browserName, error, tryNum }, 'Error killing browser');
@@ -786,7 +1559,7 @@ export default class BrowserManager {
             if (tryNum < this._config.maxRetries) {
                 this._logger.info({ browserName, tryNum: tryNum + 1 }, 'Retrying kill browser');
                 await new Promise(resolve => setTimeout(resolve, this._config.killWaitTime)); // Wait 1 second before retry
-                return this.killBrowser(browserName, tryNum + 1);
+                return this.killBrowser(browserName, tryNum + 1, reason);
             }
             
             throw error;
@@ -796,38 +1569,153 @@ export default class BrowserManager {
     /**
      * Reserves an available browser for use
      * @param leaseTime - Duration in minutes to reserve the browser
+     * @param pool - Pool to pick the browser from (the default pool if omitted)
      * @returns Reserved browser instance
      * @throws Error if no browsers are available
      */
-    public async reserveBrowser(leaseTime: number): Promise<Browser | undefined> {
-        // Select random browser that is available
-        const browser = Object.values(this._browsers).find((b)=> b.isUp && b.leaseTime === -1)
-        if(!browser) {
-            return undefined
+    public async reserveBrowser(leaseTime: number, pool: string = this._config.defaultPool): Promise<Browser | undefined> {
+        // Queued requests get the free browsers first
+        const browser = this._waitQueues[pool].size === 0 ? this.leaseIdleBrowser(leaseTime, pool) : undefined
+
+        // Keep `targetIdle` browsers warm (non-blocking)
+        this.autoscale().catch((error) => {
+            this._logger.error({ error }, 'ERROR_AUTOSCALING')
+        })
+
+        return browser
+    }
+
+    /**
+     * Like reserveBrowser, but waits in the queue for the next free browser
+     * @throws WaitTimeoutError when no browser frees up within `options.timeoutMs`
+     * @throws WaitCancelledError when `options.signal` aborts or the manager shuts down
+     */
+    public async waitForBrowser(leaseTime: number, options: WaitOptions, pool: string = this._config.defaultPool): Promise<Browser> {
+        const browser = await this.reserveBrowser(leaseTime, pool)
+        if (browser) {
+            return browser
+        }
+
+        const queue = this._waitQueues[pool]
+        this._logger.info({ pool, depth: queue.size + 1, priority: options.priority || 0 }, 'LEASE_QUEUED')
+        const waiting = queue.wait(options, leaseTime)
+
+        // Queue depth is demand, the autoscaler may start browsers for it
+        this.autoscale().catch((error) => {
+            this._logger.error({ error }, 'ERROR_AUTOSCALING')
+        })
+
+        return waiting
+    }
+
+    /**
+     * Leases the first idle browser of the pool that is up, if any
+     */
+    private leaseIdleBrowser(leaseTime: number, pool: string): Browser | undefined {
+        const browser = Object.values(this._browsers).find((b)=> b.pool === pool && b.isUp && b.leaseTime === -1 && !b.isRemoving && !b.isRetiring && !b.isUnhealthy)
+        if(browser) {
+            // Update browser state
+            this._browsers[browser.name].leaseTime = leaseTime
+            this._browsers[browser.name].idleSince = -1
+            this.setTimeout(browser.name, leaseTime)
         }
 
-        // Update browser state
-        this._browsers[browser.name].leaseTime = leaseTime
-        this.setTimeout(browser.name, leaseTime)
         return browser
     }
 
+    /**
+     * Hands the browsers that became available to the queued requests
+     */
+    private serveWaitQueue(pool: string): void {
+        const queue = this._waitQueues[pool]
+        if (!queue || queue.size === 0 || this._isKilling) {
+            return
+        }
+
+        const served = queue.serve((leaseTime) => this.leaseIdleBrowser(leaseTime, pool))
+        if (served > 0) {
+            this._logger.info({ pool, served, depth: queue.size }, 'LEASE_QUEUE_SERVED')
+        }
+    }
+
     public async resetTimeout(browserName: string) {
         if(this._timeoutObjs[browserName]) {
             clearTimeout(this._timeoutObjs[browserName])
         }
+        if(this._warningObjs[browserName]) {
+            clearTimeout(this._warningObjs[browserName])
+            delete this._warningObjs[browserName]
+        }
+    }
+
+    /**
+     * Moves the deadline of a leased browser to `leaseTime` minutes from now, within the lifetime cap
+     * The browser node is told first, so both deadlines stay in sync
+     * @returns the new deadline
+     * @throws LeaseLifetimeError if the lease cannot be extended any further
+     */
+    public async extendLease(browserName: string, leaseTime: number): Promise<number> {
+        const browser = this._browsers[browserName]
+        let expiresAt = Date.now() + leaseTime * 60000
+        if (this._config.maxLeaseLifetime > 0 && browser.leasedAt) {
+            const maxExpiresAt = browser.leasedAt + this._config.maxLeaseLifetime
+            if (browser.expiresAt >= maxExpiresAt) {
+                throw new LeaseLifetimeError(maxExpiresAt)
+            }
+            expiresAt = Math.min(expiresAt, maxExpiresAt)
+        }
+
+        await extendNodeLease(browserName, browser.ports, Math.ceil((expiresAt - Date.now()) / 60000))
+
+        await this.resetTimeout(browserName)
+        browser.lastUsed = Date.now()
+        browser.expiresAt = expiresAt
+        this.armTimeout(browserName, expiresAt)
+        this.persist(browserName)
+
+        this.publishEvent("lease.extended", browserName, { leaseTime, expiresAt })
+        return expiresAt
     }
 
     public async setTimeout(browserName: string, timeout: number) {
-        // Store reference to this for clarity
         this._browsers[browserName].lastUsed = Date.now()
+        this._browsers[browserName].expiresAt = Date.now() + timeout * 60000
+        this.armTimeout(browserName, this._browsers[browserName].expiresAt)
+        this.persist(browserName)
+    }
+
+    /**
+     * Kills the browser at an absolute deadline
+     */
+    private armTimeout(browserName: string, expiresAt: number) {
+        // Store reference to this for clarity
         this._timeoutObjs[browserName] = setTimeout(
             async (self) => {
-                await self.killBrowser(browserName, 0)
+                const browser = self._browsers[browserName]
+                if (browser && browser.leaseTime !== -1) {
+                    leaseExpirationsTotal.inc({ pool: browser.pool, client: clientLabel(browser.clientID) })
+                }
+                await self.killBrowser(browserName, 0, "expired")
             },
-            timeout * 60000,
+            Math.max(0, expiresAt - Date.now()),
             this
         )
+
+        // Warn subscribers ahead of the deadline, when the lease is long enough for it
+        const warning = this._browsers[browserName]?.expiryWarning ?? this._config.leaseExpiryWarning
+        const warnIn = expiresAt - warning - Date.now()
+        if (warning > 0 && warnIn > 0) {
+            this._warningObjs[browserName] = setTimeout(() => {
+                delete this._warningObjs[browserName]
+                const browser = this._browsers[browserName]
+                if (browser && browser.leaseTime !== -1) {
+                    this.publishEvent("lease.expiring", browserName, {
+                        expiresAt,
+                        expiresInSeconds: Math.round((expiresAt - Date.now()) / 1000)
+                    })
+                }
+            }, warnIn)
+        }
     }
 
     /**
@@ -838,30 +1726,60 @@ export default class BrowserManager {
         sessionID: string
         clientID: string
         webhook?: string,
+        webhookEvents?: LeaseWebhookEvent[],
+        expiryWarning?: number,
         fingerprintID?: string,
         driver?: string,
         reportKey?: string,
         sessionUUID?: string
+        proxy?: AssignedProxy
     }) {
         this._browsers[browserName].sessionID = internals.sessionID
         this._browsers[browserName].clientID = internals.clientID
         this._browsers[browserName].webhook = internals.webhook
+        this._browsers[browserName].webhookEvents = internals.webhookEvents || []
+        this._browsers[browserName].expiryWarning = internals.expiryWarning
         this._browsers[browserName].fingerprintID = internals.fingerprintID
         this._browsers[browserName].driver = internals.driver
         this._browsers[browserName].reportKey = internals.reportKey
         this._browsers[browserName].sessionUUID = internals.sessionUUID
+        this._browsers[browserName].proxy = internals.proxy
+        this._browsers[browserName].leaseID = randomUUID()
+        this._browsers[browserName].leasedAt = Date.now()
+        this._browsers[browserName].leaseToken = randomBytes(24).toString("base64url")
+        this.persist(browserName)
+
+        // The deadline was armed when the browser was leased, re-arm it with this lease's warning
+        if (internals.expiryWarning !== undefined && this._browsers[browserName].expiresAt !== -1) {
+            await this.resetTimeout(browserName)
+            this.armTimeout(browserName, this._browsers[browserName].expiresAt)
+        }
+
+        this.publishEvent("lease.started", browserName, {
+            leaseID: this._browsers[browserName].leaseID,
+            leaseTime: this._browsers[browserName].leaseTime,
+            expiresAt: this._browsers[browserName].expiresAt
+        })
     }
 
     public async setVncPassword(browserName: string, vncPassword: string) {
         this._browsers[browserName].vncPassword = vncPassword
+        this.persist(browserName)
     }
 
     public async setVncVersion(browserName: string, vncVersion: "legacy" | "new") {
         this._browsers[browserName].vncVersion = vncVersion
+        this.persist(browserName)
+    }
+
+    public async setVncMode(browserName: string, vncMode: "ro" | "rw") {
+        this._browsers[browserName].vncMode = vncMode
+        this.persist(browserName)
     }
 
     public async setDebug(browserName: string, isDebug: boolean) {
         this._browsers[browserName].isDebug = isDebug
+        this.persist(browserName)
     }
 
     public async setViewport(browserName: string, viewport: {
@@ -869,9 +1787,11 @@ export default class BrowserManager {
         height: number
     }) {
         this._browsers[browserName].viewport = viewport
+        this.persist(browserName)
     }
 
     public async setDefaultViewport(browserName: string) {
         this._browsers[browserName].viewport = this._config.resolution
+        this.persist(browserName)
     }
 }
@@ -0,0 +1,54 @@
+import { readFileSync } from "fs"
+import { z } from "zod"
+
+const PoolConfigSchema = z.object({
+    name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i),
+    image: z.string(),
+    minBrowsers: z.number().int().min(0),
+    maxBrowsers: z.number().int().min(1),
+    targetIdle: z.number().int().min(0),
+    // Merged over the global launch / docker args
+    launchArgs: z.record(z.string()).optional(),
+    dockerArgs: z.record(z.string()).optional()
+}).refine((pool) => pool.minBrowsers <= pool.maxBrowsers, {
+    message: "minBrowsers must not exceed maxBrowsers"
+})
+
+const PoolsFileSchema = z.object({
+    defaultPool: z.string().optional(),
+    pools: z.array(PoolConfigSchema).min(1)
+})
+
+/**
+ * A named group of browsers running the same image
+ */
+export type PoolConfig = z.infer<typeof PoolConfigSchema>
+
+export type PoolsConfig = {
+    pools: PoolConfig[]
+    defaultPool: string
+}
+
+/**
+ * Reads the pools from a JSON file:
+ * { "defaultPool": "brave", "pools": [{ "name": "brave", "image": "...", "minBrowsers": 1, ... }] }
+ * Without a file, the single `fallback` pool is used
+ */
+export function loadPoolsConfig(fallback: PoolConfig, path?: string): PoolsConfig {
+    if (!path) {
+        return { pools: [fallback], defaultPool: fallback.name }
+    }
+
+    const file = PoolsFileSchema.parse(JSON.parse(readFileSync(path, "utf-8")))
+    const names = new Set(file.pools.map((p) => p.name))
+    if (names.size !== file.pools.length) {
+        throw new Error("Pool names must be unique")
+    }
+
+    const defaultPool = file.defaultPool || file.pools[0].name
+    if (!names.has(defaultPool)) {
+        throw new Error(`Default pool "${defaultPool}" is not configured`)
+    }
+
+    return { pools: file.pools, defaultPool }
+}
@@ -0,0 +1,217 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios"
+import puppeteer, { Browser } from "puppeteer-core"
+import { z } from "zod"
+import { RequestError, TErrorType } from "../utility/express"
+// Types only, the client does not load the server modules
+import type * as CreateLease from "../handlers/v2/createLease"
+import type * as GetLease from "../handlers/v2/getLease"
+import type * as ListBrowsers from "../handlers/v2/listBrowsers"
+import type * as ExtendLease from "../handlers/leases/extendLease"
+
+export { RequestError }
+
+export type AcquireOptions = z.input<typeof CreateLease.BodySchema>
+export type AcquiredLease = z.infer<typeof CreateLease.ResponseSchema>["lease"]
+export type Lease = z.infer<typeof GetLease.ResponseSchema>["lease"]
+export type ExtendedLease = z.infer<typeof ExtendLease.ResponseSchema>
+export type ListOptions = z.input<typeof ListBrowsers.QuerySchema>
+export type BrowserInfo = z.infer<typeof ListBrowsers.ResponseSchema>["browsers"][number]
+
+export type ManagerClientConfig = {
+    // e.g. "http://cmgr:8080"
+    baseURL: string
+    // Sent as `x-api-key`
+    apiKey?: string
+    // Time a single call may take (ms), acquire() waits longer when the lease request queues
+    timeout?: number
+    // Retries of acquire() while the pool is out of capacity (503)
+    capacityRetries?: number
+    // Delay before the first capacity retry, doubled for every following one (ms)
+    capacityRetryDelay?: number
+    capacityRetryMaxDelay?: number
+}
+
+// Error codes answered for each status, when the body is not the error envelope
+const STATUS_ERRORS: Record<number, TErrorType> = {
+    400: "BAD_REQUEST",
+    401: "UNAUTHORIZED",
+    403: "FORBIDDEN",
+    404: "NOT_FOUND",
+    409: "CONFLICT",
+    410: "GONE",
+    429: "TOO_MANY_REQUESTS",
+    500: "INTERNAL_SERVER_ERROR",
+    503: "SERVICE_UNAVAILABLE",
+    504: "TIMEOUT"
+}
+
+type ErrorEnvelope = {
+    success: false
+    error: { message: string, code: TErrorType, details?: unknown }
+}
+
+function isErrorEnvelope(data: unknown): data is ErrorEnvelope {
+    const error = (data as ErrorEnvelope | undefined)?.error
+    return typeof error?.code === "string" && typeof error?.message === "string"
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Client of the manager API (v2 routes)
+ * Failed calls throw a RequestError carrying the code answered by the manager
+ */
+export default class ManagerClient {
+    private _http: AxiosInstance
+    private _config: Required<Omit<ManagerClientConfig, "apiKey">>
+
+    constructor(config: ManagerClientConfig) {
+        this._config = {
+            baseURL: config.baseURL.replace(/\/+$/, ""),
+            timeout: config.timeout ?? 30 * 1000,
+            capacityRetries: config.capacityRetries ?? 5,
+            capacityRetryDelay: config.capacityRetryDelay ?? 1000,
+            capacityRetryMaxDelay: config.capacityRetryMaxDelay ?? 30 * 1000
+        }
+
+        this._http = axios.create({
+            baseURL: this._config.baseURL,
+            timeout: this._config.timeout,
+            headers: config.apiKey ? { "x-api-key": config.apiKey } : {},
+            // Errors are read from the envelope below
+            validateStatus: () => true
+        })
+    }
+
+    /**
+     * Leases a browser, retrying while the pool is out of capacity
+     * @throws RequestError SERVICE_UNAVAILABLE once the retries are exhausted
+     */
+    public async acquire(options: AcquireOptions): Promise<AcquiredLease> {
+        // The manager holds queued requests up to wait.timeoutMs
+        const timeout = this._config.timeout + (options.wait?.timeoutMs || 0)
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const data = await this.request<z.infer<typeof CreateLease.ResponseSchema>>({
+                    method: "POST",
+                    url: "/v2/leases",
+                    data: options,
+                    timeout
+                })
+                return data.lease
+            } catch (err) {
+                if (!(err instanceof RequestError) || err.type !== "SERVICE_UNAVAILABLE" || attempt >= this._config.capacityRetries) {
+                    throw err
+                }
+                await sleep(Math.min(this._config.capacityRetryMaxDelay, this._config.capacityRetryDelay * Math.pow(2, attempt)))
+            }
+        }
+    }
+
+    /**
+     * Moves the deadline of a lease `leaseTime` minutes from now
+     */
+    public async extend(leaseID: string, leaseTime: number): Promise<ExtendedLease> {
+        return this.request<ExtendedLease>({
+            method: "POST",
+            url: `/leases/${encodeURIComponent(leaseID)}/extend`,
+            data: { leaseTime }
+        })
+    }
+
+    public async get(leaseID: string): Promise<Lease> {
+        const data = await this.request<z.infer<typeof GetLease.ResponseSchema>>({
+            method: "GET",
+            url: `/v2/leases/${encodeURIComponent(leaseID)}`
+        })
+        return data.lease
+    }
+
+    /**
+     * Ends a lease, a lease that already ended (expired, recycled...) counts as released
+     */
+    public async release(leaseID: string): Promise<void> {
+        try {
+            await this.request({
+                method: "DELETE",
+                url: `/v2/leases/${encodeURIComponent(leaseID)}`
+            })
+        } catch (err) {
+            if (!(err instanceof RequestError) || err.type !== "GONE") {
+                throw err
+            }
+        }
+    }
+
+    public async list(options: ListOptions = {}): Promise<BrowserInfo[]> {
+        const data = await this.request<z.infer<typeof ListBrowsers.ResponseSchema>>({
+            method: "GET",
+            url: "/v2/browsers",
+            params: options
+        })
+        return data.browsers
+    }
+
+    /**
+     * Leases a browser, connects puppeteer to it and runs `fn`
+     * The browser is disconnected and released afterwards, whether `fn` succeeds or throws
+     */
+    public async withBrowser<T>(options: AcquireOptions, fn: (browser: Browser, lease: AcquiredLease) => Promise<T>): Promise<T> {
+        const lease = await this.acquire(options)
+        let browser: Browser | undefined
+        try {
+            browser = await this.connect(lease)
+            return await fn(browser, lease)
+        } finally {
+            if (browser) {
+                await browser.disconnect().catch(() => {})
+            }
+            await this.release(lease.id)
+        }
+    }
+
+    /**
+     * Connects puppeteer to a leased browser, through the manager's gateway when it returned one
+     * Otherwise reads the websocket path from the node's devtools endpoint and connects through the published browser port
+     * (only returned when the manager runs with EXPOSE_BROWSER_PORTS)
+     */
+    public async connect(lease: Lease): Promise<Browser> {
+        if (lease.wsEndpoint) {
+            return puppeteer.connect({ browserWSEndpoint: lease.wsEndpoint, defaultViewport: null })
+        }
+        if (!lease.url || !lease.ports) {
+            throw new Error("The lease has no gateway endpoint and the manager does not expose the browser ports")
+        }
+
+        const host = new URL(lease.url).hostname
+        const version = await axios.get(`http://${host}:${lease.ports.app}/system/devtools/version`, {
+            timeout: this._config.timeout
+        })
+
+        const webSocketUrl = version.data?.webSocketDebuggerUrl
+        if (!webSocketUrl) {
+            throw new Error("webSocketDebuggerUrl not found in devtoolsVersion response")
+        }
+
+        return puppeteer.connect({
+            browserWSEndpoint: `ws://${host}:${lease.ports.browser}${new URL(webSocketUrl).pathname}`,
+            defaultViewport: null
+        })
+    }
+
+    private async request<T>(config: AxiosRequestConfig): Promise<T> {
+        const response = await this._http.request(config)
+        if (response.status >= 200 && response.status < 300) {
+            return response.data as T
+        }
+
+        if (isErrorEnvelope(response.data)) {
+            const { code, message, details } = response.data.error
+            throw new RequestError(code, message, details)
+        }
+        throw new RequestError(STATUS_ERRORS[response.status] || "UNKNOWN_ERROR", `Manager answered ${response.status}`)
+    }
+}
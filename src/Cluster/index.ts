@@ -0,0 +1,311 @@
+import axios, { AxiosResponse } from "axios"
+import { createHmac, timingSafeEqual } from "crypto"
+import { Logger } from "pino"
+import BrowserManager from "../BrowserManager"
+import MemoryClusterStore from "./memory"
+import RedisClusterStore from "./redis"
+import { ClusterNode, ClusterStore, ClusterStoreKind, NodeCapacity } from "./types"
+
+export * from "./types"
+export { MemoryClusterStore, RedisClusterStore }
+
+/**
+ * Header set on requests relayed to another node (prevents forwarding loops)
+ */
+export const FORWARDED_HEADER = "x-cmgr-forwarded-by"
+
+/**
+ * Headers proving a relayed request comes from a node holding the cluster secret
+ */
+export const FORWARDED_AT_HEADER = "x-cmgr-forwarded-at"
+export const FORWARDED_SIGNATURE_HEADER = "x-cmgr-forwarded-signature"
+
+// Relayed requests older than this are rejected (replays, clock skew)
+const FORWARDED_MAX_AGE_MS = 60 * 1000
+
+/**
+ * Headers passed through when relaying a request
+ */
+const RELAYED_HEADERS = ["authorization", "x-api-key"]
+
+export type ClusterConfig = {
+    nodeID: string
+    url: string
+    namespace: string
+    store: ClusterStoreKind
+    heartbeatInterval: number
+    // "forward" proxies the call, "redirect" answers with a 307 to the owning node
+    routing: "forward" | "redirect"
+    // Shared by every node, signs the relayed requests
+    secret: string
+}
+
+/**
+ * Aggregated capacity of every live node
+ */
+export type ClusterStatus = {
+    nodeID: string
+    nodes: ClusterNode[]
+    capacity: NodeCapacity
+}
+
+function signForwarded(secret: string, nodeID: string, timestamp: string, method: string, path: string, body: unknown): string {
+    return createHmac("sha256", secret)
+        .update(`${timestamp}.${nodeID}.${method.toUpperCase()}.${path}.${JSON.stringify(body ?? {})}`)
+        .digest("base64url")
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+export function createClusterStore(kind: ClusterStoreKind, namespace: string): ClusterStore {
+    switch (kind) {
+        case "redis":
+            return new RedisClusterStore(namespace)
+        case "memory":
+            return new MemoryClusterStore()
+        default:
+            throw new Error(`Unknown cluster store "${kind}"`)
+    }
+}
+
+/**
+ * Registers this instance in a shared store, advertises its capacity and
+ * finds the node that owns a session or browser
+ */
+export default class Cluster {
+    private _config: ClusterConfig
+    private _store: ClusterStore
+    private _browserManager: BrowserManager
+    private _logger: Logger
+    private _heartbeat: NodeJS.Timeout | undefined
+    private _startedAt: number = Date.now()
+
+    constructor(config: ClusterConfig, browserManager: BrowserManager, logger: Logger, store?: ClusterStore) {
+        this._config = config
+        this._browserManager = browserManager
+        this._logger = logger
+        this._store = store || createClusterStore(config.store, config.namespace)
+    }
+
+    public get nodeID(): string {
+        return this._config.nodeID
+    }
+
+    public get routing(): "forward" | "redirect" {
+        return this._config.routing
+    }
+
+    /**
+     * Entries (nodes and owners) expire after three missed heartbeats
+     */
+    private get ttl(): number {
+        return this._config.heartbeatInterval * 3
+    }
+
+    public async start(): Promise<void> {
+        await this.sendHeartbeat()
+        this._heartbeat = setInterval(() => {
+            this.sendHeartbeat().catch((error) => {
+                this._logger.error({ error }, 'CLUSTER_HEARTBEAT_FAILED')
+            })
+        }, this._config.heartbeatInterval)
+
+        this._logger.info({ nodeID: this._config.nodeID, url: this._config.url }, 'CLUSTER_NODE_REGISTERED')
+    }
+
+    public async stop(): Promise<void> {
+        if (this._heartbeat) {
+            clearInterval(this._heartbeat)
+            this._heartbeat = undefined
+        }
+
+        try {
+            await this._store.deregisterNode(this._config.nodeID)
+        } catch (error) {
+            this._logger.error({ error }, 'CLUSTER_DEREGISTER_FAILED')
+        }
+        await this._store.close()
+    }
+
+    private getCapacity(): NodeCapacity {
+        const pool = this._browserManager.getPoolStatus()
+        // A draining node takes no leases, other nodes must not relay to it
+        const isDraining = this._browserManager.isDraining
+        return {
+            total: pool.total,
+            idle: isDraining ? 0 : pool.idle,
+            starting: pool.starting,
+            leased: pool.leased,
+            maxBrowsers: pool.maxBrowsers,
+            idleByPool: Object.fromEntries(Object.entries(pool.pools).map(([name, c]) => [name, isDraining ? 0 : c.idle])),
+            isDraining
+        }
+    }
+
+    /**
+     * Publishes this node's capacity and refreshes the ownership of its leases
+     */
+    private async sendHeartbeat(): Promise<void> {
+        await this._store.registerNode({
+            nodeID: this._config.nodeID,
+            url: this._config.url,
+            capacity: this.getCapacity(),
+            startedAt: this._startedAt,
+            updatedAt: Date.now()
+        }, this.ttl)
+
+        const browsers = await this._browserManager.getBrowsers()
+        for (const browser of browsers) {
+            if (browser.leaseTime !== -1) {
+                await this.claim({ sessionID: browser.sessionID, browserID: browser.labels?.id, leaseID: browser.leaseID })
+            }
+        }
+    }
+
+    /**
+     * Records this node as the owner of a session / browser / lease
+     */
+    public async claim(ids: { sessionID?: string, browserID?: string, leaseID?: string }): Promise<void> {
+        if (ids.sessionID) {
+            await this._store.setOwner("session", ids.sessionID, this._config.nodeID, this.ttl)
+        }
+        if (ids.browserID) {
+            await this._store.setOwner("browser", ids.browserID, this._config.nodeID, this.ttl)
+        }
+        if (ids.leaseID) {
+            await this._store.setOwner("lease", ids.leaseID, this._config.nodeID, this.ttl)
+        }
+    }
+
+    public async release(ids: { sessionID?: string, browserID?: string, leaseID?: string }): Promise<void> {
+        if (ids.sessionID) {
+            await this._store.deleteOwner("session", ids.sessionID)
+        }
+        if (ids.browserID) {
+            await this._store.deleteOwner("browser", ids.browserID)
+        }
+        if (ids.leaseID) {
+            await this._store.deleteOwner("lease", ids.leaseID)
+        }
+    }
+
+    public async getNodes(): Promise<ClusterNode[]> {
+        return this._store.listNodes(this.ttl)
+    }
+
+    /**
+     * Returns the other node that owns the lease, the browser or the session (checked in that order)
+     */
+    public async findOwner(ids: { browserID?: string, sessionID?: string, leaseID?: string }): Promise<ClusterNode | undefined> {
+        let nodeID: string | undefined
+        if (ids.leaseID) {
+            nodeID = await this._store.getOwner("lease", ids.leaseID)
+        }
+        if (!nodeID && ids.browserID) {
+            nodeID = await this._store.getOwner("browser", ids.browserID)
+        }
+        if (!nodeID && ids.sessionID) {
+            nodeID = await this._store.getOwner("session", ids.sessionID)
+        }
+
+        if (!nodeID || nodeID === this._config.nodeID) {
+            return undefined
+        }
+
+        const nodes = await this.getNodes()
+        return nodes.find((n) => n.nodeID === nodeID)
+    }
+
+    /**
+     * Returns the other node with the most idle browsers (in the pool, if given), if any has one
+     */
+    public async findNodeWithCapacity(pool?: string): Promise<ClusterNode | undefined> {
+        const idle = (node: ClusterNode) => pool ? node.capacity.idleByPool?.[pool] || 0 : node.capacity.idle
+        const nodes = (await this.getNodes())
+            .filter((n) => n.nodeID !== this._config.nodeID && idle(n) > 0)
+            .sort((a, b) => idle(b) - idle(a))
+
+        return nodes[0]
+    }
+
+    /**
+     * Sends a request to another node on behalf of the caller
+     */
+    public async forward(
+        node: ClusterNode,
+        method: "GET" | "POST" | "PUT" | "DELETE",
+        path: string,
+        body: unknown,
+        headers: Record<string, string | string[] | undefined>
+    ): Promise<AxiosResponse> {
+        const relayed: Record<string, string> = {}
+        for (const name of RELAYED_HEADERS) {
+            const value = headers[name]
+            if (typeof value === "string") {
+                relayed[name] = value
+            }
+        }
+
+        const timestamp = Date.now().toString()
+        this._logger.info({ nodeID: node.nodeID, path }, 'CLUSTER_FORWARD')
+        return axios.request({
+            method,
+            url: `${node.url}${path}`,
+            data: body ?? {},
+            headers: {
+                ...relayed,
+                "Content-Type": "application/json",
+                [FORWARDED_HEADER]: this._config.nodeID,
+                [FORWARDED_AT_HEADER]: timestamp,
+                [FORWARDED_SIGNATURE_HEADER]: signForwarded(this._config.secret, this._config.nodeID, timestamp, method, path, body)
+            },
+            validateStatus: () => true
+        })
+    }
+
+    /**
+     * Whether a relayed request was signed by a node of this cluster in the last minute
+     */
+    public verifyForwarded(
+        method: string,
+        path: string,
+        body: unknown,
+        headers: Record<string, string | string[] | undefined>
+    ): boolean {
+        const nodeID = headers[FORWARDED_HEADER]
+        const timestamp = headers[FORWARDED_AT_HEADER]
+        const signature = headers[FORWARDED_SIGNATURE_HEADER]
+        if (typeof nodeID !== "string" || typeof timestamp !== "string" || typeof signature !== "string") {
+            return false
+        }
+
+        const age = Date.now() - parseInt(timestamp)
+        if (!Number.isFinite(age) || Math.abs(age) > FORWARDED_MAX_AGE_MS) {
+            return false
+        }
+
+        return safeEqual(signature, signForwarded(this._config.secret, nodeID, timestamp, method, path, body))
+    }
+
+    public async getStatus(): Promise<ClusterStatus> {
+        const nodes = await this.getNodes()
+        const capacity: NodeCapacity = { total: 0, idle: 0, starting: 0, leased: 0, maxBrowsers: 0 }
+        for (const node of nodes) {
+            capacity.total += node.capacity.total
+            capacity.idle += node.capacity.idle
+            capacity.starting += node.capacity.starting
+            capacity.leased += node.capacity.leased
+            capacity.maxBrowsers += node.capacity.maxBrowsers
+        }
+
+        return {
+            nodeID: this._config.nodeID,
+            nodes,
+            capacity
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { ClusterNode, ClusterStore, OwnerKind } from "./types"
+
+/**
+ * In-process registry (a single instance, or several instances inside one process in tests)
+ */
+export default class MemoryClusterStore implements ClusterStore {
+    public readonly name: string = "memory"
+    private _nodes: Map<string, ClusterNode> = new Map()
+    private _owners: Map<string, { nodeID: string, expiresAt: number }> = new Map()
+
+    public async registerNode(node: ClusterNode): Promise<void> {
+        this._nodes.set(node.nodeID, { ...node })
+    }
+
+    public async deregisterNode(nodeID: string): Promise<void> {
+        this._nodes.delete(nodeID)
+    }
+
+    public async listNodes(ttl: number): Promise<ClusterNode[]> {
+        const now = Date.now()
+        return [...this._nodes.values()].filter((n) => now - n.updatedAt < ttl)
+    }
+
+    public async setOwner(kind: OwnerKind, id: string, nodeID: string, ttl: number): Promise<void> {
+        this._owners.set(`${kind}:${id}`, { nodeID, expiresAt: Date.now() + ttl })
+    }
+
+    public async getOwner(kind: OwnerKind, id: string): Promise<string | undefined> {
+        const owner = this._owners.get(`${kind}:${id}`)
+        if (!owner || owner.expiresAt <= Date.now()) {
+            this._owners.delete(`${kind}:${id}`)
+            return undefined
+        }
+        return owner.nodeID
+    }
+
+    public async deleteOwner(kind: OwnerKind, id: string): Promise<void> {
+        this._owners.delete(`${kind}:${id}`)
+    }
+
+    public async close(): Promise<void> {}
+}
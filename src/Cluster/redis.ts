@@ -0,0 +1,63 @@
+import { createRedisClient, RedisClient } from "../utility/redis"
+import { ClusterNode, ClusterStore, OwnerKind } from "./types"
+
+/**
+ * Registry shared through Redis
+ * Nodes live in the `<namespace>:nodes` hash, owners are `<namespace>:owner:<kind>:<id>` keys with a TTL
+ */
+export default class RedisClusterStore implements ClusterStore {
+    public readonly name: string = "redis"
+    private _redis: RedisClient
+    private _namespace: string
+
+    constructor(namespace: string, redis: RedisClient = createRedisClient()) {
+        this._redis = redis
+        this._namespace = namespace
+    }
+
+    private get nodesKey(): string {
+        return `${this._namespace}:nodes`
+    }
+
+    private ownerKey(kind: OwnerKind, id: string): string {
+        return `${this._namespace}:owner:${kind}:${id}`
+    }
+
+    public async registerNode(node: ClusterNode): Promise<void> {
+        await this._redis.hset(this.nodesKey, node.nodeID, JSON.stringify(node))
+    }
+
+    public async deregisterNode(nodeID: string): Promise<void> {
+        await this._redis.hdel(this.nodesKey, nodeID)
+    }
+
+    public async listNodes(ttl: number): Promise<ClusterNode[]> {
+        const now = Date.now()
+        const nodes: ClusterNode[] = (await this._redis.hvals(this.nodesKey)).map((value) => JSON.parse(value))
+
+        // Drop nodes that stopped sending heartbeats
+        const stale = nodes.filter((n) => now - n.updatedAt >= ttl)
+        if (stale.length > 0) {
+            await this._redis.hdel(this.nodesKey, ...stale.map((n) => n.nodeID))
+        }
+
+        return nodes.filter((n) => now - n.updatedAt < ttl)
+    }
+
+    public async setOwner(kind: OwnerKind, id: string, nodeID: string, ttl: number): Promise<void> {
+        await this._redis.set(this.ownerKey(kind, id), nodeID, "PX", ttl)
+    }
+
+    public async getOwner(kind: OwnerKind, id: string): Promise<string | undefined> {
+        const nodeID = await this._redis.get(this.ownerKey(kind, id))
+        return nodeID || undefined
+    }
+
+    public async deleteOwner(kind: OwnerKind, id: string): Promise<void> {
+        await this._redis.del(this.ownerKey(kind, id))
+    }
+
+    public async close(): Promise<void> {
+        await this._redis.quit()
+    }
+}
@@ -0,0 +1,57 @@
+import { Request, Response } from "express"
+import { RequestError, TContext, TErrorType, setRedirectResponse, setSuccessResponse } from "../utility/express"
+import { ClusterNode, FORWARDED_HEADER } from "."
+
+/**
+ * Whether the request was already relayed by another node
+ * The header is ignored outside cluster mode, and needs a valid signature of the cluster secret in it
+ * @throws RequestError UNAUTHORIZED when the signature is missing, stale or wrong
+ */
+export function isForwarded(req: Request<any, any, any, any, any>, res: Response<any, TContext<any>>): boolean {
+    const cluster = res.locals.cluster
+    if (!cluster || !req.headers[FORWARDED_HEADER]) {
+        return false
+    }
+
+    if (!cluster.verifyForwarded(req.method, req.originalUrl, req.body, req.headers)) {
+        throw new RequestError("UNAUTHORIZED", "Invalid cluster signature")
+    }
+    return true
+}
+
+/**
+ * Answers the request with the result of the same call on another node
+ * (or with a 307 redirect to it, depending on the routing mode)
+ */
+export async function relayToNode(
+    req: Request<any, any, any, any, any>,
+    res: Response<any, TContext<any>>,
+    node: ClusterNode,
+    path: string
+): Promise<void> {
+    const cluster = res.locals.cluster
+    if (!cluster) {
+        throw new RequestError("INTERNAL_SERVER_ERROR", "Cluster mode is disabled")
+    }
+
+    if (cluster.routing === "redirect") {
+        setRedirectResponse(res, `${node.url}${path}`, 307)
+        return
+    }
+
+    const response = await cluster.forward(node, req.method as "GET" | "POST" | "PUT" | "DELETE", path, req.body, req.headers)
+    if (response.status < 400) {
+        const { success, ...data } = response.data || {}
+        // e.g. a lease created on the other node
+        res.locals.isNewResource = response.status === 201
+        setSuccessResponse(res, { ...data, nodeID: node.nodeID })
+        return
+    }
+
+    const error = response.data?.error
+    throw new RequestError(
+        (error?.code as TErrorType) || "UNKNOWN_ERROR",
+        error?.message || `Node ${node.nodeID} failed with status ${response.status}`,
+        error?.details
+    )
+}
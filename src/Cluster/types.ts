@@ -0,0 +1,44 @@
+/**
+ * Capacity a cluster node reports with every heartbeat
+ */
+export type NodeCapacity = {
+    total: number
+    idle: number
+    starting: number
+    leased: number
+    maxBrowsers: number
+    // Idle browsers per pool
+    idleByPool?: Record<string, number>
+    // Draining nodes report no idle browsers
+    isDraining?: boolean
+}
+
+/**
+ * A manager instance registered in the cluster
+ */
+export type ClusterNode = {
+    nodeID: string
+    // Base URL other nodes use to reach this node's API
+    url: string
+    capacity: NodeCapacity
+    startedAt: number
+    updatedAt: number
+}
+
+export type OwnerKind = "session" | "browser" | "lease"
+
+/**
+ * Shared registry of nodes and of which node owns a sessionID / browserID
+ */
+export interface ClusterStore {
+    readonly name: string
+    registerNode(node: ClusterNode, ttl: number): Promise<void>
+    deregisterNode(nodeID: string): Promise<void>
+    listNodes(ttl: number): Promise<ClusterNode[]>
+    setOwner(kind: OwnerKind, id: string, nodeID: string, ttl: number): Promise<void>
+    getOwner(kind: OwnerKind, id: string): Promise<string | undefined>
+    deleteOwner(kind: OwnerKind, id: string): Promise<void>
+    close(): Promise<void>
+}
+
+export type ClusterStoreKind = "memory" | "redis"
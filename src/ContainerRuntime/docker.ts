@@ -0,0 +1,168 @@
+import { Logger } from "pino"
+import { Readable } from "stream"
+import DockerClient, { ContainerSummary, ContainerInspect, DockerError, dockerArgsToHostConfig, isNoSuchContainerError } from "../DockerClient"
+import { PortSet } from "../PortAllocator"
+import {
+    ContainerRuntime, ContainerRunSpec, ContainerState, ContainerListFilter,
+    ContainerNotFoundError, CONTAINER_PORTS, PORT_KINDS
+} from "./types"
+
+/**
+ * Runtime backed by the Docker Engine API
+ */
+export default class DockerRuntime implements ContainerRuntime {
+    public readonly name: string = "docker"
+    protected _client: DockerClient
+    protected _logger: Logger
+
+    constructor(client: DockerClient, logger: Logger) {
+        this._client = client
+        this._logger = logger
+    }
+
+    public static fromEnv(logger: Logger): DockerRuntime {
+        return new DockerRuntime(DockerClient.fromEnv(), logger)
+    }
+
+    /**
+     * Maps "no such container" to the runtime-agnostic error
+     */
+    private async call<T>(name: string, fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn()
+        } catch (error) {
+            if (isNoSuchContainerError(error)) {
+                throw new ContainerNotFoundError(name)
+            }
+            throw error
+        }
+    }
+
+    public async ping(timeout?: number): Promise<void> {
+        await this._client.ping(timeout)
+    }
+
+    public async pull(image: string): Promise<void> {
+        await this._client.pullImage(image)
+    }
+
+    public unsupportedArgs(extraArgs: Record<string, string>): string[] {
+        return dockerArgsToHostConfig(extraArgs).unsupported
+    }
+
+    public async run(spec: ContainerRunSpec): Promise<string> {
+        const { hostConfig, user, unsupported } = dockerArgsToHostConfig(spec.extraArgs)
+        // Also checked when the manager starts
+        if (unsupported.length > 0) {
+            throw new Error(`Unsupported docker args for ${spec.name}: ${unsupported.join(", ")}`)
+        }
+
+        return this._client.runContainer(spec.name, {
+            Image: spec.image,
+            Env: Object.entries(spec.env).map(([key, value]) => `${key}=${value}`),
+            Labels: spec.labels,
+            ...(user ? { User: user } : {}),
+            ExposedPorts: Object.fromEntries(PORT_KINDS.map((kind) => [`${CONTAINER_PORTS[kind]}/tcp`, {}])),
+            HostConfig: {
+                // Equivalent of `--rm` (not allowed together with a restart policy)
+                AutoRemove: !hostConfig.RestartPolicy,
+                ...hostConfig,
+                PortBindings: Object.fromEntries(PORT_KINDS.map((kind) => [
+                    `${CONTAINER_PORTS[kind]}/tcp`,
+                    [{ HostIp: spec.hostIP, HostPort: String(spec.ports[kind]) }]
+                ]))
+            }
+        })
+    }
+
+    public async stop(name: string): Promise<void> {
+        await this.call(name, () => this._client.stopContainer(name))
+    }
+
+    public async restart(name: string): Promise<void> {
+        await this.call(name, () => this._client.restartContainer(name))
+    }
+
+    public async remove(name: string, force: boolean = false): Promise<void> {
+        await this.call(name, () => this._client.removeContainer(name, force))
+    }
+
+    public async inspect(name: string): Promise<ContainerState> {
+        const info = await this.call(name, () => this._client.inspectContainer(name))
+        return this.fromInspect(info)
+    }
+
+    public async list(filter: ContainerListFilter = {}): Promise<ContainerState[]> {
+        const containers = await this._client.listContainers({
+            all: filter.all,
+            filters: {
+                ...(filter.namePrefix ? { name: [filter.namePrefix] } : {}),
+                ...(filter.labels ? { label: Object.entries(filter.labels).map(([key, value]) => `${key}=${value}`) } : {})
+            }
+        })
+
+        // The name filter matches substrings, keep real prefix matches only
+        return containers
+            .map((c) => this.fromSummary(c))
+            .filter((c) => !filter.namePrefix || c.name.startsWith(filter.namePrefix))
+    }
+
+    public async logs(name: string, tail: number = 100): Promise<string> {
+        return this.call(name, () => this._client.containerLogs(name, tail))
+    }
+
+    public async archive(name: string, path: string, timeout?: number): Promise<Readable | undefined> {
+        try {
+            return await this.call(name, () => this._client.getArchive(name, path, timeout))
+        } catch (error) {
+            // The container exists but the path does not
+            if (error instanceof DockerError && error.statusCode === 404) {
+                return undefined
+            }
+            throw error
+        }
+    }
+
+    private fromSummary(container: ContainerSummary): ContainerState {
+        const ports: Partial<PortSet> = {}
+        for (const port of container.Ports || []) {
+            if (port.Type !== "tcp" || !port.PublicPort) continue
+            for (const kind of PORT_KINDS) {
+                if (port.PrivatePort === CONTAINER_PORTS[kind]) {
+                    ports[kind] = port.PublicPort
+                }
+            }
+        }
+
+        return {
+            id: container.Id,
+            name: (container.Names[0] || container.Id).replace(/^\//, ""),
+            image: container.Image,
+            state: container.State,
+            createdAt: container.Created * 1000,
+            labels: container.Labels || {},
+            ports
+        }
+    }
+
+    private fromInspect(info: ContainerInspect): ContainerState {
+        const published = info.NetworkSettings?.Ports || {}
+        const ports: Partial<PortSet> = {}
+        for (const kind of PORT_KINDS) {
+            const bindings = published[`${CONTAINER_PORTS[kind]}/tcp`]
+            if (Array.isArray(bindings) && bindings.length > 0 && bindings[0].HostPort) {
+                ports[kind] = parseInt(bindings[0].HostPort)
+            }
+        }
+
+        return {
+            id: info.Id,
+            name: info.Name.replace(/^\//, ""),
+            image: info.Config.Image,
+            state: info.State.Status,
+            createdAt: new Date(info.Created).getTime(),
+            labels: info.Config.Labels || {},
+            ports
+        }
+    }
+}
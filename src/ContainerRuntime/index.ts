@@ -0,0 +1,24 @@
+import { Logger } from "pino"
+import DockerRuntime from "./docker"
+import PodmanRuntime from "./podman"
+import SimulatorRuntime from "./simulator"
+import { ContainerRuntime, ContainerRuntimeKind } from "./types"
+
+export * from "./types"
+export { DockerRuntime, PodmanRuntime, SimulatorRuntime }
+
+/**
+ * Creates the runtime selected by CONTAINER_RUNTIME
+ */
+export function createContainerRuntime(kind: ContainerRuntimeKind, logger: Logger): ContainerRuntime {
+    switch (kind) {
+        case "podman":
+            return PodmanRuntime.fromEnv(logger)
+        case "simulator":
+            return new SimulatorRuntime(logger)
+        case "docker":
+            return DockerRuntime.fromEnv(logger)
+        default:
+            throw new Error(`Unknown container runtime "${kind}"`)
+    }
+}
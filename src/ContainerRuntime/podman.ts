@@ -0,0 +1,30 @@
+import { Logger } from "pino"
+import DockerClient from "../DockerClient"
+import DockerRuntime from "./docker"
+
+/**
+ * Runtime backed by Podman's Docker-compatible API
+ * Defaults to the rootless socket of the current user ($XDG_RUNTIME_DIR/podman/podman.sock)
+ */
+export default class PodmanRuntime extends DockerRuntime {
+    public readonly name: string = "podman"
+
+    /**
+     * Uses PODMAN_HOST, then CONTAINER_HOST, then the rootless (or rootful, for root) socket
+     * Registry credentials come from REGISTRY_AUTH_FILE (default: podman's auth.json)
+     */
+    public static fromEnv(logger: Logger): PodmanRuntime {
+        const uid = typeof process.getuid === "function" ? process.getuid() : undefined
+        const runtimeDir = process.env.XDG_RUNTIME_DIR || (uid !== undefined ? `/run/user/${uid}` : "/run")
+        const defaultSocket = uid === 0
+            ? "unix:///run/podman/podman.sock"
+            : `unix://${runtimeDir}/podman/podman.sock`
+
+        return new PodmanRuntime(new DockerClient({
+            dockerHost: process.env.PODMAN_HOST || process.env.CONTAINER_HOST || defaultSocket,
+            apiVersion: process.env.DOCKER_API_VERSION,
+            // Written by `podman login`
+            registryAuth: DockerClient.registryAuthFromEnv(process.env.REGISTRY_AUTH_FILE || `${runtimeDir}/containers/auth.json`)
+        }), logger)
+    }
+}
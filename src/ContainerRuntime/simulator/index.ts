@@ -0,0 +1,176 @@
+import { Logger } from "pino"
+import { randomBytes } from "crypto"
+import { basename } from "path"
+import { Readable } from "stream"
+import { PortSet } from "../../PortAllocator"
+import { ContainerRuntime, ContainerRunSpec, ContainerState, ContainerListFilter, ContainerNotFoundError } from "../types"
+import FakeBrowserNode from "./node"
+import { packTar } from "../../Artifacts/tar"
+
+type SimulatedContainer = {
+    id: string
+    spec: ContainerRunSpec
+    state: "running" | "exited"
+    createdAt: number
+    node?: FakeBrowserNode
+    logs: string[]
+}
+
+const MAX_LOG_LINES = 1000
+
+/**
+ * In-memory runtime: every "container" is a FakeBrowserNode listening on the allocated host ports
+ * Lets the whole getBrowser/freeBrowser flow run without a container engine
+ */
+export default class SimulatorRuntime implements ContainerRuntime {
+    public readonly name: string = "simulator"
+    private _containers: Map<string, SimulatedContainer> = new Map()
+    private _logger: Logger
+
+    constructor(logger: Logger) {
+        this._logger = logger
+    }
+
+    private get(name: string): SimulatedContainer {
+        const container = this._containers.get(name)
+        if (!container) {
+            throw new ContainerNotFoundError(name)
+        }
+        return container
+    }
+
+    private log(container: SimulatedContainer, line: string): void {
+        container.logs.push(`${new Date().toISOString()} ${line}`)
+        if (container.logs.length > MAX_LOG_LINES) {
+            container.logs.shift()
+        }
+    }
+
+    private async startNode(container: SimulatedContainer): Promise<void> {
+        const node = new FakeBrowserNode(container.spec.ports, container.spec.hostIP, (line) => this.log(container, line))
+        await node.start()
+        container.node = node
+        container.state = "running"
+    }
+
+    public async ping(): Promise<void> {}
+
+    public async pull(image: string): Promise<void> {
+        this._logger.info({ image }, 'SIMULATOR_PULL_SKIPPED')
+    }
+
+    public async run(spec: ContainerRunSpec): Promise<string> {
+        if (this._containers.has(spec.name)) {
+            throw new Error(`Conflict. The container name "${spec.name}" is already in use`)
+        }
+
+        const container: SimulatedContainer = {
+            id: randomBytes(32).toString("hex"),
+            spec,
+            state: "exited",
+            createdAt: Date.now(),
+            logs: []
+        }
+        this._containers.set(spec.name, container)
+
+        try {
+            await this.startNode(container)
+        } catch (error) {
+            this._containers.delete(spec.name)
+            throw error
+        }
+
+        return container.id
+    }
+
+    public async stop(name: string): Promise<void> {
+        const container = this.get(name)
+        if (container.node) {
+            await container.node.stop()
+            container.node = undefined
+        }
+        container.state = "exited"
+
+        // Mirrors `--rm`, unless a restart policy was requested
+        if (!container.spec.extraArgs["restart"]) {
+            this._containers.delete(name)
+        }
+    }
+
+    public async restart(name: string): Promise<void> {
+        const container = this.get(name)
+        if (container.node) {
+            await container.node.stop()
+            container.node = undefined
+        }
+        await this.startNode(container)
+    }
+
+    public async remove(name: string, force: boolean = false): Promise<void> {
+        const container = this.get(name)
+        if (container.state === "running") {
+            if (!force) {
+                throw new Error(`You cannot remove a running container ${name}. Stop the container before attempting removal or force remove`)
+            }
+            await container.node?.stop()
+        }
+        this._containers.delete(name)
+    }
+
+    public async inspect(name: string): Promise<ContainerState> {
+        return this.toState(name, this.get(name))
+    }
+
+    public async list(filter: ContainerListFilter = {}): Promise<ContainerState[]> {
+        return [...this._containers.entries()]
+            .filter(([name, c]) =>
+                (filter.all || c.state === "running") &&
+                (!filter.namePrefix || name.startsWith(filter.namePrefix)) &&
+                Object.entries(filter.labels || {}).every(([key, value]) => c.spec.labels[key] === value)
+            )
+            .map(([name, c]) => this.toState(name, c))
+    }
+
+    /**
+     * Every flag is accepted, only `restart` has an effect
+     */
+    public unsupportedArgs(): string[] {
+        return []
+    }
+
+    public async logs(name: string, tail: number = 100): Promise<string> {
+        return this.get(name).logs.slice(-tail).join("\n")
+    }
+
+    /**
+     * The node's artifacts, placed under the basename of `path` like `docker cp` does
+     */
+    public async archive(name: string, path: string): Promise<Readable | undefined> {
+        const artifacts = this.get(name).node?.artifacts
+        if (!artifacts || artifacts.size === 0) {
+            return undefined
+        }
+
+        const directory = basename(path)
+        return Readable.from([packTar([...artifacts.entries()].map(([file, data]) => ({ name: `${directory}/${file}`, data, mtime: Date.now() })))])
+    }
+
+    /**
+     * Direct access to the fake node (e.g. to assert on the launch request in tests)
+     */
+    public getNode(name: string): FakeBrowserNode | undefined {
+        return this._containers.get(name)?.node
+    }
+
+    private toState(name: string, container: SimulatedContainer): ContainerState {
+        return {
+            id: container.id,
+            name,
+            image: container.spec.image,
+            state: container.state,
+            createdAt: container.createdAt,
+            labels: { ...container.spec.labels },
+            ports: container.state === "running" ? { ...container.spec.ports } as Partial<PortSet> : {}
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import express, { json } from 'express'
+import { createServer, Server as HttpServer } from 'http'
+import { Server as SocketServer } from 'socket.io'
+import { WebSocketServer, WebSocket } from 'ws'
+import { randomUUID, randomBytes } from 'crypto'
+import net from 'net'
+import { PortSet } from '../../PortAllocator'
+import { CONTAINER_PORTS } from '../types'
+
+/**
+ * Results for the CDP methods puppeteer sends while connecting
+ * Every other method answers with an empty result
+ */
+const CDP_RESULTS: Record<string, unknown> = {
+    "Target.getBrowserContexts": { browserContextIds: [] },
+    "Target.getTargets": { targetInfos: [] },
+    "Browser.getVersion": {
+        protocolVersion: "1.3",
+        product: "Simulated/1.0",
+        revision: "0",
+        userAgent: "Mozilla/5.0 (Simulated)",
+        jsVersion: "0"
+    }
+}
+
+/**
+ * In-process stand-in for a browser-node container
+ * Serves the app API (/action/launch, /action/lease, /system/devtools/version),
+ * the `browser:container:event` socket protocol, a CDP websocket and a VNC banner
+ * Launches with `recordData` leave a fake recording in `artifacts`
+ */
+export default class FakeBrowserNode {
+    public readonly id: string = randomUUID()
+    public launchRequest: Record<string, unknown> | undefined
+    public leaseTime: number | undefined
+    // Files the node wrote to its artifact directory, by name
+    public readonly artifacts: Map<string, Buffer> = new Map()
+    private _ports: PortSet
+    private _host: string
+    private _log: (line: string) => void
+    private _appServer: HttpServer
+    private _socketServer: SocketServer
+    private _cdpServer: HttpServer
+    private _cdpSockets: WebSocketServer
+    private _vncServer: net.Server
+    private _vncClients: Set<net.Socket> = new Set()
+
+    constructor(ports: PortSet, host: string, log: (line: string) => void) {
+        this._ports = ports
+        this._host = host
+        this._log = log
+
+        // App API
+        const app = express()
+        app.use(json({ limit: "50mb" }))
+        app.post("/action/launch", (req, res) => {
+            this.launchRequest = req.body
+            this.leaseTime = req.body?.leaseTime
+            this._log(`launch ${JSON.stringify({ sessionID: req.body?.sessionID, leaseTime: req.body?.leaseTime })}`)
+            if (req.body?.recordData) {
+                this.artifacts.set("recording.webm", randomBytes(64 * 1024))
+                this.artifacts.set("recording.json", Buffer.from(JSON.stringify({ sessionID: req.body.sessionID, startedAt: Date.now() })))
+            }
+            res.json({ password: randomBytes(6).toString("hex") })
+        })
+        app.post("/action/lease", (req, res) => {
+            this.leaseTime = req.body?.leaseTime
+            this._log(`lease ${req.body?.leaseTime}`)
+            res.json({ success: true })
+        })
+        app.get("/system/devtools/version", (_, res) => {
+            res.json({
+                "Browser": "Simulated/1.0",
+                "Protocol-Version": "1.3",
+                "User-Agent": "Mozilla/5.0 (Simulated)",
+                // Like the real node, this reports the in-container port
+                "webSocketDebuggerUrl": `ws://127.0.0.1:${CONTAINER_PORTS.browser}/devtools/browser/${this.id}`
+            })
+        })
+        this._appServer = createServer(app)
+        this._socketServer = new SocketServer(this._appServer, { cors: { origin: "*" } })
+        this._socketServer.on("connection", (socket) => {
+            socket.emit("browser:container:event", {
+                name: "node:setState",
+                data: { id: this.id, ip: "127.0.0.1" }
+            })
+        })
+
+        // CDP
+        this._cdpServer = createServer((_, res) => {
+            res.writeHead(404)
+            res.end()
+        })
+        this._cdpSockets = new WebSocketServer({ server: this._cdpServer })
+        this._cdpSockets.on("connection", (ws: WebSocket) => {
+            ws.on("message", (raw) => {
+                let message: { id: number, method: string, sessionId?: string }
+                try {
+                    message = JSON.parse(raw.toString())
+                } catch (e) {
+                    return
+                }
+
+                ws.send(JSON.stringify({
+                    id: message.id,
+                    result: CDP_RESULTS[message.method] || {},
+                    ...(message.sessionId ? { sessionId: message.sessionId } : {})
+                }))
+            })
+        })
+
+        // VNC (only the RFB protocol version banner)
+        this._vncServer = net.createServer((socket) => {
+            this._vncClients.add(socket)
+            socket.on("close", () => this._vncClients.delete(socket))
+            socket.on("error", () => {})
+            socket.write("RFB 003.008\n")
+        })
+    }
+
+    public async start(): Promise<void> {
+        await Promise.all([
+            listen(this._appServer, this._ports.app, this._host),
+            listen(this._cdpServer, this._ports.browser, this._host),
+            listen(this._vncServer, this._ports.vnc, this._host)
+        ])
+        this._log(`listening app=${this._ports.app} browser=${this._ports.browser} vnc=${this._ports.vnc}`)
+    }
+
+    /**
+     * Reports the session result (like the real node does when it shuts down) and closes every server
+     */
+    public async stop(isError: boolean = false, message: string = ""): Promise<void> {
+        this._socketServer.emit("browser:container:event", {
+            name: "node:deleted",
+            data: {
+                isError,
+                message,
+                sessionData: this.launchRequest?.sessionData ?? JSON.stringify({ simulated: true, nodeID: this.id })
+            }
+        })
+
+        // Give the event a moment to reach the manager
+        await new Promise((resolve) => setTimeout(resolve, 100))
+
+        for (const socket of this._vncClients) {
+            socket.destroy()
+        }
+        for (const client of this._cdpSockets.clients) {
+            client.terminate()
+        }
+
+        this._socketServer.disconnectSockets(true)
+        await Promise.all([
+            new Promise<void>((resolve) => this._socketServer.close(() => resolve())),
+            close(this._cdpServer),
+            close(this._vncServer)
+        ])
+        this._log("stopped")
+    }
+}
+
+function listen(server: net.Server, port: number, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        server.once("error", reject)
+        server.listen(port, host, () => {
+            server.off("error", reject)
+            resolve()
+        })
+    })
+}
+
+function close(server: net.Server): Promise<void> {
+    return new Promise((resolve) => {
+        if (!server.listening) {
+            return resolve()
+        }
+        server.close(() => resolve())
+        if ("closeAllConnections" in server) {
+            (server as HttpServer).closeAllConnections()
+        }
+    })
+}
@@ -0,0 +1,85 @@
+import { Readable } from "stream"
+import { PortKind, PortSet } from "../PortAllocator"
+
+/**
+ * Everything a runtime needs to start a browser container
+ */
+export type ContainerRunSpec = {
+    name: string
+    image: string
+    env: Record<string, string>
+    labels: Record<string, string>
+    // Host port published for each container port
+    ports: PortSet
+    // Host address the ports are published on ("127.0.0.1" keeps them off the network)
+    hostIP: string
+    // `docker run` style flags, e.g. { "shm-size": "2g" }
+    extraArgs: Record<string, string>
+}
+
+/**
+ * Runtime-agnostic view of a container
+ */
+export type ContainerState = {
+    id: string
+    name: string
+    image: string
+    state: string
+    createdAt: number
+    labels: Record<string, string>
+    // Published host ports, by the browser port they map to
+    ports: Partial<PortSet>
+}
+
+export type ContainerListFilter = {
+    all?: boolean
+    namePrefix?: string
+    labels?: Record<string, string>
+}
+
+/**
+ * Operations the BrowserManager needs from a container engine
+ */
+export interface ContainerRuntime {
+    readonly name: string
+    ping(timeout?: number): Promise<void>
+    pull(image: string): Promise<void>
+    run(spec: ContainerRunSpec): Promise<string>
+    stop(name: string): Promise<void>
+    restart(name: string): Promise<void>
+    remove(name: string, force?: boolean): Promise<void>
+    inspect(name: string): Promise<ContainerState>
+    list(filter?: ContainerListFilter): Promise<ContainerState[]>
+    logs(name: string, tail?: number): Promise<string>
+    // Flags of `extraArgs` the runtime cannot apply
+    unsupportedArgs(extraArgs: Record<string, string>): string[]
+    // Tar archive of `path` inside the container as a stream, undefined when the path does not exist
+    archive(name: string, path: string, timeout?: number): Promise<Readable | undefined>
+}
+
+export type ContainerRuntimeKind = "docker" | "podman" | "simulator"
+
+/**
+ * Ports the browser-node image listens on inside the container
+ */
+export const CONTAINER_PORTS: PortSet = {
+    app: 8080,
+    browser: 19222,
+    vnc: 15900
+}
+
+export const PORT_KINDS = Object.keys(CONTAINER_PORTS) as PortKind[]
+
+/**
+ * Thrown by every runtime when the container doesn't exist
+ */
+export class ContainerNotFoundError extends Error {
+    constructor(name: string) {
+        super(`No such container: ${name}`)
+        this.name = 'ContainerNotFoundError'
+    }
+}
+
+export function isContainerNotFoundError(error: unknown): error is ContainerNotFoundError {
+    return error instanceof ContainerNotFoundError
+}
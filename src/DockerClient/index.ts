@@ -0,0 +1,568 @@
+import axios, { AxiosInstance, AxiosResponse, Method } from 'axios'
+import https from 'https'
+import path from 'path'
+import fs from 'fs'
+import os from 'os'
+import { Readable } from 'stream'
+
+/**
+ * Published port of a container, as returned by the list endpoint
+ */
+export type ContainerPort = {
+    IP?: string
+    PrivatePort: number
+    PublicPort?: number
+    Type: "tcp" | "udp" | "sctp"
+}
+
+/**
+ * Container summary (GET /containers/json)
+ */
+export type ContainerSummary = {
+    Id: string
+    Names: string[]
+    Image: string
+    Created: number
+    State: string
+    Status: string
+    Labels: Record<string, string>
+    Ports: ContainerPort[]
+}
+
+export type PortBinding = {
+    HostIp?: string
+    HostPort: string
+}
+
+/**
+ * Detailed container information (GET /containers/{id}/json)
+ */
+export type ContainerInspect = {
+    Id: string
+    Name: string
+    Created: string
+    State: {
+        Status: string
+        Running: boolean
+        ExitCode?: number
+        StartedAt?: string
+    }
+    Config: {
+        Image: string
+        Labels: Record<string, string> | null
+        Env?: string[]
+    }
+    NetworkSettings: {
+        Ports: Record<string, PortBinding[] | null> | null
+    }
+}
+
+/**
+ * Subset of the HostConfig accepted by POST /containers/create
+ */
+export type HostConfig = {
+    AutoRemove?: boolean
+    PortBindings?: Record<string, PortBinding[]>
+    NetworkMode?: string
+    ShmSize?: number
+    Memory?: number
+    NanoCpus?: number
+    Privileged?: boolean
+    ExtraHosts?: string[]
+    CapAdd?: string[]
+    SecurityOpt?: string[]
+    Dns?: string[]
+    IpcMode?: string
+    RestartPolicy?: { Name: string, MaximumRetryCount?: number }
+}
+
+/**
+ * Body of POST /containers/create
+ */
+export type ContainerCreateSpec = {
+    Image: string
+    Env?: string[]
+    Labels?: Record<string, string>
+    User?: string
+    ExposedPorts?: Record<string, {}>
+    HostConfig?: HostConfig
+}
+
+/**
+ * Credentials sent to the registry when pulling (X-Registry-Auth)
+ */
+export type RegistryCredentials = {
+    username?: string
+    password?: string
+    identitytoken?: string
+    serveraddress: string
+}
+
+/**
+ * Where the client finds registry credentials
+ */
+export type RegistryAuthOptions = {
+    // Used for the images of `credentials.serveraddress` only
+    credentials?: RegistryCredentials
+    // A docker config.json (or podman auth.json), its `auths` are read on every pull
+    configPath?: string
+}
+
+/**
+ * Filters for the list endpoint, e.g. { label: ["cmgr.managed=true"], name: ["browser-node"] }
+ */
+export type ContainerFilters = {
+    label?: string[]
+    name?: string[]
+    status?: string[]
+}
+
+/**
+ * Error returned by the Docker Engine API
+ */
+export class DockerError extends Error {
+    public statusCode: number
+
+    constructor(message: string, statusCode: number) {
+        super(message)
+        this.name = 'DockerError'
+        this.statusCode = statusCode
+    }
+}
+
+export class NoSuchContainerError extends DockerError {
+    constructor(message: string) {
+        super(message, 404)
+        this.name = 'NoSuchContainerError'
+    }
+}
+
+export class NoSuchImageError extends DockerError {
+    constructor(message: string) {
+        super(message, 404)
+        this.name = 'NoSuchImageError'
+    }
+}
+
+export class ContainerConflictError extends DockerError {
+    constructor(message: string) {
+        super(message, 409)
+        this.name = 'ContainerConflictError'
+    }
+}
+
+export function isNoSuchContainerError(error: unknown): error is NoSuchContainerError {
+    return error instanceof NoSuchContainerError
+}
+
+/**
+ * Parses sizes like "512m" or "2g" into bytes
+ */
+function parseBytes(value: string): number {
+    const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)([bkmg]?)b?$/)
+    if (!match) {
+        return NaN
+    }
+
+    const units: Record<string, number> = { "": 1, b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }
+    return Math.floor(parseFloat(match[1]) * units[match[2]])
+}
+
+// Names Docker Hub goes by in config files
+const DOCKER_HUB_HOSTS = ["docker.io", "index.docker.io", "registry-1.docker.io", "registry.hub.docker.com"]
+
+function normalizeRegistry(server: string): string {
+    const host = server.replace(/^https?:\/\//, "").split("/")[0]
+    return DOCKER_HUB_HOSTS.includes(host) ? "docker.io" : host
+}
+
+/**
+ * Registry of an image reference ("ghcr.io/org/app:1" -> "ghcr.io", "node:20" -> "docker.io")
+ */
+export function getImageRegistry(image: string): string {
+    const slash = image.indexOf("/")
+    const first = slash === -1 ? "" : image.slice(0, slash)
+    if (first && (first.includes(".") || first.includes(":") || first === "localhost")) {
+        return normalizeRegistry(first)
+    }
+    return "docker.io"
+}
+
+/**
+ * Credentials of `registry` in the `auths` of a docker config.json
+ * Credential helpers (`credsStore`, `credHelpers`) are not run
+ */
+export function readConfigCredentials(configPath: string, registry: string): RegistryCredentials | undefined {
+    let config: { auths?: Record<string, { auth?: string, username?: string, password?: string, identitytoken?: string }> }
+    try {
+        config = JSON.parse(fs.readFileSync(configPath, "utf-8"))
+    } catch (error) {
+        return undefined
+    }
+
+    for (const [server, entry] of Object.entries(config.auths || {})) {
+        if (normalizeRegistry(server) !== registry) {
+            continue
+        }
+        if (entry.identitytoken) {
+            return { identitytoken: entry.identitytoken, serveraddress: server }
+        }
+        if (entry.auth) {
+            // base64("username:password")
+            const decoded = Buffer.from(entry.auth, "base64").toString("utf-8")
+            const separator = decoded.indexOf(":")
+            return { username: decoded.slice(0, separator), password: decoded.slice(separator + 1), serveraddress: server }
+        }
+        if (entry.username) {
+            return { username: entry.username, password: entry.password, serveraddress: server }
+        }
+    }
+    return undefined
+}
+
+/**
+ * Translates `docker run` style flags ({ "shm-size": "2g" }) into the HostConfig of the Engine API
+ * @returns the host config and the flags that have no API equivalent
+ */
+export function dockerArgsToHostConfig(args: Record<string, string>): { hostConfig: HostConfig, user?: string, unsupported: string[] } {
+    const hostConfig: HostConfig = {}
+    const unsupported: string[] = []
+    let user: string | undefined
+
+    for (const [key, value] of Object.entries(args)) {
+        switch (key) {
+            case "network":
+            case "net":
+                hostConfig.NetworkMode = value
+                break
+            case "shm-size":
+                hostConfig.ShmSize = parseBytes(value)
+                break
+            case "memory":
+                hostConfig.Memory = parseBytes(value)
+                break
+            case "cpus":
+                hostConfig.NanoCpus = Math.floor(parseFloat(value) * 1e9)
+                break
+            case "privileged":
+                hostConfig.Privileged = value === "true"
+                break
+            case "add-host":
+                hostConfig.ExtraHosts = [...(hostConfig.ExtraHosts || []), value]
+                break
+            case "cap-add":
+                hostConfig.CapAdd = [...(hostConfig.CapAdd || []), value]
+                break
+            case "security-opt":
+                hostConfig.SecurityOpt = [...(hostConfig.SecurityOpt || []), value]
+                break
+            case "dns":
+                hostConfig.Dns = [...(hostConfig.Dns || []), value]
+                break
+            case "ipc":
+                hostConfig.IpcMode = value
+                break
+            case "restart":
+                hostConfig.RestartPolicy = { Name: value }
+                break
+            case "user":
+                user = value
+                break
+            default:
+                unsupported.push(key)
+        }
+    }
+
+    return { hostConfig, user, unsupported }
+}
+
+/**
+ * Minimal typed client for the Docker Engine API
+ * Talks to the daemon over the unix socket (or named pipe) or over TCP as configured by DOCKER_HOST
+ */
+export default class DockerClient {
+    private _http: AxiosInstance
+    private _registryAuth: RegistryAuthOptions
+
+    constructor(options: {
+        dockerHost?: string
+        apiVersion?: string
+        tlsVerify?: boolean
+        certPath?: string
+        timeout?: number
+        registryAuth?: RegistryAuthOptions
+    } = {}) {
+        this._registryAuth = options.registryAuth || {}
+        const prefix = options.apiVersion ? `/v${options.apiVersion.replace(/^v/, "")}` : ""
+        const dockerHost = options.dockerHost || (process.platform === "win32" ? "npipe:////./pipe/docker_engine" : "unix:///var/run/docker.sock")
+
+        if (dockerHost.startsWith("unix://") || dockerHost.startsWith("npipe://")) {
+            this._http = axios.create({
+                baseURL: `http://localhost${prefix}`,
+                socketPath: dockerHost.replace(/^(unix|npipe):\/\//, ""),
+                timeout: options.timeout,
+                validateStatus: () => true
+            })
+        } else {
+            const useTls = Boolean(options.tlsVerify)
+            const url = new URL(dockerHost.replace(/^tcp:\/\//, useTls ? "https://" : "http://"))
+            this._http = axios.create({
+                baseURL: `${url.protocol}//${url.host}${prefix}`,
+                timeout: options.timeout,
+                validateStatus: () => true,
+                ...(useTls && options.certPath ? {
+                    httpsAgent: new https.Agent({
+                        ca: fs.readFileSync(path.join(options.certPath, "ca.pem")),
+                        cert: fs.readFileSync(path.join(options.certPath, "cert.pem")),
+                        key: fs.readFileSync(path.join(options.certPath, "key.pem"))
+                    })
+                } : {})
+            })
+        }
+    }
+
+    /**
+     * Builds a client from the DOCKER_HOST / DOCKER_TLS_VERIFY / DOCKER_CERT_PATH / DOCKER_API_VERSION env vars
+     */
+    public static fromEnv(): DockerClient {
+        return new DockerClient({
+            dockerHost: process.env.DOCKER_HOST,
+            apiVersion: process.env.DOCKER_API_VERSION,
+            tlsVerify: process.env.DOCKER_TLS_VERIFY === "1" || process.env.DOCKER_TLS_VERIFY === "true",
+            certPath: process.env.DOCKER_CERT_PATH,
+            registryAuth: DockerClient.registryAuthFromEnv(
+                path.join(process.env.DOCKER_CONFIG || path.join(os.homedir(), ".docker"), "config.json")
+            )
+        })
+    }
+
+    /**
+     * REGISTRY_USERNAME and REGISTRY_PASSWORD (for REGISTRY_SERVER, docker.io by default), then the `auths` of `configPath`
+     */
+    public static registryAuthFromEnv(configPath: string): RegistryAuthOptions {
+        return {
+            credentials: process.env.REGISTRY_USERNAME ? {
+                username: process.env.REGISTRY_USERNAME,
+                password: process.env.REGISTRY_PASSWORD || "",
+                serveraddress: process.env.REGISTRY_SERVER || "docker.io"
+            } : undefined,
+            configPath
+        }
+    }
+
+    /**
+     * X-Registry-Auth header of an image's registry, undefined for anonymous pulls
+     */
+    private getRegistryAuthHeader(image: string): string | undefined {
+        const registry = getImageRegistry(image)
+        const { credentials, configPath } = this._registryAuth
+        const found = credentials && normalizeRegistry(credentials.serveraddress) === registry ?
+            credentials :
+            configPath ? readConfigCredentials(configPath, registry) : undefined
+
+        return found ? Buffer.from(JSON.stringify(found)).toString("base64url") : undefined
+    }
+
+    private async request<T>(
+        method: Method,
+        url: string,
+        options: {
+            params?: Record<string, unknown>
+            data?: unknown
+            headers?: Record<string, string>
+            responseType?: "json" | "text" | "arraybuffer" | "stream"
+            timeout?: number
+        } = {}
+    ): Promise<AxiosResponse<T>> {
+        const response = await this._http.request<T>({
+            method,
+            url,
+            params: options.params,
+            data: options.data,
+            headers: options.headers,
+            responseType: options.responseType,
+            timeout: options.timeout
+        })
+
+        if (response.status >= 400) {
+            // Streamed errors are read for their message
+            if (response.data instanceof Readable) {
+                const chunks: Buffer[] = []
+                for await (const chunk of response.data) {
+                    chunks.push(Buffer.from(chunk))
+                }
+                response.data = Buffer.concat(chunks) as T
+            }
+            throw this.toError(response, url)
+        }
+
+        return response
+    }
+
+    private toError(response: AxiosResponse, url: string): DockerError {
+        let data = response.data as { message?: string } | string | ArrayBuffer | Buffer | undefined
+        // Binary endpoints (logs, archives) answer errors as JSON too
+        if (data instanceof ArrayBuffer || Buffer.isBuffer(data)) {
+            const text = Buffer.from(data).toString("utf8")
+            try {
+                data = JSON.parse(text) as { message?: string }
+            } catch (error) {
+                data = text
+            }
+        }
+        const message = (typeof data === "string" ? data : data?.message) || `Docker API ${url} failed with ${response.status}`
+
+        if (response.status === 404 && message.toLowerCase().includes("no such container")) {
+            return new NoSuchContainerError(message)
+        }
+        if (response.status === 404 && (message.toLowerCase().includes("no such image") || url.startsWith("/containers/create"))) {
+            return new NoSuchImageError(message)
+        }
+        if (response.status === 409) {
+            return new ContainerConflictError(message)
+        }
+
+        return new DockerError(message, response.status)
+    }
+
+    public async ping(timeout?: number): Promise<void> {
+        await this.request<string>("GET", "/_ping", { responseType: "text", timeout })
+    }
+
+    public async info(): Promise<Record<string, unknown>> {
+        const response = await this.request<Record<string, unknown>>("GET", "/info")
+        return response.data
+    }
+
+    /**
+     * Pulls an image and waits for the pull to finish
+     * Private registries get the configured credentials (see registryAuthFromEnv)
+     */
+    public async pullImage(image: string): Promise<void> {
+        // Split "repo/name:tag" (a ":" inside the registry host is not a tag)
+        const lastSlash = image.lastIndexOf("/")
+        const tagIndex = image.indexOf(":", lastSlash)
+        const fromImage = tagIndex === -1 ? image : image.slice(0, tagIndex)
+        const tag = tagIndex === -1 ? "latest" : image.slice(tagIndex + 1)
+
+        const registryAuth = this.getRegistryAuthHeader(image)
+        const response = await this.request<string>("POST", "/images/create", {
+            params: { fromImage, tag },
+            headers: registryAuth ? { "X-Registry-Auth": registryAuth } : undefined,
+            responseType: "text"
+        })
+
+        // Errors during the pull are reported inside the progress stream
+        for (const line of String(response.data).split("\n")) {
+            if (!line.trim()) continue
+            try {
+                const progress = JSON.parse(line)
+                if (progress.error) {
+                    throw new DockerError(progress.error, 500)
+                }
+            } catch (error) {
+                if (error instanceof DockerError) throw error
+            }
+        }
+    }
+
+    public async createContainer(name: string, spec: ContainerCreateSpec): Promise<string> {
+        const response = await this.request<{ Id: string }>("POST", "/containers/create", {
+            params: { name },
+            data: spec
+        })
+        return response.data.Id
+    }
+
+    public async startContainer(id: string): Promise<void> {
+        await this.request("POST", `/containers/${encodeURIComponent(id)}/start`)
+    }
+
+    /**
+     * Creates and starts a container (`docker run -d`)
+     */
+    public async runContainer(name: string, spec: ContainerCreateSpec): Promise<string> {
+        const id = await this.createContainer(name, spec)
+        await this.startContainer(id)
+        return id
+    }
+
+    /**
+     * Stops a container, killing it after `timeout` seconds
+     */
+    public async stopContainer(id: string, timeout?: number): Promise<void> {
+        await this.request("POST", `/containers/${encodeURIComponent(id)}/stop`, {
+            params: timeout !== undefined ? { t: timeout } : undefined
+        })
+    }
+
+    public async restartContainer(id: string, timeout?: number): Promise<void> {
+        await this.request("POST", `/containers/${encodeURIComponent(id)}/restart`, {
+            params: timeout !== undefined ? { t: timeout } : undefined
+        })
+    }
+
+    public async killContainer(id: string): Promise<void> {
+        await this.request("POST", `/containers/${encodeURIComponent(id)}/kill`)
+    }
+
+    public async removeContainer(id: string, force: boolean = false): Promise<void> {
+        await this.request("DELETE", `/containers/${encodeURIComponent(id)}`, {
+            params: { force }
+        })
+    }
+
+    public async inspectContainer(id: string): Promise<ContainerInspect> {
+        const response = await this.request<ContainerInspect>("GET", `/containers/${encodeURIComponent(id)}/json`)
+        return response.data
+    }
+
+    /**
+     * Returns the last `tail` lines of stdout and stderr
+     */
+    public async containerLogs(id: string, tail: number = 100): Promise<string> {
+        const response = await this.request<ArrayBuffer>("GET", `/containers/${encodeURIComponent(id)}/logs`, {
+            params: { stdout: true, stderr: true, tail },
+            responseType: "arraybuffer"
+        })
+
+        // Without a TTY the stream is multiplexed: [stream, 0, 0, 0, size (uint32 BE)] + payload
+        const buffer = Buffer.from(response.data)
+        if (buffer.length < 8 || buffer[0] > 2 || buffer[1] !== 0 || buffer[2] !== 0 || buffer[3] !== 0) {
+            return buffer.toString("utf8")
+        }
+
+        const chunks: Buffer[] = []
+        let offset = 0
+        while (offset + 8 <= buffer.length) {
+            const size = buffer.readUInt32BE(offset + 4)
+            chunks.push(buffer.subarray(offset + 8, offset + 8 + size))
+            offset += 8 + size
+        }
+
+        return Buffer.concat(chunks).toString("utf8")
+    }
+
+    /**
+     * Streams a tar archive of `path` inside the container (`docker cp <id>:<path> -`)
+     * `timeout` bounds the wait for the response, the caller bounds the transfer
+     */
+    public async getArchive(id: string, path: string, timeout?: number): Promise<Readable> {
+        const response = await this.request<Readable>("GET", `/containers/${encodeURIComponent(id)}/archive`, {
+            params: { path },
+            responseType: "stream",
+            timeout
+        })
+        return response.data
+    }
+
+    public async listContainers(options: { all?: boolean, filters?: ContainerFilters } = {}): Promise<ContainerSummary[]> {
+        const response = await this.request<ContainerSummary[]>("GET", "/containers/json", {
+            params: {
+                all: options.all ? true : undefined,
+                filters: options.filters ? JSON.stringify(options.filters) : undefined
+            }
+        })
+        return response.data
+    }
+}
@@ -0,0 +1,96 @@
+import { EventEmitter } from "events"
+
+export const LIFECYCLE_EVENT_TYPES = [
+    "container.created",
+    "browser.up",
+    "browser.crashed",
+    "node.label",
+    "lease.started",
+    "lease.extended",
+    "lease.expiring",
+    "lease.freed"
+] as const
+
+export type LifecycleEventType = typeof LIFECYCLE_EVENT_TYPES[number]
+
+export type LifecycleEvent = {
+    // Increasing sequence number (used as the SSE event id)
+    id: number
+    type: LifecycleEventType
+    at: number
+    browserName: string
+    pool: string
+    browserID?: string
+    sessionID?: string
+    clientID?: string
+    data: Record<string, unknown>
+}
+
+/**
+ * Fields an event subscription can match on (every given field must match)
+ */
+export type EventFilter = {
+    types?: LifecycleEventType[]
+    browserID?: string
+    sessionID?: string
+    clientID?: string
+}
+
+// Events kept for subscribers that reconnect with Last-Event-ID
+const HISTORY_SIZE = 500
+
+export function matchesFilter(event: LifecycleEvent, filter: EventFilter): boolean {
+    return (!filter.types || filter.types.length === 0 || filter.types.includes(event.type)) &&
+        (!filter.browserID || event.browserID === filter.browserID) &&
+        (!filter.sessionID || event.sessionID === filter.sessionID) &&
+        (!filter.clientID || event.clientID === filter.clientID)
+}
+
+/**
+ * In-process publisher of browser and lease lifecycle events
+ */
+export default class EventBus {
+    private _emitter: EventEmitter = new EventEmitter()
+    private _history: LifecycleEvent[] = []
+    private _nextID: number = 1
+
+    constructor() {
+        // One listener per open stream
+        this._emitter.setMaxListeners(0)
+    }
+
+    public publish(event: Omit<LifecycleEvent, "id" | "at">): LifecycleEvent {
+        const published: LifecycleEvent = { id: this._nextID++, at: Date.now(), ...event }
+        this._history.push(published)
+        if (this._history.length > HISTORY_SIZE) {
+            this._history.shift()
+        }
+
+        this._emitter.emit("event", published)
+        return published
+    }
+
+    /**
+     * Calls `listener` for every matching event
+     * @returns a function that removes the subscription
+     */
+    public subscribe(filter: EventFilter, listener: (event: LifecycleEvent) => void): () => void {
+        const handler = (event: LifecycleEvent) => {
+            if (matchesFilter(event, filter)) {
+                listener(event)
+            }
+        }
+
+        this._emitter.on("event", handler)
+        return () => {
+            this._emitter.off("event", handler)
+        }
+    }
+
+    /**
+     * Matching events published after `lastID` that are still in the history
+     */
+    public replay(filter: EventFilter, lastID: number): LifecycleEvent[] {
+        return this._history.filter((e) => e.id > lastID && matchesFilter(e, filter))
+    }
+}
@@ -0,0 +1,227 @@
+import { IncomingMessage, STATUS_CODES } from "http"
+import { Duplex } from "stream"
+import { timingSafeEqual } from "crypto"
+import { Logger } from "pino"
+import { RawData, WebSocket, WebSocketServer } from "ws"
+import BrowserManager, { Browser } from "../BrowserManager"
+import { getBrowserHost, getBrowserWSEndpoint } from "../utility/browser"
+
+/**
+ * Prefix of the gateway routes: /devtools/:browserID[/<CDP path>]
+ */
+export const GATEWAY_PATH = "/devtools"
+
+// Close code sent to clients when the lease ends (the 4000-4999 range is free for applications)
+export const LEASE_ENDED_CLOSE_CODE = 4410
+
+export type GatewayConfig = {
+    // Base URL clients reach the manager on ("ws://cmgr.example.com:8200")
+    publicURL: string
+    // Time to reach the browser's CDP endpoint (ms)
+    connectTimeout: number
+}
+
+type GatewayConnection = {
+    leaseID: string
+    client: WebSocket
+    upstream: WebSocket
+}
+
+/**
+ * CDP endpoint of a leased browser through the gateway, the lease token is passed as `token`
+ */
+export function getGatewayEndpoint(browser: Browser): string | undefined {
+    if (!browser.leaseToken || !browser.labels?.id) {
+        return undefined
+    }
+
+    const base = (process.env.GATEWAY_PUBLIC_URL as string).replace(/\/+$/, "")
+    return `${base}${GATEWAY_PATH}/${encodeURIComponent(browser.labels.id)}?token=${encodeURIComponent(browser.leaseToken)}`
+}
+
+/**
+ * Token of an upgrade request: `?token=`, `Authorization: Bearer` or `x-lease-token`
+ */
+function readToken(req: IncomingMessage, url: URL): string | undefined {
+    const fromQuery = url.searchParams.get("token")
+    if (fromQuery) {
+        return fromQuery
+    }
+
+    const authorization = req.headers.authorization
+    if (authorization?.startsWith("Bearer ")) {
+        return authorization.slice("Bearer ".length)
+    }
+
+    const header = req.headers["x-lease-token"]
+    return typeof header === "string" ? header : undefined
+}
+
+function isSameToken(expected: string, given: string): boolean {
+    const a = Buffer.from(expected)
+    const b = Buffer.from(given)
+    return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Rejects an upgrade request with a plain HTTP response
+ */
+export function rejectUpgrade(socket: Duplex, status: number): void {
+    if (socket.writable) {
+        socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`)
+    }
+    socket.destroy()
+}
+
+/**
+ * Proxies CDP websocket connections to the leased browsers through the manager's HTTP port
+ * Connections need the lease token and are closed as soon as the lease ends
+ */
+export default class CdpGateway {
+    private _config: GatewayConfig
+    private _browserManager: BrowserManager
+    private _logger: Logger
+    private _server: WebSocketServer = new WebSocketServer({ noServer: true })
+    // Open connections per browser name
+    private _connections: Record<string, Set<GatewayConnection>> = {}
+    private _unsubscribe: (() => void) | undefined
+
+    constructor(config: GatewayConfig, browserManager: BrowserManager, logger: Logger) {
+        this._config = config
+        this._browserManager = browserManager
+        this._logger = logger
+    }
+
+    public start(): void {
+        this._unsubscribe = this._browserManager.events.subscribe({ types: ["lease.freed"] }, (event) => {
+            this.closeConnections(event.browserName, LEASE_ENDED_CLOSE_CODE, "Lease ended")
+        })
+    }
+
+    public stop(): void {
+        this._unsubscribe?.()
+        this._unsubscribe = undefined
+
+        for (const browserName in this._connections) {
+            this.closeConnections(browserName, 1001, "Shutting down")
+        }
+    }
+
+    /**
+     * Handles an upgrade request on /devtools/:browserID
+     */
+    public handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+        this.upgrade(req, socket, head).catch((error) => {
+            this._logger.error({ error: error instanceof Error ? error.message : error }, 'ERROR_UPGRADING_GATEWAY_CONNECTION')
+            rejectUpgrade(socket, 500)
+        })
+    }
+
+    private async upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+        const url = new URL(req.url || "/", "http://gateway")
+        const match = url.pathname.match(new RegExp(`^${GATEWAY_PATH}/([^/]+)(/.*)?$`))
+        if (!match) {
+            return rejectUpgrade(socket, 404)
+        }
+
+        const browserID = decodeURIComponent(match[1])
+        const browser = await this._browserManager.getBrowserWithId(browserID)
+        if (!browser || browser.leaseTime === -1 || !browser.leaseToken || !browser.leaseID) {
+            return rejectUpgrade(socket, 404)
+        }
+
+        const token = readToken(req, url)
+        if (!token || !isSameToken(browser.leaseToken, token)) {
+            this._logger.warn({ browserID, browserName: browser.name }, 'GATEWAY_TOKEN_REJECTED')
+            return rejectUpgrade(socket, 401)
+        }
+
+        // Without a path the client gets the browser target
+        const leaseID = browser.leaseID
+        const target = match[2] ?
+            `ws://${getBrowserHost(browser.name)}:${browser.ports.browser}${match[2]}` :
+            await getBrowserWSEndpoint(browser.name, browser.ports, this._config.connectTimeout)
+
+        let upstream: WebSocket
+        try {
+            upstream = await this.connectUpstream(target)
+        } catch (error) {
+            this._logger.error({ browserName: browser.name, error: error instanceof Error ? error.message : error }, 'ERROR_CONNECTING_GATEWAY_UPSTREAM')
+            return rejectUpgrade(socket, 502)
+        }
+
+        // The lease may have ended while connecting
+        if (browser.leaseID !== leaseID || browser.leaseTime === -1) {
+            upstream.terminate()
+            return rejectUpgrade(socket, 404)
+        }
+
+        this._server.handleUpgrade(req, socket, head, (client) => {
+            this.pipe(browser.name, { leaseID, client, upstream })
+        })
+    }
+
+    private connectUpstream(target: string): Promise<WebSocket> {
+        return new Promise((resolve, reject) => {
+            const upstream = new WebSocket(target, {
+                handshakeTimeout: this._config.connectTimeout,
+                // CDP messages can be large (screenshots, snapshots)
+                maxPayload: 256 * 1024 * 1024
+            })
+            upstream.once("open", () => resolve(upstream))
+            // Stays attached until pipe() takes over, rejecting a settled promise is a no-op
+            upstream.on("error", reject)
+        })
+    }
+
+    private pipe(browserName: string, connection: GatewayConnection): void {
+        const { client, upstream } = connection
+        this._connections[browserName] = this._connections[browserName] || new Set()
+        this._connections[browserName].add(connection)
+        this._logger.info({ browserName, leaseID: connection.leaseID }, 'GATEWAY_CONNECTION_OPENED')
+
+        const forward = (to: WebSocket) => (data: RawData, isBinary: boolean) => {
+            if (to.readyState === WebSocket.OPEN) {
+                to.send(data, { binary: isBinary })
+            }
+        }
+        client.on("message", forward(upstream))
+        upstream.on("message", forward(client))
+
+        const cleanup = () => {
+            if (!this._connections[browserName]?.delete(connection)) {
+                return
+            }
+            if (this._connections[browserName].size === 0) {
+                delete this._connections[browserName]
+            }
+
+            client.close()
+            upstream.close()
+            this._logger.info({ browserName, leaseID: connection.leaseID }, 'GATEWAY_CONNECTION_CLOSED')
+        }
+        client.on("close", cleanup)
+        upstream.on("close", cleanup)
+        client.on("error", cleanup)
+        upstream.on("error", cleanup)
+    }
+
+    private closeConnections(browserName: string, code: number, reason: string): void {
+        const connections = this._connections[browserName]
+        if (!connections) {
+            return
+        }
+
+        delete this._connections[browserName]
+        for (const { leaseID, client, upstream } of connections) {
+            client.close(code, reason)
+            upstream.close()
+            // Clients that ignore the close frame are cut off
+            setTimeout(() => {
+                client.terminate()
+                upstream.terminate()
+            }, 1000).unref()
+            this._logger.info({ browserName, leaseID, reason }, 'GATEWAY_CONNECTION_CLOSED')
+        }
+    }
+}
@@ -0,0 +1,177 @@
+import { Logger } from "pino"
+import BrowserManager, { Browser } from "../BrowserManager"
+import { probeBrowser } from "../utility/browser"
+
+export type HealthCheckConfig = {
+    // Time between two rounds of probes (ms)
+    interval: number
+    // Time a single probe may take (ms)
+    timeout: number
+    // Consecutive failed probes after which a browser is recycled
+    failureThreshold: number
+}
+
+export type BrowserHealth = {
+    browserName: string
+    pool: string
+    failures: number
+    lastCheckedAt: number
+    lastError?: string
+}
+
+export type PoolHealth = {
+    total: number
+    healthy: number
+    unhealthy: number
+    starting: number
+    leased: number
+    canScale: boolean
+}
+
+export type HealthReport = {
+    status: "ok" | "degraded" | "unavailable"
+    lastRoundAt: number
+    pools: Record<string, PoolHealth>
+    failing: BrowserHealth[]
+}
+
+/**
+ * Periodically probes every idle browser (devtools endpoint + CDP connect)
+ * and recycles the ones that fail `failureThreshold` probes in a row
+ */
+export default class HealthChecker {
+    private _config: HealthCheckConfig
+    private _browserManager: BrowserManager
+    private _logger: Logger
+    private _timer: NodeJS.Timeout | undefined
+    private _isRunning: boolean = false
+    private _lastRoundAt: number = -1
+    private _health: Record<string, BrowserHealth> = {}
+
+    constructor(config: HealthCheckConfig, browserManager: BrowserManager, logger: Logger) {
+        this._config = config
+        this._browserManager = browserManager
+        this._logger = logger
+    }
+
+    public start(): void {
+        if (this._timer) {
+            clearInterval(this._timer)
+        }
+
+        this._timer = setInterval(() => {
+            this.runChecks().catch((error) => {
+                this._logger.error({ error }, 'ERROR_RUNNING_HEALTH_CHECKS')
+            })
+        }, this._config.interval)
+    }
+
+    public stop(): void {
+        if (this._timer) {
+            clearInterval(this._timer)
+            this._timer = undefined
+        }
+    }
+
+    /**
+     * Probes every idle browser that is up once
+     * Leased browsers are not probed, their client is using the CDP connection
+     */
+    public async runChecks(): Promise<void> {
+        if (this._isRunning) {
+            return
+        }
+
+        this._isRunning = true
+        try {
+            const browsers = await this._browserManager.getBrowsers()
+            const candidates = browsers.filter((b) => this.isProbeable(b))
+
+            // Forget browsers that are gone or got leased
+            const names = new Set(candidates.map((b) => b.name))
+            for (const name in this._health) {
+                if (!names.has(name)) {
+                    delete this._health[name]
+                }
+            }
+
+            await Promise.all(candidates.map((b) => this.checkBrowser(b)))
+            this._lastRoundAt = Date.now()
+        } finally {
+            this._isRunning = false
+        }
+    }
+
+    private isProbeable(browser: Browser): boolean {
+        return browser.isUp && browser.leaseTime === -1 && !browser.isRemoving && !browser.isRetiring && !browser.isUnhealthy
+    }
+
+    private async checkBrowser(browser: Browser): Promise<void> {
+        let error: string | undefined
+        try {
+            await probeBrowser(browser.name, browser.ports, this._config.timeout)
+        } catch (err) {
+            // puppeteer rejects with the websocket's ErrorEvent when the connection fails
+            error = (err as { message?: string })?.message || "Unknown Error"
+        }
+
+        // The browser may have been leased or removed while probing
+        const current = await this._browserManager.getBrowser(browser.name)
+        if (!current || !this.isProbeable(current)) {
+            delete this._health[browser.name]
+            return
+        }
+
+        const health = this._health[browser.name] || {
+            browserName: browser.name,
+            pool: browser.pool,
+            failures: 0,
+            lastCheckedAt: -1
+        }
+        health.lastCheckedAt = Date.now()
+
+        if (!error) {
+            delete this._health[browser.name]
+            return
+        }
+
+        health.failures++
+        health.lastError = error
+        this._health[browser.name] = health
+        this._logger.warn({ browserName: browser.name, failures: health.failures, error }, 'HEALTH_CHECK_FAILED')
+
+        if (health.failures >= this._config.failureThreshold) {
+            delete this._health[browser.name]
+            await this._browserManager.recycleBrowser(browser.name, `failed ${health.failures} health checks: ${error}`, "unhealthy")
+        }
+    }
+
+    /**
+     * Health of every pool
+     * "unavailable" when no pool can serve a lease now or after scaling up,
+     * "degraded" when some browsers are unhealthy or failing probes
+     */
+    public getReport(): HealthReport {
+        const status = this._browserManager.getPoolStatus()
+        const pools: Record<string, PoolHealth> = {}
+        for (const [name, pool] of Object.entries(status.pools)) {
+            pools[name] = {
+                total: pool.total,
+                healthy: pool.idle,
+                unhealthy: pool.unhealthy,
+                starting: pool.starting,
+                leased: pool.leased,
+                canScale: pool.total < pool.maxBrowsers
+            }
+        }
+
+        const failing = Object.values(this._health)
+        const canServe = Object.values(pools).some((p) => p.healthy > 0 || p.canScale)
+        return {
+            status: !canServe ? "unavailable" : (status.unhealthy > 0 || failing.length > 0) ? "degraded" : "ok",
+            lastRoundAt: this._lastRoundAt,
+            pools,
+            failing
+        }
+    }
+}
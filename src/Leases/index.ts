@@ -0,0 +1,571 @@
+import { Request, Response } from "express"
+import axios, { isAxiosError } from "axios"
+import { RequestError, TContext } from "../utility/express"
+import { Browser, LeaseLifetimeError } from "../BrowserManager"
+import { isForwarded, relayToNode } from "../Cluster/relay"
+import { WaitCancelledError, WaitTimeoutError } from "../WaitQueue"
+import { QuotaExceededError, QuotaReservation } from "../Quotas"
+import { LeaseWebhookEvent } from "../Webhooks"
+import { canAccessClient } from "../Auth"
+import ProxyPool, { ProxyUnavailableError } from "../Proxies"
+import { getBrowserHost, probeBrowser } from "../utility/browser"
+import {
+    capacityRejectionsTotal, cdpConnectSeconds, clientLabel, launchFailuresTotal, launchSeconds, leasesTotal
+} from "../Metrics"
+
+/**
+ * Everything needed to lease and launch a browser (the fields shared by /getBrowser and /v2/leases)
+ */
+export type LeaseRequest = {
+    sessionID: string
+    // Minutes
+    leaseTime: number
+    clientID?: string
+    pool?: string
+    image?: string
+    waitTimeoutMs?: number
+    priority?: number
+    callbackURL?: string
+    webhookEvents?: LeaseWebhookEvent[]
+    expiryWarningSeconds?: number
+    fingerprintID?: string
+    driver?: string
+    reportKey?: string
+    sessionUUID?: string
+    // Assigns a proxy of the proxy pool (instead of launch.proxy)
+    proxyPool?: string
+    proxyTags?: Record<string, string>
+    launch: LaunchOptions
+}
+
+/**
+ * Settings sent to the browser node's /action/launch
+ */
+export type LaunchOptions = {
+    proxy?: {
+        url: string
+        username?: string
+        password?: string
+    }
+    vncMode?: "ro" | "rw"
+    isPasswordProtected?: boolean
+    vncVersion?: "legacy" | "new"
+    isDebug?: boolean
+    screen?: {
+        resolution: "1280x1024" | "1920x1080" | "1366x768" | "1536x864" | "1280x720" | "1440x900" | "1280x2400"
+        depth: string
+        dpi: string
+    }
+    numberOfCameras?: number
+    numberOfMicrophones?: number
+    numberOfSpeakers?: number
+    locale?: string
+    language?: string
+    timezone?: string
+    platform?: "win32" | "linux" | "darwin"
+    extensions?: string[]
+    overrideUserAgent?: string
+    recordData?: boolean
+}
+
+/**
+ * A freshly launched lease
+ */
+export type LeasedBrowser = {
+    browser: Browser
+    vncPassword: string
+}
+
+/**
+ * Thrown when no browser is free and the request does not wait (each API version picks its status code)
+ */
+export class OutOfCapacityError extends Error {
+    public readonly pool: string
+
+    constructor(pool: string) {
+        super("Browser out of capacity")
+        this.name = "OutOfCapacityError"
+        this.pool = pool
+    }
+}
+
+/**
+ * @dev toQuotaError maps a quota violation to the response (with a retry hint when waiting helps)
+ */
+export function toQuotaError(err: unknown): unknown {
+    if(!(err instanceof QuotaExceededError)) {
+        return err
+    }
+
+    return new RequestError(
+        err.retryAfterSeconds !== undefined ? "TOO_MANY_REQUESTS" : "BAD_REQUEST",
+        err.message,
+        {
+            clientID: err.clientID,
+            limit: err.limit,
+            max: err.max,
+            ...(err.retryAfterSeconds !== undefined ? { retryAfterSeconds: err.retryAfterSeconds } : {})
+        }
+    )
+}
+
+/**
+ * @dev toDrainError is the answer to a new lease while the manager drains
+ */
+function toDrainError(res: Response<any, TContext<any>>): RequestError {
+    const drain = res.locals.browserManager.getDrainStatus()
+    return new RequestError("SERVICE_UNAVAILABLE", "The manager is draining and takes no new leases", {
+        reason: drain.reason,
+        startedAt: drain.startedAt,
+        deadline: drain.deadline
+    })
+}
+
+/**
+ * @dev createLease reserves a browser (waiting for one if asked), launches it and checks it answers CDP
+ * When another cluster node has capacity, the request is relayed to `relayPath` on that node instead
+ * @returns undefined when the request was relayed (the response is already set)
+ * @throws OutOfCapacityError, or a RequestError for quota, wait, drain and launch failures
+ */
+export async function createLease(
+    req: Request<any, any, any, any, any>,
+    res: Response<any, TContext<any>>,
+    request: LeaseRequest,
+    relayPath: string
+): Promise<LeasedBrowser | undefined> {
+    const { sessionID, leaseTime, clientID, pool, image } = request
+    const browserManager = res.locals.browserManager
+
+    const poolName = browserManager.resolvePool({ pool, image })
+    if(!poolName) {
+        throw new RequestError("BAD_REQUEST", pool ? `Unknown pool ${pool}` : `No pool runs the image ${image}`)
+    }
+
+    // A draining node hands new leases to the rest of the cluster
+    if(browserManager.isDraining) {
+        const node = res.locals.cluster && !isForwarded(req, res) ?
+            await res.locals.cluster.findNodeWithCapacity(poolName) : undefined
+        if(!node) {
+            capacityRejectionsTotal.inc({ pool: poolName, client: clientLabel(clientID), reason: "draining" })
+            throw toDrainError(res)
+        }
+        await relayToNode(req, res, node, relayPath)
+        return undefined
+    }
+
+    // Fails before a browser is reserved when no proxy can be assigned
+    const assigned = assignProxy(res, request)
+
+    // Per-client limits, checked again by the node serving a relayed request (the slot here is released)
+    let reservation: QuotaReservation | undefined
+    if(res.locals.quotas) {
+        try {
+            reservation = await res.locals.quotas.acquire(clientID, leaseTime)
+        } catch (err) {
+            capacityRejectionsTotal.inc({ pool: poolName, client: clientLabel(clientID), reason: "quota" })
+            throw toQuotaError(err)
+        }
+    }
+
+    let browser: Browser | undefined
+    try {
+        browser = await reserveOrRelay(req, res, request, poolName, relayPath)
+        if(browser) {
+            await browserManager.setInternals(browser.name, {
+                sessionID: sessionID,
+                clientID: clientID || "",
+                webhook: request.callbackURL || "",
+                webhookEvents: request.webhookEvents,
+                expiryWarning: request.expiryWarningSeconds !== undefined ? request.expiryWarningSeconds * 1000 : undefined,
+                fingerprintID: request.fingerprintID || "",
+                driver: request.driver || "",
+                reportKey: request.reportKey || "",
+                sessionUUID: request.sessionUUID || "",
+                proxy: assigned?.proxy
+            })
+            // The browser now counts as a lease of the client
+            reservation?.commit()
+        }
+    } finally {
+        // No-op after commit; otherwise frees the slot (relayed, out of capacity, or the wait failed)
+        reservation?.release()
+    }
+
+    // Served by another node
+    if(!browser) {
+        return undefined
+    }
+
+    leasesTotal.inc({ pool: browser.pool, client: clientLabel(clientID) })
+
+    const vncPassword = await launchBrowser(res, browser, assigned ? {
+        ...request,
+        launch: { ...request.launch, proxy: assigned.credentials }
+    } : request)
+
+    await res.locals.cluster?.claim({ sessionID, browserID: browser.labels?.id, leaseID: browser.leaseID })
+    return { browser, vncPassword }
+}
+
+/**
+ * @dev reserveOrRelay reserves a browser of the pool, waiting for one if the request asks to
+ * When another cluster node has idle browsers, the request is relayed to `relayPath` on that node instead
+ * @returns undefined when the request was relayed (the response is already set)
+ * @throws OutOfCapacityError, or a RequestError when the wait fails
+ */
+async function reserveOrRelay(
+    req: Request<any, any, any, any, any>,
+    res: Response<any, TContext<any>>,
+    request: LeaseRequest,
+    poolName: string,
+    relayPath: string
+): Promise<Browser | undefined> {
+    const { leaseTime, clientID, waitTimeoutMs, priority } = request
+    const browserManager = res.locals.browserManager
+
+    let browser = await browserManager.reserveBrowser(leaseTime, poolName)
+    if(!browser) {
+        // Let a node with idle browsers serve the lease
+        const node = res.locals.cluster && !isForwarded(req, res) ?
+            await res.locals.cluster.findNodeWithCapacity(poolName) : undefined
+        if(node) {
+            await relayToNode(req, res, node, relayPath)
+            return undefined
+        }
+
+        if(!waitTimeoutMs) {
+            capacityRejectionsTotal.inc({ pool: poolName, client: clientLabel(clientID), reason: "out_of_capacity" })
+            throw new OutOfCapacityError(poolName)
+        }
+
+        // Wait for the next freed browser, give up if the client goes away
+        const abort = new AbortController()
+        const onClose = () => abort.abort()
+        res.on("close", onClose)
+        try {
+            browser = await browserManager.waitForBrowser(leaseTime, {
+                timeoutMs: waitTimeoutMs,
+                priority: priority,
+                signal: abort.signal
+            }, poolName)
+        } catch (err) {
+            if(err instanceof WaitTimeoutError) {
+                capacityRejectionsTotal.inc({ pool: poolName, client: clientLabel(clientID), reason: "wait_timeout" })
+                throw new RequestError("TIMEOUT", "No browser became available in time", { waitedMs: err.waitedMs })
+            }
+            if(err instanceof WaitCancelledError) {
+                // The queue is emptied when the drain starts
+                if(browserManager.isDraining) {
+                    throw toDrainError(res)
+                }
+                throw new RequestError("CONFLICT", err.message)
+            }
+            throw err
+        } finally {
+            res.off("close", onClose)
+        }
+    }
+
+    return browser
+}
+
+/**
+ * @dev assignProxy picks a proxy of the proxy pool when the request asks for a proxyPool or proxyTags
+ * @throws RequestError BAD_REQUEST when no configured proxy matches, SERVICE_UNAVAILABLE when none of the matching ones is healthy
+ */
+function assignProxy(res: Response<any, TContext<any>>, request: LeaseRequest): ReturnType<ProxyPool["assign"]> | undefined {
+    if(!request.proxyPool && !request.proxyTags) {
+        return undefined
+    }
+
+    const proxies = res.locals.browserManager.proxies
+    if(!proxies.enabled) {
+        throw new RequestError("BAD_REQUEST", "No proxy pool is configured")
+    }
+
+    try {
+        return proxies.assign({
+            pool: request.proxyPool,
+            tags: request.proxyTags,
+            clientID: request.clientID,
+            fingerprintID: request.fingerprintID
+        })
+    } catch (err) {
+        if(err instanceof ProxyUnavailableError) {
+            throw new RequestError(
+                err.reason === "unhealthy" ? "SERVICE_UNAVAILABLE" : "BAD_REQUEST",
+                err.message,
+                { proxyPool: err.pool, proxyTags: request.proxyTags }
+            )
+        }
+        throw err
+    }
+}
+
+/**
+ * @dev restoreProfile returns the sessionData saved by the last session with the request's fingerprintID
+ * A profile that cannot be read is logged, the browser is launched without it
+ */
+async function restoreProfile(res: Response<any, TContext<any>>, request: LeaseRequest): Promise<string | undefined> {
+    if(!request.fingerprintID) {
+        return undefined
+    }
+
+    try {
+        const snapshot = await res.locals.browserManager.profiles.restore(request.fingerprintID, request.clientID)
+        if(snapshot) {
+            res.log.info({ fingerprintID: request.fingerprintID, version: snapshot.version.version }, "PROFILE_RESTORED")
+        }
+        return snapshot?.sessionData
+    } catch (err) {
+        res.log.error({ fingerprintID: request.fingerprintID, error: err instanceof Error ? err.message : err }, "ERROR_RESTORING_PROFILE")
+        return undefined
+    }
+}
+
+/**
+ * @dev launchBrowser starts the browser on the leased node and waits until it answers CDP
+ * Kills the browser when it cannot be launched or connected to
+ * @returns the VNC password chosen by the node
+ */
+async function launchBrowser(res: Response<any, TContext<any>>, browser: Browser, request: LeaseRequest): Promise<string> {
+    const { sessionID, leaseTime, clientID } = request
+    const { screen, isDebug, recordData } = request.launch
+    const vncVersion = request.launch.vncVersion || "legacy"
+    const vncMode = request.launch.vncMode === "rw" ? "rw" : "ro"
+    const isPasswordProtected = request.launch.isPasswordProtected || false
+    const browserManager = res.locals.browserManager
+    const sessionData = await restoreProfile(res, request)
+
+    let created = false
+    const launchStart = Date.now()
+    let vncPassword = ""
+    for (let i = 0; i < parseInt(process.env.CREATE_BROWSER_MAX_TRIES || "15"); i++) {
+        try {
+            // Launch browser
+            const requestBody : Record<string, any> = {
+                leaseTime: leaseTime,
+                sessionID: sessionID, // Pass sessionID for recording
+                screen: {
+                    resolution: screen?.resolution || process.env.SCREEN_RESOLUTION || "1280x2400",
+                    depth: screen?.depth || process.env.SCREEN_DEPTH || "24",
+                    dpi: screen?.dpi || process.env.SCREEN_DPI || "96"
+                },
+                vnc: {
+                    mode : vncMode,
+                    isPasswordProtected : isPasswordProtected
+                },
+                numberOfCameras: request.launch.numberOfCameras,
+                numberOfMicrophones: request.launch.numberOfMicrophones,
+                numberOfSpeakers: request.launch.numberOfSpeakers,
+                locale: request.launch.locale,
+                language: request.launch.language,
+                timezone: request.launch.timezone,
+                platform: request.launch.platform,
+                extensions: request.launch.extensions,
+                overrideUserAgent: request.launch.overrideUserAgent,
+                vncVersion,
+                recordData,
+                sessionData
+            }
+            if(request.launch.proxy){
+                requestBody["proxy"] = {
+                    url      : request.launch.proxy.url,
+                    username : request.launch.proxy.username,
+                    password : request.launch.proxy.password
+                }
+            }
+
+            // Log the browser
+            const launchUrl = `http://${getBrowserHost(browser.name)}:${browser.ports.app}/action/launch`;
+            const launchResponse = await axios.post(
+                launchUrl,
+                requestBody,
+                {
+                    headers:{
+                        "Content-Type": "application/json"
+                    }
+                }
+            )
+
+            if(launchResponse.data) {
+                vncPassword = launchResponse.data.password
+            }
+
+            created = true
+            break
+        } catch (err) {
+            res.log.error(
+                {
+                    browserName: browser.name,
+                    error: err instanceof Error ? err.message : "Unknown Error",
+                    stack: err instanceof Error ? err.stack : "Unknown Stack",
+                    data: isAxiosError(err) && err.response ? err.response.data : {},
+                },
+                "ERROR_LAUNCHING_BROWSER",
+            )
+        }
+
+        // sleep
+        await new Promise(resolve => setTimeout(resolve, parseInt(process.env.CREATE_BROWSER_WAIT_TIME || "500")))
+    }
+
+    // make sure the command didn't fail, even after all these trials
+    if (!created) {
+        launchFailuresTotal.inc({ pool: browser.pool, client: clientLabel(clientID), stage: "launch" })
+        res.log.error(
+            { browserName: browser.name, proxyID: browser.proxy?.id },
+            "COULD_NOT_CREATE_BROWSER"
+        )
+
+        // The node may refuse a proxy it cannot reach
+        if(browser.proxy) {
+            browserManager.proxies.reportFailure(browser.proxy.id, "launch")
+        }
+
+        // try to kill the browser, even though it's not created from this
+        // call, since the reason might be that it's already running for
+        // any other unknown reason.
+        await browserManager.killBrowser(browser.name, 0, "launch_failed")
+        throw new RequestError("UNKNOWN_ERROR", "Couldn't create the browser container")
+    }
+
+    launchSeconds.observe({ pool: browser.pool }, (Date.now() - launchStart) / 1000)
+
+    // Now the container has been spawned
+    // Try connecting to the browser every second for 15 seconds
+    let connected = false
+    const connectStart = Date.now()
+    for (let i = 0; i < parseInt(process.env.TEST_BROWSER_MAX_TRIES || "15"); i++) {
+        try {
+            await probeBrowser(browser.name, browser.ports, 3000)
+            connected = true
+
+            res.log.info(
+                { browserName: browser.name },
+                "CONNECTED_TO_BROWSER"
+            )
+            break
+        } catch (err) {
+            res.log.error(
+                {
+                    browserName: browser.name,
+                    error: err instanceof Error ? err.message : "Unknown Error",
+                    attempt: i + 1
+                },
+                "COULD_NOT_CONNECT_TO_BROWSER"
+            )
+        }
+
+        await new Promise(resolve => setTimeout(resolve, parseInt(process.env.TEST_BROWSER_WAIT_TIME || "1000")))
+    }
+
+     // make sure the connection got established and didn't fail, even after all these trials
+    if (!connected) {
+        launchFailuresTotal.inc({ pool: browser.pool, client: clientLabel(clientID), stage: "connect" })
+        // kill the browser that was created here, to allow using it again
+        await browserManager.killBrowser(browser.name, 0, "launch_failed")
+        throw new RequestError("UNKNOWN_ERROR", "Couldn't test the connection of the browser")
+    }
+
+    cdpConnectSeconds.observe({ pool: browser.pool }, (Date.now() - connectStart) / 1000)
+    if(browser.proxy) {
+        browserManager.proxies.reportSuccess(browser.proxy.id, "launch")
+    }
+
+    await browserManager.setVncPassword(browser.name, vncPassword)
+    await browserManager.setVncVersion(browser.name, vncVersion)
+    await browserManager.setVncMode(browser.name, vncMode)
+    if(isDebug){
+        await browserManager.setDebug(browser.name, isDebug)
+    }
+
+    if(screen){
+        await browserManager.setViewport(browser.name, {
+            width: parseInt(screen.resolution.split("x")[0]),
+            height: parseInt(screen.resolution.split("x")[1])
+        })
+    } else {
+        await browserManager.setDefaultViewport(browser.name)
+    }
+
+    return vncPassword
+}
+
+/**
+ * @dev findLease returns the leased browser, or relays the request to the node that owns the lease
+ * @returns undefined when the request was relayed (the response is already set)
+ * @throws RequestError GONE for a lease that ended, NOT_FOUND for an unknown one
+ */
+export async function findLease(
+    req: Request<any, any, any, any, any>,
+    res: Response<any, TContext<any>>,
+    leaseID: string,
+    relayPath: string
+): Promise<Browser | undefined> {
+    const browser = await res.locals.browserManager.getBrowserWithLeaseId(leaseID)
+
+    // In cluster mode the lease may belong to another node
+    if(!browser && res.locals.cluster && !isForwarded(req, res)) {
+        const owner = await res.locals.cluster.findOwner({ leaseID })
+        if(owner) {
+            await relayToNode(req, res, owner, relayPath)
+            return undefined
+        }
+    }
+
+    if(!browser) {
+        const ended = res.locals.browserManager.getEndedLease(leaseID)
+        if(ended) {
+            throw new RequestError("GONE", `Lease ${ended.reason === "expired" ? "expired" : "ended"}`, {
+                leaseID,
+                endedAt: ended.endedAt,
+                reason: ended.reason
+            })
+        }
+        throw new RequestError("NOT_FOUND", "Lease not found")
+    }
+
+    // Keys bound to a client may only touch that client's leases
+    if(!canAccessClient(res.locals.principal, browser.clientID)) {
+        throw new RequestError("FORBIDDEN", "Lease belongs to another client")
+    }
+
+    return browser
+}
+
+/**
+ * @dev renewLease pushes the deadline of a lease `leaseTime` minutes from now
+ * @returns the new deadline (ms since epoch)
+ */
+export async function renewLease(res: Response<any, TContext<any>>, browser: Browser, leaseTime: number): Promise<number> {
+    try {
+        return await res.locals.browserManager.extendLease(browser.name, leaseTime)
+    } catch (err) {
+        if(err instanceof LeaseLifetimeError) {
+            throw new RequestError("CONFLICT", err.message, { maxExpiresAt: err.maxExpiresAt })
+        }
+
+        res.log.error(
+            {
+                browserName: browser.name,
+                error: err instanceof Error ? err.message : "Unknown Error",
+                stack: err instanceof Error ? err.stack : "Unknown Stack",
+                data: isAxiosError(err) && err.response ? err.response.data : {},
+            },
+            "ERROR_EXTENDING_LEASE_TIME",
+        )
+
+        throw new RequestError("UNKNOWN_ERROR", "Couldn't extend the lease time of the browser")
+    }
+}
+
+/**
+ * @dev endLease frees a leased browser and releases its cluster ownership
+ */
+export async function endLease(res: Response<any, TContext<any>>, browser: Browser): Promise<void> {
+    const { sessionID, leaseID } = browser
+    const browserID = browser.labels?.id
+    await res.locals.browserManager.killBrowser(browser.name, 0)
+    await res.locals.cluster?.release({ sessionID, browserID, leaseID })
+}
@@ -0,0 +1,160 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client"
+import BrowserManager from "../BrowserManager"
+import { ANONYMOUS_CLIENT } from "../Quotas"
+
+/**
+ * Registry served on /metrics
+ */
+export const registry = new Registry()
+
+collectDefaultMetrics({ register: registry, prefix: "cmgr_process_" })
+
+// Seconds, from a warm container start to a cold image boot
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60]
+
+export const containerCreateSeconds = new Histogram({
+    name: "cmgr_container_create_seconds",
+    help: "Time to create and start a browser container",
+    labelNames: ["pool"],
+    buckets: DURATION_BUCKETS,
+    registers: [registry]
+})
+
+export const launchSeconds = new Histogram({
+    name: "cmgr_browser_launch_seconds",
+    help: "Time for the browser node to answer /action/launch",
+    labelNames: ["pool"],
+    buckets: DURATION_BUCKETS,
+    registers: [registry]
+})
+
+export const cdpConnectSeconds = new Histogram({
+    name: "cmgr_cdp_connect_seconds",
+    help: "Time until a freshly launched browser accepts a CDP connection",
+    labelNames: ["pool"],
+    buckets: DURATION_BUCKETS,
+    registers: [registry]
+})
+
+export const leasesTotal = new Counter({
+    name: "cmgr_leases_total",
+    help: "Browsers leased",
+    labelNames: ["pool", "client"],
+    registers: [registry]
+})
+
+export const launchFailuresTotal = new Counter({
+    name: "cmgr_launch_failures_total",
+    help: "Leases that failed because the browser could not be launched or connected to",
+    labelNames: ["pool", "client", "stage"],
+    registers: [registry]
+})
+
+export const leaseExpirationsTotal = new Counter({
+    name: "cmgr_lease_expirations_total",
+    help: "Leases ended by their deadline (not freed by the client)",
+    labelNames: ["pool", "client"],
+    registers: [registry]
+})
+
+export const capacityRejectionsTotal = new Counter({
+    name: "cmgr_capacity_rejections_total",
+    help: "Lease requests rejected for lack of capacity (out_of_capacity, wait_timeout, quota, draining)",
+    labelNames: ["pool", "client", "reason"],
+    registers: [registry]
+})
+
+export const socketDisconnectsTotal = new Counter({
+    name: "cmgr_socket_disconnects_total",
+    help: "Socket.io disconnects of browser nodes",
+    labelNames: ["pool"],
+    registers: [registry]
+})
+
+export const webhookDeliveriesTotal = new Counter({
+    name: "cmgr_webhook_deliveries_total",
+    help: "Webhook attempts by outcome (delivered, retry, dead)",
+    labelNames: ["event", "result"],
+    registers: [registry]
+})
+
+export const proxyAssignmentsTotal = new Counter({
+    name: "cmgr_proxy_assignments_total",
+    help: "Proxies of the proxy pool assigned to leases",
+    labelNames: ["pool"],
+    registers: [registry]
+})
+
+export const proxyFailuresTotal = new Counter({
+    name: "cmgr_proxy_failures_total",
+    help: "Proxy failures by reason (unreachable, launch)",
+    labelNames: ["pool", "reason"],
+    registers: [registry]
+})
+
+/**
+ * Client label value (requests without a clientID are grouped)
+ */
+export function clientLabel(clientID?: string): string {
+    return clientID || ANONYMOUS_CLIENT
+}
+
+/**
+ * Registers the gauges read from the pool on every scrape
+ */
+export function registerPoolMetrics(browserManager: BrowserManager): void {
+    if (registry.getSingleMetric("cmgr_pool_browsers")) {
+        return
+    }
+
+    new Gauge({
+        name: "cmgr_pool_browsers",
+        help: "Browsers per pool and state (total, idle, starting, leased, unhealthy)",
+        labelNames: ["pool", "state"],
+        registers: [registry],
+        collect() {
+            this.reset()
+            const status = browserManager.getPoolStatus()
+            for (const [pool, capacity] of Object.entries(status.pools)) {
+                for (const state of ["total", "idle", "starting", "leased", "unhealthy"] as const) {
+                    this.set({ pool, state }, capacity[state])
+                }
+            }
+        }
+    })
+
+    new Gauge({
+        name: "cmgr_pool_max_browsers",
+        help: "Maximum size of each pool",
+        labelNames: ["pool"],
+        registers: [registry],
+        collect() {
+            this.reset()
+            for (const [pool, capacity] of Object.entries(browserManager.getPoolStatus().pools)) {
+                this.set({ pool }, capacity.maxBrowsers)
+            }
+        }
+    })
+
+    new Gauge({
+        name: "cmgr_draining",
+        help: "1 while the manager drains (no new leases), 0 otherwise",
+        registers: [registry],
+        collect() {
+            this.set(browserManager.isDraining ? 1 : 0)
+        }
+    })
+
+    new Gauge({
+        name: "cmgr_wait_queue_depth",
+        help: "Lease requests waiting for a browser",
+        labelNames: ["pool"],
+        registers: [registry],
+        collect() {
+            this.reset()
+            for (const [pool, capacity] of Object.entries(browserManager.getPoolStatus().pools)) {
+                this.set({ pool }, capacity.queue.depth)
+            }
+        }
+    })
+}
@@ -0,0 +1,105 @@
+/**
+ * Self-contained docs page served on /docs, it renders /openapi.json without any external asset
+ */
+export const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>CMGR API</title>
+<style>
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+    header { background: #24292f; color: #fff; padding: 16px 32px; }
+    header h1 { margin: 0; font-size: 20px; }
+    header a { color: #9ecbff; font-size: 13px; }
+    main { max-width: 1100px; margin: 0 auto; padding: 16px 32px 64px; }
+    h2 { text-transform: capitalize; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+    details { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; }
+    summary { cursor: pointer; padding: 8px 12px; font-family: monospace; font-size: 14px; }
+    summary .desc { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #57606a; margin-left: 8px; }
+    .method { display: inline-block; min-width: 56px; font-weight: bold; text-transform: uppercase; }
+    .get { color: #0969da; } .post { color: #1a7f37; } .put { color: #9a6700; } .delete { color: #cf222e; }
+    .scope { float: right; font-size: 12px; color: #57606a; }
+    .body { padding: 0 12px 12px; }
+    h4 { margin: 12px 0 4px; }
+    pre { background: #f6f8fa; border-radius: 6px; padding: 8px; overflow-x: auto; font-size: 12px; }
+    table { border-collapse: collapse; font-size: 13px; }
+    td, th { border: 1px solid #d0d7de; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<header>
+    <h1 id="title">CMGR API</h1>
+    <a href="openapi.json">openapi.json</a>
+</header>
+<main id="content">Loading...</main>
+<script>
+    function el(tag, attrs, children) {
+        var node = document.createElement(tag)
+        Object.keys(attrs || {}).forEach(function (k) { node.setAttribute(k, attrs[k]) })
+        ;(children || []).forEach(function (c) { node.appendChild(typeof c === "string" ? document.createTextNode(c) : c) })
+        return node
+    }
+
+    function schemaBlock(title, schema) {
+        return [el("h4", {}, [title]), el("pre", {}, [JSON.stringify(schema, null, 2)])]
+    }
+
+    function operationNode(path, method, op) {
+        var body = el("div", { class: "body" })
+        if (op.parameters && op.parameters.length > 0) {
+            var rows = op.parameters.map(function (p) {
+                return el("tr", {}, [
+                    el("td", {}, [p.name]), el("td", {}, [p.in]), el("td", {}, [p.required ? "yes" : "no"]),
+                    el("td", {}, [JSON.stringify(p.schema)])
+                ])
+            })
+            body.appendChild(el("h4", {}, ["Parameters"]))
+            body.appendChild(el("table", {}, [el("tr", {}, [el("th", {}, ["Name"]), el("th", {}, ["In"]), el("th", {}, ["Required"]), el("th", {}, ["Schema"])])].concat(rows)))
+        }
+        if (op.requestBody) {
+            schemaBlock("Request body", op.requestBody.content["application/json"].schema).forEach(function (n) { body.appendChild(n) })
+        }
+        Object.keys(op.responses).forEach(function (status) {
+            var content = op.responses[status].content || {}
+            Object.keys(content).forEach(function (type) {
+                var schema = content[type].schema
+                if (schema.$ref) {
+                    schema = window.__spec.components.schemas[schema.$ref.split("/").pop()]
+                }
+                schemaBlock("Response " + status + " (" + type + ")", schema).forEach(function (n) { body.appendChild(n) })
+            })
+        })
+
+        var summary = el("summary", {}, [
+            el("span", { class: "method " + method }, [method]), path,
+            el("span", { class: "desc" }, [op.summary || ""]),
+            el("span", { class: "scope" }, [op["x-required-scope"] ? "scope: " + op["x-required-scope"] : "open"])
+        ])
+        return el("details", {}, [summary, body])
+    }
+
+    fetch("openapi.json").then(function (r) { return r.json() }).then(function (spec) {
+        window.__spec = spec
+        document.getElementById("title").textContent = spec.info.title + " " + spec.info.version
+        var groups = {}
+        Object.keys(spec.paths).forEach(function (path) {
+            Object.keys(spec.paths[path]).forEach(function (method) {
+                var op = spec.paths[path][method]
+                var tag = (op.tags && op.tags[0]) || "default"
+                ;(groups[tag] = groups[tag] || []).push(operationNode(path, method, op))
+            })
+        })
+        var content = document.getElementById("content")
+        content.textContent = ""
+        Object.keys(groups).forEach(function (tag) {
+            content.appendChild(el("h2", {}, [tag]))
+            groups[tag].forEach(function (n) { content.appendChild(n) })
+        })
+    }).catch(function (err) {
+        document.getElementById("content").textContent = "Could not load openapi.json: " + err
+    })
+</script>
+</body>
+</html>
+`
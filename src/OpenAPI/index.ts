@@ -0,0 +1,248 @@
+import { Router } from "express"
+import { z } from "zod"
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { DocumentedEndpoint } from "../utility/express"
+import { Scope } from "../Auth"
+
+export { DOCS_PAGE } from "./docs"
+
+type JsonSchema = Record<string, unknown>
+
+export type HttpMethod = "get" | "post" | "put" | "delete"
+
+/**
+ * An endpoint mounted on a route
+ */
+export type RegisteredRoute = {
+    method: HttpMethod
+    // Express path ("/v2/leases/:id")
+    path: string
+    endpoint: DocumentedEndpoint
+    scope?: Scope
+}
+
+export type ApiInfo = {
+    title: string
+    version: string
+    description?: string
+}
+
+// The parts of an express router layer the registry reads
+type RouterLayer = {
+    route?: {
+        path: string
+        methods: Record<string, boolean>
+        stack: { handle: { endpoint?: DocumentedEndpoint, scope?: Scope } }[]
+    }
+}
+
+const ErrorSchema: JsonSchema = {
+    type: "object",
+    properties: {
+        success: { type: "boolean", enum: [false] },
+        error: {
+            type: "object",
+            properties: {
+                message: { type: "string" },
+                code: {
+                    type: "string",
+                    enum: [
+                        "UNKNOWN_ERROR", "NOT_FOUND", "BAD_REQUEST", "UNAUTHORIZED", "FORBIDDEN", "CONFLICT", "GONE",
+                        "TOO_MANY_REQUESTS", "TIMEOUT", "SERVICE_UNAVAILABLE", "INTERNAL_SERVER_ERROR"
+                    ]
+                },
+                details: {}
+            },
+            required: ["message", "code"]
+        }
+    },
+    required: ["success", "error"]
+}
+
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+    // Unknown keys are stripped rather than rejected, so objects stay open
+    return zodToJsonSchema(schema, {
+        target: "openApi3",
+        $refStrategy: "none",
+        removeAdditionalStrategy: "strict"
+    }) as JsonSchema
+}
+
+function isEmptyObject(schema?: z.ZodType): boolean {
+    return !schema || (schema instanceof z.ZodObject && Object.keys(schema.shape).length === 0)
+}
+
+/**
+ * "/v2/leases/:id" -> "/v2/leases/{id}"
+ */
+function toOpenApiPath(path: string): string {
+    return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}")
+}
+
+function toParameters(schema: z.ZodType | undefined, location: "path" | "query"): JsonSchema[] {
+    if (!schema || !(schema instanceof z.ZodObject)) {
+        return []
+    }
+
+    return Object.entries(schema.shape as z.ZodRawShape).map(([name, field]) => ({
+        name,
+        in: location,
+        required: location === "path" || !field.isOptional(),
+        schema: toJsonSchema(field)
+    }))
+}
+
+/**
+ * Success responses are wrapped in `{ success: true, ...data }`
+ */
+function toSuccessSchema(schema?: z.ZodType): JsonSchema {
+    const data = schema ? toJsonSchema(schema) : {}
+    const properties = (data.properties || {}) as Record<string, unknown>
+    const required = (data.required || []) as string[]
+    return {
+        ...data,
+        type: "object",
+        properties: { success: { type: "boolean", enum: [true] }, ...properties },
+        required: ["success", ...required]
+    }
+}
+
+/**
+ * Collects the endpoints mounted on the routers and generates an OpenAPI 3 document from their zod schemas
+ */
+export default class ApiRegistry {
+    private _routes: RegisteredRoute[] = []
+    private _document: JsonSchema | undefined
+
+    public register(route: RegisteredRoute): void {
+        // Routers are collected again when the server restarts
+        this._routes = this._routes.filter((r) => r.method !== route.method || r.path !== route.path)
+        this._routes.push(route)
+        this._document = undefined
+    }
+
+    /**
+     * Registers every endpoint of an express router, mounted on `prefix`
+     */
+    public collect(prefix: string, router: Router): void {
+        for (const layer of router.stack as RouterLayer[]) {
+            if (!layer.route) {
+                continue
+            }
+
+            const handles = layer.route.stack.map((l) => l.handle)
+            const endpoint = handles.find((h) => h.endpoint)?.endpoint
+            if (!endpoint) {
+                continue
+            }
+
+            const scope = handles.find((h) => h.scope)?.scope
+            for (const method of Object.keys(layer.route.methods)) {
+                this.register({
+                    method: method as HttpMethod,
+                    path: `${prefix}${layer.route.path}` || "/",
+                    endpoint,
+                    scope
+                })
+            }
+        }
+    }
+
+    public get routes(): RegisteredRoute[] {
+        return [...this._routes]
+    }
+
+    /**
+     * The OpenAPI 3 document of the registered routes (built once, until the next registration)
+     */
+    public generate(info: ApiInfo): JsonSchema {
+        if (this._document) {
+            return this._document
+        }
+
+        const paths: Record<string, Record<string, unknown>> = {}
+        const operationIDs = new Set<string>()
+        for (const route of this._routes) {
+            const path = toOpenApiPath(route.path)
+            const operation = this.toOperation(route)
+
+            // An endpoint mounted on several routes gets one operation per route
+            let operationID = `${route.endpoint.group}.${route.endpoint.name}`
+            for (let i = 2; operationIDs.has(operationID); i++) {
+                operationID = `${route.endpoint.group}.${route.endpoint.name}${i}`
+            }
+            operationIDs.add(operationID)
+            operation.operationId = operationID
+
+            paths[path] = paths[path] || {}
+            paths[path][route.method] = operation
+        }
+
+        this._document = {
+            openapi: "3.0.3",
+            info,
+            tags: [...new Set(this._routes.map((r) => r.endpoint.group))].map((name) => ({ name })),
+            paths,
+            components: {
+                schemas: {
+                    Error: ErrorSchema
+                },
+                securitySchemes: {
+                    ApiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+                    Bearer: { type: "http", scheme: "bearer" }
+                }
+            }
+        }
+        return this._document
+    }
+
+    private toOperation(route: RegisteredRoute): JsonSchema {
+        const { endpoint, scope } = route
+        const schemas = endpoint.schemas
+        const status = String(schemas.status || 200)
+
+        const success = schemas.contentType ? {
+            description: endpoint.description,
+            content: { [schemas.contentType]: { schema: { type: "string" } } }
+        } : {
+            description: endpoint.description,
+            content: { "application/json": { schema: toSuccessSchema(schemas.response) } }
+        }
+
+        const operation: JsonSchema = {
+            summary: endpoint.description,
+            tags: [endpoint.group],
+            parameters: [
+                ...toParameters(schemas.params, "path"),
+                ...toParameters(schemas.query, "query")
+            ],
+            responses: {
+                [status]: success,
+                default: {
+                    description: "Error",
+                    content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } }
+                }
+            }
+        }
+
+        if (route.method !== "get" && !isEmptyObject(schemas.body)) {
+            operation.requestBody = {
+                required: true,
+                content: { "application/json": { schema: toJsonSchema(schemas.body as z.ZodType) } }
+            }
+        }
+
+        // Only enforced when AUTH_CONFIG_PATH is set
+        if (scope) {
+            operation.security = [{ ApiKey: [] }, { Bearer: [] }]
+            operation["x-required-scope"] = scope
+        }
+
+        return operation
+    }
+}
+
+/**
+ * Registry served on /openapi.json
+ */
+export const apiRegistry = new ApiRegistry()
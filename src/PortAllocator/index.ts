@@ -0,0 +1,184 @@
+import net from 'net'
+
+/**
+ * The host ports every browser container publishes
+ */
+export type PortKind = "browser" | "app" | "vnc"
+
+/**
+ * Inclusive range of host ports
+ */
+export type PortRange = {
+    start: number
+    end: number
+}
+
+/**
+ * Host ports assigned to one container
+ */
+export type PortSet = Record<PortKind, number>
+
+const PORT_KINDS: PortKind[] = ["browser", "app", "vnc"]
+
+/**
+ * Thrown when a range has no free (or bindable) port left
+ */
+export class PortAllocationError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PortAllocationError'
+    }
+}
+
+/**
+ * Hands out host ports from configurable ranges
+ * Every port is checked to be bindable before it is handed out, so ports held
+ * by other processes are skipped instead of making `docker run` fail
+ */
+export default class PortAllocator {
+    private _ranges: Record<PortKind, PortRange>
+    private _host: string
+    private _checkBindable: boolean
+    private _owners: Map<number, string> = new Map()
+    private _assignments: Map<string, PortSet> = new Map()
+
+    constructor(ranges: Record<PortKind, PortRange>, host: string = "0.0.0.0", checkBindable: boolean = true) {
+        for (const kind of PORT_KINDS) {
+            const range = ranges[kind]
+            if (range.start > range.end) {
+                throw new PortAllocationError(`Invalid ${kind} port range ${range.start}-${range.end}`)
+            }
+        }
+
+        this._ranges = ranges
+        this._host = host
+        this._checkBindable = checkBindable
+    }
+
+    /**
+     * Parses a "start-end" range string (a single port is a range of one)
+     */
+    public static parseRange(value: string): PortRange {
+        const [start, end] = value.split("-").map((p) => parseInt(p.trim()))
+        if (isNaN(start) || (end !== undefined && isNaN(end))) {
+            throw new PortAllocationError(`Invalid port range "${value}"`)
+        }
+
+        return { start, end: end === undefined ? start : end }
+    }
+
+    /**
+     * Checks whether a port can currently be bound on the given host
+     */
+    public static isBindable(port: number, host: string = "0.0.0.0"): Promise<boolean> {
+        return new Promise((resolve) => {
+            const server = net.createServer()
+            server.unref()
+            server.once('error', () => resolve(false))
+            server.listen({ port, host, exclusive: true }, () => {
+                server.close(() => resolve(true))
+            })
+        })
+    }
+
+    public get ranges(): Record<PortKind, PortRange> {
+        return this._ranges
+    }
+
+    /**
+     * Returns the ports currently assigned to an owner
+     */
+    public getPorts(owner: string): PortSet | undefined {
+        return this._assignments.get(owner)
+    }
+
+    /**
+     * Allocates one free port of every kind for the owner
+     * Ports already assigned to the owner are kept when they are still bindable
+     */
+    public async allocate(owner: string): Promise<PortSet> {
+        const current = this._assignments.get(owner)
+        const ports: Partial<PortSet> = {}
+
+        try {
+            for (const kind of PORT_KINDS) {
+                if (current && await this.isAvailable(current[kind])) {
+                    ports[kind] = current[kind]
+                    continue
+                }
+
+                if (current) {
+                    this._owners.delete(current[kind])
+                }
+
+                ports[kind] = await this.allocatePort(kind, owner)
+            }
+        } catch (error) {
+            // Give back whatever was taken during this call
+            for (const kind of PORT_KINDS) {
+                const port = ports[kind]
+                if (port !== undefined && (!current || current[kind] !== port)) {
+                    this._owners.delete(port)
+                }
+            }
+            throw error
+        }
+
+        this._assignments.set(owner, ports as PortSet)
+        return ports as PortSet
+    }
+
+    /**
+     * Records ports that are already in use by the owner (e.g. an adopted container)
+     */
+    public reserve(owner: string, ports: PortSet): void {
+        this.release(owner)
+        for (const kind of PORT_KINDS) {
+            this._owners.set(ports[kind], owner)
+        }
+        this._assignments.set(owner, { ...ports })
+    }
+
+    /**
+     * Returns all the owner's ports to the pool
+     */
+    public release(owner: string): void {
+        const ports = this._assignments.get(owner)
+        if (!ports) {
+            return
+        }
+
+        for (const kind of PORT_KINDS) {
+            if (this._owners.get(ports[kind]) === owner) {
+                this._owners.delete(ports[kind])
+            }
+        }
+        this._assignments.delete(owner)
+    }
+
+    private async isAvailable(port: number): Promise<boolean> {
+        if (!this._checkBindable) {
+            return true
+        }
+
+        return PortAllocator.isBindable(port, this._host)
+    }
+
+    private async allocatePort(kind: PortKind, owner: string): Promise<number> {
+        const range = this._ranges[kind]
+        for (let port = range.start; port <= range.end; port++) {
+            if (this._owners.has(port)) {
+                continue
+            }
+
+            // Claim it before the (async) bind check so concurrent calls can't pick it too
+            this._owners.set(port, owner)
+            if (await this.isAvailable(port)) {
+                return port
+            }
+            this._owners.delete(port)
+        }
+
+        throw new PortAllocationError(`No free ${kind} port in range ${range.start}-${range.end}`)
+    }
+}
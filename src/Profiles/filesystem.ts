@@ -0,0 +1,106 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises"
+import path from "path"
+import { Profile, ProfileBackend } from "./types"
+
+// Metadata of a profile, next to one data file per version (<version>.data)
+const PROFILE_FILE = "profile.json"
+
+/**
+ * Directory name of a fingerprintID (they are free-form)
+ */
+function toSegment(value: string): string {
+    return encodeURIComponent(value).replace(/\./g, "%2E")
+}
+
+function isNotFound(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === "ENOENT"
+}
+
+/**
+ * Keeps the profiles in a local directory: <dir>/<fingerprintID>/profile.json and <version>.data
+ */
+export default class FilesystemProfileBackend implements ProfileBackend {
+    public readonly name: string = "filesystem"
+    public readonly isPersistent: boolean = true
+    private _dir: string
+
+    constructor(dir: string) {
+        this._dir = dir
+    }
+
+    public async saveProfile(profile: Profile): Promise<void> {
+        const directory = this.getDirectory(profile.fingerprintID)
+        await mkdir(directory, { recursive: true })
+        // Replaced in one step, readers never see half a file
+        const target = path.join(directory, PROFILE_FILE)
+        await writeFile(`${target}.tmp`, JSON.stringify(profile))
+        await rename(`${target}.tmp`, target)
+    }
+
+    public async getProfile(fingerprintID: string): Promise<Profile | undefined> {
+        return this.readProfile(this.getDirectory(fingerprintID))
+    }
+
+    public async deleteProfile(fingerprintID: string): Promise<void> {
+        await rm(this.getDirectory(fingerprintID), { recursive: true, force: true })
+    }
+
+    public async listProfiles(): Promise<Profile[]> {
+        let directories: string[]
+        try {
+            directories = await readdir(this._dir)
+        } catch (error) {
+            if (isNotFound(error)) {
+                return []
+            }
+            throw error
+        }
+
+        const profiles: Profile[] = []
+        for (const directory of directories) {
+            const profile = await this.readProfile(path.join(this._dir, directory))
+            if (profile) {
+                profiles.push(profile)
+            }
+        }
+        return profiles
+    }
+
+    public async writeData(fingerprintID: string, version: number, sessionData: string): Promise<void> {
+        const directory = this.getDirectory(fingerprintID)
+        await mkdir(directory, { recursive: true })
+        await writeFile(path.join(directory, `${version}.data`), sessionData)
+    }
+
+    public async readData(fingerprintID: string, version: number): Promise<string | undefined> {
+        try {
+            return await readFile(path.join(this.getDirectory(fingerprintID), `${version}.data`), "utf-8")
+        } catch (error) {
+            if (isNotFound(error)) {
+                return undefined
+            }
+            throw error
+        }
+    }
+
+    public async deleteData(fingerprintID: string, version: number): Promise<void> {
+        await rm(path.join(this.getDirectory(fingerprintID), `${version}.data`), { force: true })
+    }
+
+    public async close(): Promise<void> {}
+
+    private getDirectory(fingerprintID: string): string {
+        return path.join(this._dir, toSegment(fingerprintID))
+    }
+
+    private async readProfile(directory: string): Promise<Profile | undefined> {
+        try {
+            return JSON.parse(await readFile(path.join(directory, PROFILE_FILE), "utf-8")) as Profile
+        } catch (error) {
+            if (isNotFound(error)) {
+                return undefined
+            }
+            throw error
+        }
+    }
+}
@@ -0,0 +1,214 @@
+import { Logger } from "pino"
+import FilesystemProfileBackend from "./filesystem"
+import MemoryProfileBackend from "./memory"
+import { Profile, ProfileBackend, ProfileBackendKind, ProfileVersion } from "./types"
+
+export * from "./types"
+export { FilesystemProfileBackend, MemoryProfileBackend }
+
+export type ProfileStoreConfig = {
+    backend: ProfileBackendKind
+    // Directory of the filesystem backend
+    dir: string
+    // Versions kept per profile, the oldest are deleted first
+    maxVersions: number
+}
+
+/**
+ * Where a new version comes from
+ */
+export type ProfileSaveOptions = {
+    clientID?: string
+    source: ProfileVersion["source"]
+    sessionID?: string
+    leaseID?: string
+}
+
+export type ProfileFilter = {
+    clientID?: string
+}
+
+/**
+ * A version with its sessionData
+ */
+export type ProfileSnapshot = {
+    profile: Profile
+    version: ProfileVersion
+    sessionData: string
+}
+
+/**
+ * Thrown when a profile is written for another client than the one it belongs to
+ */
+export class ProfileOwnershipError extends Error {
+    constructor(fingerprintID: string) {
+        super(`Profile ${fingerprintID} belongs to another client`)
+        this.name = "ProfileOwnershipError"
+    }
+}
+
+export function createProfileBackend(kind: ProfileBackendKind, dir: string): ProfileBackend {
+    switch (kind) {
+        case "filesystem":
+            return new FilesystemProfileBackend(dir)
+        case "memory":
+            return new MemoryProfileBackend()
+        default:
+            throw new Error(`Unknown profile store "${kind}"`)
+    }
+}
+
+/**
+ * Versioned sessionData per fingerprintID
+ * Saved when a session with a fingerprintID ends, injected into the launch of the next lease with that fingerprintID
+ */
+export default class ProfileStore {
+    private _config: ProfileStoreConfig
+    private _backend: ProfileBackend
+    private _logger: Logger
+    // Writes of a profile run one after the other, so version numbers never collide
+    private _locks: Map<string, Promise<unknown>> = new Map()
+
+    constructor(config: ProfileStoreConfig, logger: Logger, backend?: ProfileBackend) {
+        this._config = config
+        this._logger = logger
+        this._backend = backend || createProfileBackend(config.backend, config.dir)
+    }
+
+    /**
+     * Saves sessionData as the new latest version of the profile
+     * @throws ProfileOwnershipError when the profile belongs to another client
+     */
+    public async save(fingerprintID: string, sessionData: string, options: ProfileSaveOptions): Promise<Profile> {
+        return this.withLock(fingerprintID, async () => {
+            const now = Date.now()
+            const existing = await this._backend.getProfile(fingerprintID)
+            if (existing?.clientID && existing.clientID !== options.clientID) {
+                throw new ProfileOwnershipError(fingerprintID)
+            }
+
+            const profile: Profile = existing || {
+                fingerprintID,
+                clientID: options.clientID,
+                createdAt: now,
+                updatedAt: now,
+                latestVersion: 0,
+                versions: []
+            }
+
+            const version: ProfileVersion = {
+                version: profile.latestVersion + 1,
+                createdAt: now,
+                size: Buffer.byteLength(sessionData),
+                source: options.source,
+                sessionID: options.sessionID,
+                leaseID: options.leaseID
+            }
+            await this._backend.writeData(fingerprintID, version.version, sessionData)
+
+            profile.latestVersion = version.version
+            profile.updatedAt = now
+            profile.versions.push(version)
+            const pruned = profile.versions.splice(0, Math.max(0, profile.versions.length - this._config.maxVersions))
+            await this._backend.saveProfile(profile)
+
+            for (const old of pruned) {
+                await this._backend.deleteData(fingerprintID, old.version)
+            }
+
+            this._logger.info({ fingerprintID, version: version.version, size: version.size, source: options.source }, 'PROFILE_SAVED')
+            return profile
+        })
+    }
+
+    public async get(fingerprintID: string): Promise<Profile | undefined> {
+        return this._backend.getProfile(fingerprintID)
+    }
+
+    public async list(filter: ProfileFilter = {}): Promise<Profile[]> {
+        return (await this._backend.listProfiles())
+            .filter((p) => !filter.clientID || p.clientID === filter.clientID)
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+    }
+
+    /**
+     * A version of the profile with its sessionData, the latest when `version` is omitted
+     */
+    public async read(fingerprintID: string, version?: number): Promise<ProfileSnapshot | undefined> {
+        const profile = await this._backend.getProfile(fingerprintID)
+        const entry = version === undefined ?
+            profile?.versions[profile.versions.length - 1] :
+            profile?.versions.find((v) => v.version === version)
+        if (!profile || !entry) {
+            return undefined
+        }
+
+        const sessionData = await this._backend.readData(fingerprintID, entry.version)
+        return sessionData === undefined ? undefined : { profile, version: entry, sessionData }
+    }
+
+    /**
+     * The latest version for a lease of `clientID`, profiles of other clients are never handed out
+     */
+    public async restore(fingerprintID: string, clientID?: string): Promise<ProfileSnapshot | undefined> {
+        const snapshot = await this.read(fingerprintID)
+        if (snapshot?.profile.clientID && snapshot.profile.clientID !== clientID) {
+            this._logger.warn({ fingerprintID, clientID }, 'PROFILE_OF_ANOTHER_CLIENT')
+            return undefined
+        }
+        return snapshot
+    }
+
+    /**
+     * @returns the deleted profile, undefined when there was none
+     */
+    public async delete(fingerprintID: string): Promise<Profile | undefined> {
+        return this.withLock(fingerprintID, async () => {
+            const profile = await this._backend.getProfile(fingerprintID)
+            if (profile) {
+                await this._backend.deleteProfile(fingerprintID)
+            }
+            return profile
+        })
+    }
+
+    /**
+     * Deletes one version, the profile goes with its last version
+     * @returns the profile after the deletion, undefined when the version did not exist
+     */
+    public async deleteVersion(fingerprintID: string, version: number): Promise<Profile | undefined> {
+        return this.withLock(fingerprintID, async () => {
+            const profile = await this._backend.getProfile(fingerprintID)
+            if (!profile || !profile.versions.some((v) => v.version === version)) {
+                return undefined
+            }
+
+            profile.versions = profile.versions.filter((v) => v.version !== version)
+            profile.updatedAt = Date.now()
+            if (profile.versions.length === 0) {
+                await this._backend.deleteProfile(fingerprintID)
+            } else {
+                await this._backend.saveProfile(profile)
+                await this._backend.deleteData(fingerprintID, version)
+            }
+            return profile
+        })
+    }
+
+    public async close(): Promise<void> {
+        await this._backend.close()
+    }
+
+    private async withLock<T>(fingerprintID: string, fn: () => Promise<T>): Promise<T> {
+        const previous = this._locks.get(fingerprintID) || Promise.resolve()
+        const current = previous.catch(() => {}).then(fn)
+        this._locks.set(fingerprintID, current)
+        try {
+            return await current
+        } finally {
+            if (this._locks.get(fingerprintID) === current) {
+                this._locks.delete(fingerprintID)
+            }
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { Profile, ProfileBackend } from "./types"
+
+/**
+ * Keeps the profiles in process memory (lost on restart)
+ */
+export default class MemoryProfileBackend implements ProfileBackend {
+    public readonly name: string = "memory"
+    public readonly isPersistent: boolean = false
+    private _profiles: Map<string, Profile> = new Map()
+    // sessionData by "<fingerprintID>:<version>"
+    private _data: Map<string, string> = new Map()
+
+    public async saveProfile(profile: Profile): Promise<void> {
+        this._profiles.set(profile.fingerprintID, structuredClone(profile))
+    }
+
+    public async getProfile(fingerprintID: string): Promise<Profile | undefined> {
+        const profile = this._profiles.get(fingerprintID)
+        return profile ? structuredClone(profile) : undefined
+    }
+
+    public async deleteProfile(fingerprintID: string): Promise<void> {
+        const profile = this._profiles.get(fingerprintID)
+        for (const version of profile?.versions || []) {
+            this._data.delete(`${fingerprintID}:${version.version}`)
+        }
+        this._profiles.delete(fingerprintID)
+    }
+
+    public async listProfiles(): Promise<Profile[]> {
+        return [...this._profiles.values()].map((p) => structuredClone(p))
+    }
+
+    public async writeData(fingerprintID: string, version: number, sessionData: string): Promise<void> {
+        this._data.set(`${fingerprintID}:${version}`, sessionData)
+    }
+
+    public async readData(fingerprintID: string, version: number): Promise<string | undefined> {
+        return this._data.get(`${fingerprintID}:${version}`)
+    }
+
+    public async deleteData(fingerprintID: string, version: number): Promise<void> {
+        this._data.delete(`${fingerprintID}:${version}`)
+    }
+
+    public async close(): Promise<void> {}
+}
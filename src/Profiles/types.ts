@@ -0,0 +1,48 @@
+/**
+ * One saved sessionData of a profile
+ */
+export type ProfileVersion = {
+    // Increases with every save, never reused
+    version: number
+    createdAt: number
+    // Bytes of sessionData
+    size: number
+    // "session" when saved at the end of a lease, "api" when written through the API
+    source: "session" | "api"
+    sessionID?: string
+    leaseID?: string
+}
+
+/**
+ * Browser profile (cookies, storage... as reported by the node in `sessionData`) of a fingerprintID
+ */
+export type Profile = {
+    fingerprintID: string
+    // Only this client's leases get the profile, unset for profiles saved without a client
+    clientID?: string
+    createdAt: number
+    updatedAt: number
+    latestVersion: number
+    // Kept versions, oldest first
+    versions: ProfileVersion[]
+}
+
+/**
+ * Persists the profiles: metadata and the sessionData of every kept version
+ */
+export interface ProfileBackend {
+    readonly name: string
+    // Whether the profiles outlive the manager process
+    readonly isPersistent: boolean
+    saveProfile(profile: Profile): Promise<void>
+    getProfile(fingerprintID: string): Promise<Profile | undefined>
+    // Removes the profile with the data of all its versions
+    deleteProfile(fingerprintID: string): Promise<void>
+    listProfiles(): Promise<Profile[]>
+    writeData(fingerprintID: string, version: number, sessionData: string): Promise<void>
+    readData(fingerprintID: string, version: number): Promise<string | undefined>
+    deleteData(fingerprintID: string, version: number): Promise<void>
+    close(): Promise<void>
+}
+
+export type ProfileBackendKind = "filesystem" | "memory"
@@ -0,0 +1,435 @@
+import { readFileSync } from "fs"
+import net from "net"
+import { Logger } from "pino"
+import { z } from "zod"
+import { proxyAssignmentsTotal, proxyFailuresTotal } from "../Metrics"
+
+export const PROXY_SELECTIONS = ["sticky", "round-robin"] as const
+
+export type ProxySelection = typeof PROXY_SELECTIONS[number]
+
+const PROXY_PROTOCOLS = ["http:", "https:", "socks4:", "socks5:"]
+
+// Pool of the proxies that do not name one
+export const DEFAULT_PROXY_POOL = "default"
+
+// Fingerprints remembered by sticky selection, the least recently assigned are forgotten first
+const MAX_STICKY_ENTRIES = 10000
+
+const ProxyEntrySchema = z.object({
+    id: z.string().min(1),
+    // "http://host:port", "socks5://host:port" (credentials go in username / password)
+    url: z.string(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    pool: z.string().min(1).default(DEFAULT_PROXY_POOL),
+    // Matched by the proxyTags of a lease ({ "country": "de", "type": "residential" })
+    tags: z.record(z.string()).default({}),
+    // Clients allowed to use the proxy (every client when omitted)
+    clients: z.array(z.string()).optional()
+})
+
+const ProxyFileSchema = z.object({
+    pools: z.record(z.object({
+        selection: z.enum(PROXY_SELECTIONS)
+    }).partial()).optional(),
+    proxies: z.array(ProxyEntrySchema)
+})
+
+export type ProxyEntry = z.infer<typeof ProxyEntrySchema>
+
+export type ProxyPoolConfig = {
+    proxies: ProxyEntry[]
+    // Selection of each pool, `selection` for the pools not listed
+    pools: Record<string, { selection?: ProxySelection }>
+    selection: ProxySelection
+    // Time between two rounds of reachability checks (ms, 0 = no checks)
+    checkInterval: number
+    // Time to open a TCP connection to a proxy (ms)
+    checkTimeout: number
+    // Consecutive failures (checks or launches) after which a proxy is no longer assigned
+    failureThreshold: number
+    // Time a proxy out for failed launches waits before it gets one trial lease again (ms)
+    launchRetryAfter: number
+}
+
+/**
+ * The proxy a lease was assigned, without its credentials (kept on the browser and reported in status)
+ */
+export type AssignedProxy = {
+    id: string
+    pool: string
+    // "http://host:port"
+    server: string
+    tags: Record<string, string>
+}
+
+export type ProxyHealth = {
+    healthy: boolean
+    // Consecutive failed reachability checks
+    checkFailures: number
+    // Consecutive failed launches, a successful check does not clear them
+    launchFailures: number
+    totalFailures: number
+    assignments: number
+    lastCheckedAt: number
+    lastFailureAt?: number
+    lastLaunchFailureAt?: number
+    lastError?: string
+}
+
+export type ProxyStatus = AssignedProxy & ProxyHealth & {
+    clients?: string[]
+}
+
+/**
+ * What a lease asks for
+ */
+export type ProxyRequest = {
+    pool?: string
+    tags?: Record<string, string>
+    clientID?: string
+    fingerprintID?: string
+}
+
+/**
+ * Proxy settings sent to the browser node
+ */
+export type ProxyCredentials = {
+    url: string
+    username?: string
+    password?: string
+}
+
+/**
+ * Thrown for a proxyServer / proxyAuth that cannot be used
+ */
+export class ProxyFormatError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "ProxyFormatError"
+    }
+}
+
+/**
+ * Thrown when no proxy can be assigned to a lease
+ * `unhealthy`: proxies match, but none of them is healthy (waiting may help)
+ */
+export class ProxyUnavailableError extends Error {
+    public readonly reason: "unknown_pool" | "no_match" | "unhealthy"
+    public readonly pool?: string
+
+    constructor(reason: ProxyUnavailableError["reason"], message: string, pool?: string) {
+        super(message)
+        this.name = "ProxyUnavailableError"
+        this.reason = reason
+        this.pool = pool
+    }
+}
+
+/**
+ * The port of a proxy server, URL drops the default port of http and https
+ */
+function getPort(url: URL): number {
+    if (url.port) {
+        return parseInt(url.port)
+    }
+    return url.protocol === "http:" ? 80 : url.protocol === "https:" ? 443 : 0
+}
+
+/**
+ * Parses a proxy server, "host:port" is read as an http proxy
+ * @throws ProxyFormatError when it is not a host and port with a supported scheme
+ */
+export function parseProxyServer(value: string): URL {
+    let url: URL
+    try {
+        url = new URL(/^[a-z0-9+.-]+:\/\//i.test(value) ? value : `http://${value}`)
+    } catch (error) {
+        throw new ProxyFormatError(`Invalid proxy server ${value}`)
+    }
+
+    if (!PROXY_PROTOCOLS.includes(url.protocol)) {
+        throw new ProxyFormatError(`Unsupported proxy scheme ${url.protocol.slice(0, -1)}`)
+    }
+    if (!url.hostname || !getPort(url) || (url.pathname !== "/" && url.pathname !== "")) {
+        throw new ProxyFormatError(`Proxy server must be [scheme://]host:port, got ${value}`)
+    }
+    return url
+}
+
+/**
+ * Splits "username:password" on the first colon, passwords may contain colons
+ * @throws ProxyFormatError when there is no colon or no username
+ */
+export function parseProxyAuth(value: string): { username: string, password: string } {
+    const separator = value.indexOf(":")
+    if (separator <= 0) {
+        throw new ProxyFormatError("proxyAuth must be username:password")
+    }
+    return { username: value.slice(0, separator), password: value.slice(separator + 1) }
+}
+
+/**
+ * The proxy server without credentials or path
+ */
+function toServer(url: URL): string {
+    return `${url.protocol}//${url.host}`
+}
+
+function matchesTags(entry: ProxyEntry, tags: Record<string, string>): boolean {
+    return Object.entries(tags).every(([key, value]) => entry.tags[key] === value)
+}
+
+/**
+ * Proxy inventory loaded from config, assigned to leases by pool and tags
+ * Proxies stop being assigned after `failureThreshold` failed reachability checks or failed launches in a row
+ * Reachability comes back with a successful check, launches with a successful trial lease after `launchRetryAfter`
+ */
+export default class ProxyPool {
+    private _config: ProxyPoolConfig
+    private _logger: Logger
+    private _proxies: Map<string, { entry: ProxyEntry, server: URL, health: ProxyHealth }> = new Map()
+    // Last assigned proxy of each fingerprintID
+    private _sticky: Map<string, string> = new Map()
+    // Round-robin position per pool ("*" when the lease names no pool)
+    private _cursors: Record<string, number> = {}
+    private _timer: NodeJS.Timeout | undefined
+
+    constructor(config: ProxyPoolConfig, logger: Logger) {
+        this._config = config
+        this._logger = logger
+
+        for (const entry of config.proxies) {
+            if (this._proxies.has(entry.id)) {
+                throw new Error(`Duplicate proxy id ${entry.id}`)
+            }
+            const server = parseProxyServer(entry.url)
+            if (server.username || server.password) {
+                throw new Error(`Proxy ${entry.id}: set the credentials in username / password, not in the url`)
+            }
+            this._proxies.set(entry.id, {
+                entry,
+                server,
+                health: { healthy: true, checkFailures: 0, launchFailures: 0, totalFailures: 0, assignments: 0, lastCheckedAt: -1 }
+            })
+        }
+    }
+
+    /**
+     * Reads the inventory from a JSON file:
+     * { "pools": { "<pool>": { "selection": "sticky" } }, "proxies": [ { "id", "url", "username", "password", "pool", "tags", "clients" } ] }
+     */
+    public static loadConfig(settings: Omit<ProxyPoolConfig, "proxies" | "pools">, path?: string): ProxyPoolConfig {
+        if (!path) {
+            return { ...settings, proxies: [], pools: {} }
+        }
+
+        const file = ProxyFileSchema.parse(JSON.parse(readFileSync(path, "utf-8")))
+        return { ...settings, proxies: file.proxies, pools: file.pools || {} }
+    }
+
+    public get enabled(): boolean {
+        return this._proxies.size > 0
+    }
+
+    public start(): void {
+        if (!this.enabled || this._config.checkInterval <= 0) {
+            return
+        }
+
+        this.runChecks().catch((error) => {
+            this._logger.error({ error }, 'ERROR_CHECKING_PROXIES')
+        })
+        this._timer = setInterval(() => {
+            this.runChecks().catch((error) => {
+                this._logger.error({ error }, 'ERROR_CHECKING_PROXIES')
+            })
+        }, this._config.checkInterval)
+    }
+
+    public stop(): void {
+        if (this._timer) {
+            clearInterval(this._timer)
+            this._timer = undefined
+        }
+    }
+
+    /**
+     * Picks a healthy proxy for a lease
+     * Sticky pools hand a fingerprintID the proxy it had last time while that proxy is healthy
+     * @throws ProxyUnavailableError
+     */
+    public assign(request: ProxyRequest): { proxy: AssignedProxy, credentials: ProxyCredentials } {
+        const { pool, tags = {}, clientID, fingerprintID } = request
+        const proxies = [...this._proxies.values()]
+        if (pool && !proxies.some(({ entry }) => entry.pool === pool)) {
+            throw new ProxyUnavailableError("unknown_pool", `Unknown proxy pool ${pool}`, pool)
+        }
+
+        const candidates = proxies.filter(({ entry }) =>
+            (!pool || entry.pool === pool) &&
+            matchesTags(entry, tags) &&
+            (!entry.clients || (clientID !== undefined && entry.clients.includes(clientID)))
+        )
+        if (candidates.length === 0) {
+            throw new ProxyUnavailableError("no_match", "No proxy matches the requested pool and tags", pool)
+        }
+
+        // Proxies out for failed launches come back for a trial once launchRetryAfter passed
+        for (const candidate of candidates) {
+            this.updateHealth(candidate)
+        }
+        const healthy = candidates.filter(({ health }) => health.healthy)
+        if (healthy.length === 0) {
+            throw new ProxyUnavailableError("unhealthy", "No healthy proxy matches the requested pool and tags", pool)
+        }
+
+        const selection = (pool && this._config.pools[pool]?.selection) || this._config.selection
+        const isSticky = selection === "sticky" && Boolean(fingerprintID)
+        let chosen = isSticky ? healthy.find(({ entry }) => entry.id === this._sticky.get(fingerprintID as string)) : undefined
+        if (!chosen) {
+            const key = pool || "*"
+            const cursor = this._cursors[key] || 0
+            chosen = healthy[cursor % healthy.length]
+            this._cursors[key] = cursor + 1
+        }
+
+        if (isSticky) {
+            this.remember(fingerprintID as string, chosen.entry.id)
+        }
+
+        chosen.health.assignments++
+        if (chosen.health.launchFailures >= this._config.failureThreshold) {
+            // This is the trial lease, keep the proxy out until its launch has been reported
+            chosen.health.lastLaunchFailureAt = Date.now()
+            this.updateHealth(chosen)
+        }
+        proxyAssignmentsTotal.inc({ pool: chosen.entry.pool })
+        return {
+            proxy: this.toAssigned(chosen.entry, chosen.server),
+            credentials: {
+                url: chosen.entry.url,
+                username: chosen.entry.username,
+                password: chosen.entry.password
+            }
+        }
+    }
+
+    /**
+     * Counts a failure (unreachable, or a launch through the proxy failed)
+     */
+    public reportFailure(proxyID: string, reason: "unreachable" | "launch", error?: string): void {
+        const proxy = this._proxies.get(proxyID)
+        if (!proxy) {
+            return
+        }
+
+        const { health } = proxy
+        if (reason === "launch") {
+            health.launchFailures++
+            health.lastLaunchFailureAt = Date.now()
+        } else {
+            health.checkFailures++
+        }
+        health.totalFailures++
+        health.lastFailureAt = Date.now()
+        health.lastError = error || reason
+        proxyFailuresTotal.inc({ pool: proxy.entry.pool, reason })
+        this.updateHealth(proxy)
+    }
+
+    /**
+     * Clears the failures of the same kind only: a reachable proxy may still fail every launch
+     */
+    public reportSuccess(proxyID: string, kind: "check" | "launch"): void {
+        const proxy = this._proxies.get(proxyID)
+        if (!proxy) {
+            return
+        }
+
+        if (kind === "launch") {
+            proxy.health.launchFailures = 0
+        } else {
+            proxy.health.checkFailures = 0
+        }
+        this.updateHealth(proxy)
+    }
+
+    /**
+     * Opens a TCP connection to every proxy once
+     */
+    public async runChecks(): Promise<void> {
+        await Promise.all([...this._proxies.values()].map(async ({ entry, server, health }) => {
+            try {
+                await this.connect(server)
+                this.reportSuccess(entry.id, "check")
+            } catch (error) {
+                this.reportFailure(entry.id, "unreachable", error instanceof Error ? error.message : String(error))
+            } finally {
+                health.lastCheckedAt = Date.now()
+            }
+        }))
+    }
+
+    /**
+     * The inventory with its health, without credentials
+     */
+    public getStatus(filter: { pool?: string } = {}): ProxyStatus[] {
+        return [...this._proxies.values()]
+            .filter(({ entry }) => !filter.pool || entry.pool === filter.pool)
+            .map(({ entry, server, health }) => ({
+                ...this.toAssigned(entry, server),
+                ...health,
+                clients: entry.clients
+            }))
+    }
+
+    private updateHealth(proxy: { entry: ProxyEntry, health: ProxyHealth }): void {
+        const { health } = proxy
+        const threshold = this._config.failureThreshold
+        const isLaunchBlocked = health.launchFailures >= threshold &&
+            Date.now() - (health.lastLaunchFailureAt || 0) < this._config.launchRetryAfter
+        const healthy = health.checkFailures < threshold && !isLaunchBlocked
+        if (healthy === health.healthy) {
+            return
+        }
+
+        health.healthy = healthy
+        if (healthy) {
+            this._logger.info({ proxyID: proxy.entry.id, pool: proxy.entry.pool }, 'PROXY_RECOVERED')
+        } else {
+            this._logger.warn({
+                proxyID: proxy.entry.id, pool: proxy.entry.pool,
+                checkFailures: health.checkFailures, launchFailures: health.launchFailures, error: health.lastError
+            }, 'PROXY_UNHEALTHY')
+        }
+    }
+
+    private toAssigned(entry: ProxyEntry, server: URL): AssignedProxy {
+        return { id: entry.id, pool: entry.pool, server: toServer(server), tags: { ...entry.tags } }
+    }
+
+    private remember(fingerprintID: string, proxyID: string): void {
+        // Re-inserted so the map stays ordered by last assignment
+        this._sticky.delete(fingerprintID)
+        this._sticky.set(fingerprintID, proxyID)
+        if (this._sticky.size > MAX_STICKY_ENTRIES) {
+            this._sticky.delete(this._sticky.keys().next().value as string)
+        }
+    }
+
+    private connect(server: URL): Promise<void> {
+        const port = getPort(server)
+        const host = server.hostname.replace(/^\[(.*)\]$/, "$1")
+        return new Promise((resolve, reject) => {
+            const socket = net.connect({ host, port })
+            socket.setTimeout(this._config.checkTimeout, () => socket.destroy(new Error(`Connect timed out after ${this._config.checkTimeout}ms`)))
+            socket.once("connect", () => {
+                socket.destroy()
+                resolve()
+            })
+            socket.once("error", reject)
+        })
+    }
+}
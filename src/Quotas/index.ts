@@ -0,0 +1,237 @@
+import { readFileSync } from "fs"
+import { z } from "zod"
+import BrowserManager, { Browser } from "../BrowserManager"
+
+/**
+ * Key used for requests without a clientID
+ */
+export const ANONYMOUS_CLIENT = "anonymous"
+
+const LAUNCH_WINDOW_MS = 60 * 1000
+
+const LimitsSchema = z.object({
+    // 0 means unlimited
+    maxConcurrentLeases: z.number().int().min(0),
+    maxLeaseMinutes: z.number().int().min(0),
+    launchesPerMinute: z.number().int().min(0)
+})
+
+const QuotaFileSchema = z.object({
+    default: LimitsSchema.partial().optional(),
+    clients: z.record(LimitsSchema.partial()).optional()
+})
+
+export type QuotaLimits = z.infer<typeof LimitsSchema>
+
+export type QuotaConfig = {
+    default: QuotaLimits
+    clients: Record<string, Partial<QuotaLimits>>
+}
+
+export type ClientUsage = {
+    clientID: string
+    limits: QuotaLimits
+    usage: {
+        concurrentLeases: number
+        // Lease requests holding a slot while they get (or wait for) a browser
+        pendingLeases: number
+        launchesLastMinute: number
+    }
+}
+
+/**
+ * A slot held by a lease request from `acquire` until it got a browser or gave up
+ * Both calls are idempotent, only the first one counts
+ */
+export type QuotaReservation = {
+    // The lease got its browser, counts as a launch
+    commit(): void
+    // No browser (relayed, out of capacity, wait timed out or cancelled), frees the slot
+    release(): void
+}
+
+export class QuotaExceededError extends Error {
+    public readonly clientID: string
+    public readonly limit: keyof QuotaLimits
+    public readonly max: number
+    // Undefined when waiting does not help (e.g. a lease longer than allowed)
+    public readonly retryAfterSeconds?: number
+
+    constructor(clientID: string, limit: keyof QuotaLimits, max: number, message: string, retryAfterSeconds?: number) {
+        super(message)
+        this.name = "QuotaExceededError"
+        this.clientID = clientID
+        this.limit = limit
+        this.max = max
+        this.retryAfterSeconds = retryAfterSeconds
+    }
+}
+
+/**
+ * Enforces per-client limits on concurrent leases, lease length and launch rate
+ */
+export default class QuotaManager {
+    private _config: QuotaConfig
+    private _browserManager: BrowserManager
+    private _launches: Record<string, number[]> = {}
+    // Reservations not committed or released yet, per client
+    private _pending: Record<string, number> = {}
+    // acquire calls listing the browsers of a client, each counts the reservations committed meanwhile
+    private _listings: Record<string, Set<{ commits: number }>> = {}
+
+    constructor(config: QuotaConfig, browserManager: BrowserManager) {
+        this._config = config
+        this._browserManager = browserManager
+    }
+
+    /**
+     * Reads the per-client overrides from a JSON file:
+     * { "default": { ...limits }, "clients": { "<clientID>": { ...limits } } }
+     */
+    public static loadConfig(defaults: QuotaLimits, path?: string): QuotaConfig {
+        if (!path) {
+            return { default: defaults, clients: {} }
+        }
+
+        const file = QuotaFileSchema.parse(JSON.parse(readFileSync(path, "utf-8")))
+        return {
+            default: { ...defaults, ...file.default },
+            clients: file.clients || {}
+        }
+    }
+
+    public getLimits(clientID?: string): QuotaLimits {
+        return {
+            ...this._config.default,
+            ...this._config.clients[clientID || ANONYMOUS_CLIENT]
+        }
+    }
+
+    /**
+     * Validates the lease length (also used when extending a lease)
+     * @throws QuotaExceededError
+     */
+    public checkLeaseTime(clientID: string | undefined, leaseTime: number): void {
+        const client = clientID || ANONYMOUS_CLIENT
+        const { maxLeaseMinutes } = this.getLimits(client)
+        if (maxLeaseMinutes > 0 && leaseTime > maxLeaseMinutes) {
+            throw new QuotaExceededError(
+                client, "maxLeaseMinutes", maxLeaseMinutes,
+                `Client ${client} may lease a browser for at most ${maxLeaseMinutes} minutes`
+            )
+        }
+    }
+
+    /**
+     * Checks every limit for a new lease and holds a slot for it
+     * Pending reservations count against the concurrent leases and the launch rate, so queued requests cannot exceed them
+     * @throws QuotaExceededError
+     */
+    public async acquire(clientID: string | undefined, leaseTime: number): Promise<QuotaReservation> {
+        const client = clientID || ANONYMOUS_CLIENT
+        const limits = this.getLimits(client)
+        this.checkLeaseTime(client, leaseTime)
+
+        const listing = { commits: 0 }
+        this._listings[client] = this._listings[client] || new Set()
+        this._listings[client].add(listing)
+        let leases: Browser[]
+        try {
+            leases = limits.maxConcurrentLeases > 0 ? await this.getLeases(client) : []
+        } finally {
+            this._listings[client].delete(listing)
+            if (this._listings[client].size === 0) {
+                delete this._listings[client]
+            }
+        }
+
+        // No await from here on, two requests of the client cannot both pass the checks
+        const pending = this._pending[client] || 0
+        // A lease committed during getLeases may be missing from the list, count it (at worst twice)
+        if (limits.maxConcurrentLeases > 0 && leases.length + listing.commits + pending >= limits.maxConcurrentLeases) {
+            // The earliest lease to expire frees a slot, a pending request may give up any moment
+            const nextExpiry = Math.min(...leases.map((b) => b.expiresAt).filter((at) => at > 0))
+            throw new QuotaExceededError(
+                client, "maxConcurrentLeases", limits.maxConcurrentLeases,
+                `Client ${client} already holds ${leases.length} of ${limits.maxConcurrentLeases} concurrent leases (${pending} pending)`,
+                Number.isFinite(nextExpiry) ? Math.max(1, Math.ceil((nextExpiry - Date.now()) / 1000)) : pending > 0 ? 1 : undefined
+            )
+        }
+
+        const launches = this.getRecentLaunches(client)
+        if (limits.launchesPerMinute > 0 && launches.length + pending >= limits.launchesPerMinute) {
+            throw new QuotaExceededError(
+                client, "launchesPerMinute", limits.launchesPerMinute,
+                `Client ${client} exceeded ${limits.launchesPerMinute} launches per minute`,
+                launches.length > 0 ? Math.max(1, Math.ceil((launches[0] + LAUNCH_WINDOW_MS - Date.now()) / 1000)) : 1
+            )
+        }
+
+        this._pending[client] = pending + 1
+        let isSettled = false
+        const settle = (): boolean => {
+            if (isSettled) {
+                return false
+            }
+            isSettled = true
+            this._pending[client]--
+            if (this._pending[client] <= 0) {
+                delete this._pending[client]
+            }
+            return true
+        }
+
+        return {
+            commit: () => {
+                if (settle()) {
+                    this._launches[client] = [...this.getRecentLaunches(client), Date.now()]
+                    for (const listing of this._listings[client] || []) {
+                        listing.commits++
+                    }
+                }
+            },
+            release: () => {
+                settle()
+            }
+        }
+    }
+
+    /**
+     * Usage of every configured client and of every client seen recently
+     */
+    public async getUsage(): Promise<ClientUsage[]> {
+        const browsers = await this._browserManager.getBrowsers()
+        const clients = new Set([
+            ...Object.keys(this._config.clients),
+            ...Object.keys(this._launches),
+            ...Object.keys(this._pending),
+            ...browsers.filter((b) => b.leaseTime !== -1).map((b) => b.clientID || ANONYMOUS_CLIENT)
+        ])
+
+        return [...clients].sort().map((client) => ({
+            clientID: client,
+            limits: this.getLimits(client),
+            usage: {
+                concurrentLeases: browsers.filter((b) => b.leaseTime !== -1 && (b.clientID || ANONYMOUS_CLIENT) === client).length,
+                pendingLeases: this._pending[client] || 0,
+                launchesLastMinute: this.getRecentLaunches(client).length
+            }
+        }))
+    }
+
+    private async getLeases(client: string) {
+        const browsers = await this._browserManager.getBrowsers()
+        return browsers.filter((b) => b.leaseTime !== -1 && (b.clientID || ANONYMOUS_CLIENT) === client)
+    }
+
+    private getRecentLaunches(client: string): number[] {
+        const since = Date.now() - LAUNCH_WINDOW_MS
+        const launches = (this._launches[client] || []).filter((at) => at > since)
+        if (launches.length === 0) {
+            delete this._launches[client]
+        } else {
+            this._launches[client] = launches
+        }
+        return launches
+    }
+}
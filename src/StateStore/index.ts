@@ -0,0 +1,21 @@
+import MemoryStateStore from "./memory"
+import RedisStateStore from "./redis"
+import { StateStore, StateStoreKind } from "./types"
+
+export * from "./types"
+export { MemoryStateStore, RedisStateStore }
+
+/**
+ * Creates the store selected by STATE_STORE
+ * @param namespace - Prefix of every key, so several managers can share one Redis
+ */
+export function createStateStore(kind: StateStoreKind, namespace: string): StateStore {
+    switch (kind) {
+        case "redis":
+            return new RedisStateStore(namespace)
+        case "memory":
+            return new MemoryStateStore()
+        default:
+            throw new Error(`Unknown state store "${kind}"`)
+    }
+}
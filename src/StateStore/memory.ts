@@ -0,0 +1,30 @@
+import { Browser } from "../BrowserManager"
+import { StateStore } from "./types"
+
+/**
+ * Keeps the state in process memory (lost on restart)
+ */
+export default class MemoryStateStore implements StateStore {
+    public readonly name: string = "memory"
+    public readonly isPersistent: boolean = false
+    private _browsers: Map<string, Browser> = new Map()
+
+    public async saveBrowser(browser: Browser): Promise<void> {
+        this._browsers.set(browser.name, structuredClone(browser))
+    }
+
+    public async getBrowser(browserName: string): Promise<Browser | undefined> {
+        const browser = this._browsers.get(browserName)
+        return browser ? structuredClone(browser) : undefined
+    }
+
+    public async deleteBrowser(browserName: string): Promise<void> {
+        this._browsers.delete(browserName)
+    }
+
+    public async listBrowsers(): Promise<Browser[]> {
+        return [...this._browsers.values()].map((b) => structuredClone(b))
+    }
+
+    public async close(): Promise<void> {}
+}
@@ -0,0 +1,42 @@
+import { Browser } from "../BrowserManager"
+import { createRedisClient, RedisClient } from "../utility/redis"
+import { StateStore } from "./types"
+
+/**
+ * Keeps the state in a Redis hash (`<namespace>:browsers`, one JSON field per browser)
+ */
+export default class RedisStateStore implements StateStore {
+    public readonly name: string = "redis"
+    public readonly isPersistent: boolean = true
+    private _redis: RedisClient
+    private _key: string
+
+    constructor(namespace: string, redis: RedisClient = createRedisClient()) {
+        this._redis = redis
+        this._key = `${namespace}:browsers`
+    }
+
+    public async saveBrowser(browser: Browser): Promise<void> {
+        // Serialize right away so the snapshot matches the state at call time
+        const value = JSON.stringify(browser)
+        await this._redis.hset(this._key, browser.name, value)
+    }
+
+    public async getBrowser(browserName: string): Promise<Browser | undefined> {
+        const value = await this._redis.hget(this._key, browserName)
+        return value ? JSON.parse(value) : undefined
+    }
+
+    public async deleteBrowser(browserName: string): Promise<void> {
+        await this._redis.hdel(this._key, browserName)
+    }
+
+    public async listBrowsers(): Promise<Browser[]> {
+        const values = await this._redis.hvals(this._key)
+        return values.map((value) => JSON.parse(value))
+    }
+
+    public async close(): Promise<void> {
+        await this._redis.quit()
+    }
+}
@@ -0,0 +1,17 @@
+import { Browser } from "../BrowserManager"
+
+/**
+ * Persists the browser pool state (leases included) so it survives a manager restart
+ */
+export interface StateStore {
+    readonly name: string
+    // Whether the state outlives the manager process
+    readonly isPersistent: boolean
+    saveBrowser(browser: Browser): Promise<void>
+    getBrowser(browserName: string): Promise<Browser | undefined>
+    deleteBrowser(browserName: string): Promise<void>
+    listBrowsers(): Promise<Browser[]>
+    close(): Promise<void>
+}
+
+export type StateStoreKind = "memory" | "redis"
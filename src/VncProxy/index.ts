@@ -0,0 +1,304 @@
+import { IncomingMessage } from "http"
+import { createHmac, timingSafeEqual } from "crypto"
+import net from "net"
+import { Duplex } from "stream"
+import { Logger } from "pino"
+import { RawData, WebSocket, WebSocketServer } from "ws"
+import { z } from "zod"
+import BrowserManager, { Browser } from "../BrowserManager"
+import { LEASE_ENDED_CLOSE_CODE, rejectUpgrade } from "../Gateway"
+import { getBrowserHost } from "../utility/browser"
+import { RfbInputFilter, RfbProtocolError } from "./rfb"
+
+export { RfbInputFilter, RfbProtocolError }
+
+/**
+ * Prefix of the viewer route: /vnc/:browserID?token=<viewer token>
+ */
+export const VNC_PATH = "/vnc"
+
+export const VIEWER_MODES = ["ro", "rw"] as const
+
+export type ViewerMode = typeof VIEWER_MODES[number]
+
+export type VncProxyConfig = {
+    // Signs the viewer tokens
+    tokenSecret: string
+    // Default lifetime of a viewer token (s), it only bounds when the viewer may connect
+    tokenTTL: number
+    // Time to reach the container's VNC server (ms)
+    connectTimeout: number
+}
+
+const ViewerClaimsSchema = z.object({
+    browserID: z.string(),
+    leaseID: z.string(),
+    mode: z.enum(VIEWER_MODES),
+    // Expiry (unix seconds)
+    exp: z.number()
+})
+
+export type ViewerClaims = z.infer<typeof ViewerClaimsSchema>
+
+export type ViewerToken = {
+    token: string
+    url: string
+    mode: ViewerMode
+    // ms since epoch
+    expiresAt: number
+}
+
+export class ViewerTokenError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "ViewerTokenError"
+    }
+}
+
+type ViewerConnection = {
+    leaseID: string
+    mode: ViewerMode
+    client: WebSocket
+    upstream: net.Socket
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Websockify-style VNC proxy: viewers (noVNC) connect over a websocket, the proxy speaks RFB to the container
+ * Viewers need a short-lived signed token, read-only viewers have their input dropped
+ */
+export default class VncProxy {
+    private _config: VncProxyConfig
+    private _browserManager: BrowserManager
+    private _logger: Logger
+    private _server: WebSocketServer = new WebSocketServer({
+        noServer: true,
+        // noVNC offers "binary", websockify's base64 framing is not supported
+        handleProtocols: (protocols) => protocols.has("binary") ? "binary" : false
+    })
+    // Open viewers per browser name
+    private _connections: Record<string, Set<ViewerConnection>> = {}
+    private _unsubscribe: (() => void) | undefined
+
+    constructor(config: VncProxyConfig, browserManager: BrowserManager, logger: Logger) {
+        this._config = config
+        this._browserManager = browserManager
+        this._logger = logger
+    }
+
+    public start(): void {
+        this._unsubscribe = this._browserManager.events.subscribe({ types: ["lease.freed"] }, (event) => {
+            this.closeConnections(event.browserName, LEASE_ENDED_CLOSE_CODE, "Lease ended")
+        })
+    }
+
+    public stop(): void {
+        this._unsubscribe?.()
+        this._unsubscribe = undefined
+
+        for (const browserName in this._connections) {
+            this.closeConnections(browserName, 1001, "Shutting down")
+        }
+    }
+
+    /**
+     * Issues a viewer token for a leased browser
+     * Read-write viewers need a lease launched with vncMode "rw"
+     * @throws ViewerTokenError when the browser is not leased or the mode is not allowed
+     */
+    public issueToken(browser: Browser, mode?: ViewerMode, ttlSeconds?: number): ViewerToken {
+        if (browser.leaseTime === -1 || !browser.leaseID || !browser.labels?.id) {
+            throw new ViewerTokenError("Browser is not leased")
+        }
+
+        const leaseMode: ViewerMode = browser.vncMode === "rw" ? "rw" : "ro"
+        if (mode === "rw" && leaseMode !== "rw") {
+            throw new ViewerTokenError("The lease was launched with a read-only VNC")
+        }
+
+        const claims: ViewerClaims = {
+            browserID: browser.labels.id,
+            leaseID: browser.leaseID,
+            mode: mode || leaseMode,
+            exp: Math.floor(Date.now() / 1000) + (ttlSeconds || this._config.tokenTTL)
+        }
+        const payload = Buffer.from(JSON.stringify(claims)).toString("base64url")
+        const token = `${payload}.${sign(payload, this._config.tokenSecret)}`
+
+        const base = (process.env.GATEWAY_PUBLIC_URL as string).replace(/\/+$/, "")
+        return {
+            token,
+            url: `${base}${VNC_PATH}/${encodeURIComponent(claims.browserID)}?token=${encodeURIComponent(token)}`,
+            mode: claims.mode,
+            expiresAt: claims.exp * 1000
+        }
+    }
+
+    /**
+     * Verifies a viewer token
+     * @throws ViewerTokenError when it is not signed by this proxy, malformed or expired
+     */
+    public verifyToken(token: string): ViewerClaims {
+        const [payload, signature] = token.split(".")
+        if (!payload || !signature || !safeEqual(sign(payload, this._config.tokenSecret), signature)) {
+            throw new ViewerTokenError("Invalid token signature")
+        }
+
+        let claims: ViewerClaims
+        try {
+            claims = ViewerClaimsSchema.parse(JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")))
+        } catch (error) {
+            throw new ViewerTokenError("Malformed token")
+        }
+
+        if (claims.exp * 1000 <= Date.now()) {
+            throw new ViewerTokenError("Token expired")
+        }
+        return claims
+    }
+
+    /**
+     * Handles an upgrade request on /vnc/:browserID
+     */
+    public handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+        this.upgrade(req, socket, head).catch((error) => {
+            this._logger.error({ error: error instanceof Error ? error.message : error }, 'ERROR_UPGRADING_VNC_CONNECTION')
+            rejectUpgrade(socket, 500)
+        })
+    }
+
+    private async upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+        const url = new URL(req.url || "/", "http://vnc")
+        const match = url.pathname.match(new RegExp(`^${VNC_PATH}/([^/]+)/?$`))
+        if (!match) {
+            return rejectUpgrade(socket, 404)
+        }
+
+        let claims: ViewerClaims
+        try {
+            claims = this.verifyToken(url.searchParams.get("token") || "")
+        } catch (error) {
+            this._logger.warn({ error: error instanceof Error ? error.message : error }, 'VNC_TOKEN_REJECTED')
+            return rejectUpgrade(socket, 401)
+        }
+
+        // The token is bound to the browser and to the lease it was issued for
+        const browserID = decodeURIComponent(match[1])
+        const browser = await this._browserManager.getBrowserWithId(browserID)
+        if (claims.browserID !== browserID) {
+            return rejectUpgrade(socket, 401)
+        }
+        if (!browser || browser.leaseTime === -1 || browser.leaseID !== claims.leaseID) {
+            return rejectUpgrade(socket, 404)
+        }
+
+        let upstream: net.Socket
+        try {
+            upstream = await this.connectUpstream(getBrowserHost(browser.name), browser.ports.vnc)
+        } catch (error) {
+            this._logger.error({ browserName: browser.name, error: error instanceof Error ? error.message : error }, 'ERROR_CONNECTING_VNC_UPSTREAM')
+            return rejectUpgrade(socket, 502)
+        }
+
+        // The lease may have ended while connecting
+        if (browser.leaseID !== claims.leaseID || browser.leaseTime === -1) {
+            upstream.destroy()
+            return rejectUpgrade(socket, 404)
+        }
+
+        this._server.handleUpgrade(req, socket, head, (client) => {
+            this.pipe(browser.name, { leaseID: claims.leaseID, mode: claims.mode, client, upstream })
+        })
+    }
+
+    private connectUpstream(host: string, port: number): Promise<net.Socket> {
+        return new Promise((resolve, reject) => {
+            const upstream = net.connect({ host, port })
+            upstream.setTimeout(this._config.connectTimeout, () => upstream.destroy(new Error(`VNC connect timed out after ${this._config.connectTimeout}ms`)))
+            upstream.once("connect", () => {
+                upstream.setTimeout(0)
+                resolve(upstream)
+            })
+            // Stays attached until pipe() takes over, rejecting a settled promise is a no-op
+            upstream.on("error", reject)
+        })
+    }
+
+    private pipe(browserName: string, connection: ViewerConnection): void {
+        const { client, upstream, mode } = connection
+        this._connections[browserName] = this._connections[browserName] || new Set()
+        this._connections[browserName].add(connection)
+        this._logger.info({ browserName, leaseID: connection.leaseID, mode }, 'VNC_VIEWER_CONNECTED')
+
+        const filter = mode === "ro" ? new RfbInputFilter() : undefined
+
+        // Server to viewer
+        upstream.on("data", (chunk: Buffer) => {
+            filter?.observeServer(chunk)
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(chunk, { binary: true })
+            }
+        })
+
+        // Viewer to server
+        client.on("message", (data: RawData) => {
+            const chunk = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as Buffer)
+            try {
+                const forwarded = filter ? filter.push(chunk) : chunk
+                if (forwarded.length > 0 && !upstream.destroyed) {
+                    upstream.write(forwarded)
+                }
+            } catch (error) {
+                if (!(error instanceof RfbProtocolError)) {
+                    throw error
+                }
+                // A read-only viewer the filter cannot follow is cut off rather than trusted
+                this._logger.warn({ browserName, leaseID: connection.leaseID, error: error.message }, 'VNC_VIEWER_PROTOCOL_ERROR')
+                client.close(1008, "Unsupported VNC message")
+                upstream.destroy()
+            }
+        })
+
+        const cleanup = () => {
+            if (!this._connections[browserName]?.delete(connection)) {
+                return
+            }
+            if (this._connections[browserName].size === 0) {
+                delete this._connections[browserName]
+            }
+
+            client.close()
+            upstream.destroy()
+            this._logger.info({ browserName, leaseID: connection.leaseID, droppedInput: filter?.dropped }, 'VNC_VIEWER_DISCONNECTED')
+        }
+        client.on("close", cleanup)
+        client.on("error", cleanup)
+        upstream.on("close", cleanup)
+        upstream.on("error", cleanup)
+    }
+
+    private closeConnections(browserName: string, code: number, reason: string): void {
+        const connections = this._connections[browserName]
+        if (!connections) {
+            return
+        }
+
+        delete this._connections[browserName]
+        for (const { leaseID, client, upstream } of connections) {
+            client.close(code, reason)
+            upstream.destroy()
+            // Viewers that ignore the close frame are cut off
+            setTimeout(() => client.terminate(), 1000).unref()
+            this._logger.info({ browserName, leaseID, reason }, 'VNC_VIEWER_DISCONNECTED')
+        }
+    }
+}
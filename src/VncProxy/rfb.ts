@@ -0,0 +1,198 @@
+/**
+ * RFB (VNC) client message parsing, used to keep read-only viewers from sending input
+ * See RFC 6143, the security handshake differs between protocol 3.3 and 3.7 / 3.8
+ */
+
+// Security types the filter can follow (others may carry input the filter cannot see)
+const SECURITY_NONE = 1
+const SECURITY_VNC_AUTH = 2
+// DES challenge response of VNC authentication
+const VNC_AUTH_RESPONSE_LENGTH = 16
+const PROTOCOL_VERSION_LENGTH = 12
+
+// Client to server message types
+const SET_PIXEL_FORMAT = 0
+const SET_ENCODINGS = 2
+const FRAMEBUFFER_UPDATE_REQUEST = 3
+const KEY_EVENT = 4
+const POINTER_EVENT = 5
+const CLIENT_CUT_TEXT = 6
+const ENABLE_CONTINUOUS_UPDATES = 150
+const SET_DESKTOP_SIZE = 251
+const FENCE = 252
+
+type Phase = "version" | "security" | "auth" | "init" | "messages"
+
+export class RfbProtocolError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "RfbProtocolError"
+    }
+}
+
+/**
+ * Forwards the client's handshake and display messages, drops key, pointer, clipboard and resize messages
+ * @throws RfbProtocolError on messages it cannot follow, the connection should be closed
+ */
+export class RfbInputFilter {
+    private _phase: Phase = "version"
+    private _minor: number = 3
+    private _buffer: Buffer = Buffer.alloc(0)
+    // Protocol 3.3: the server picks the security type
+    private _server: Buffer = Buffer.alloc(0)
+    private _serverSecurityType: number | undefined
+    private _dropped: number = 0
+
+    /**
+     * Input messages dropped so far
+     */
+    public get dropped(): number {
+        return this._dropped
+    }
+
+    /**
+     * Follows the server's side of the handshake (only needed until the security type is known)
+     */
+    public observeServer(chunk: Buffer): void {
+        if (this._serverSecurityType !== undefined || this._phase === "messages") {
+            return
+        }
+
+        this._server = Buffer.concat([this._server, chunk])
+        // ProtocolVersion followed by the u32 security type
+        if (this._server.length >= PROTOCOL_VERSION_LENGTH + 4) {
+            this._serverSecurityType = this._server.readUInt32BE(PROTOCOL_VERSION_LENGTH)
+            this._server = Buffer.alloc(0)
+        }
+    }
+
+    /**
+     * @returns the bytes of `chunk` (and of earlier partial messages) that may reach the server
+     */
+    public push(chunk: Buffer): Buffer {
+        this._buffer = Buffer.concat([this._buffer, chunk])
+        const forwarded: Buffer[] = []
+
+        for (;;) {
+            const length = this.nextLength()
+            if (length === undefined || this._buffer.length < length) {
+                break
+            }
+
+            const message = this._buffer.subarray(0, length)
+            this._buffer = this._buffer.subarray(length)
+            if (this.accept(message)) {
+                forwarded.push(message)
+            } else {
+                this._dropped++
+            }
+        }
+
+        return Buffer.concat(forwarded)
+    }
+
+    /**
+     * Length of the next complete unit the client sends, undefined until it can be told
+     */
+    private nextLength(): number | undefined {
+        switch (this._phase) {
+            case "version":
+                return PROTOCOL_VERSION_LENGTH
+            case "security":
+                if (this._minor >= 7) {
+                    return 1
+                }
+                if (this._serverSecurityType === undefined) {
+                    throw new RfbProtocolError("Client data before the server's security type")
+                }
+                // 3.3 clients send nothing for None, the next byte is ClientInit
+                return this._serverSecurityType === SECURITY_VNC_AUTH ? VNC_AUTH_RESPONSE_LENGTH : 1
+            case "auth":
+                return VNC_AUTH_RESPONSE_LENGTH
+            case "init":
+                return 1
+            case "messages":
+                return this.nextMessageLength()
+        }
+    }
+
+    private nextMessageLength(): number | undefined {
+        if (this._buffer.length < 1) {
+            return undefined
+        }
+
+        const type = this._buffer[0]
+        switch (type) {
+            case SET_PIXEL_FORMAT:
+                return 20
+            case SET_ENCODINGS:
+                return this._buffer.length < 4 ? undefined : 4 + 4 * this._buffer.readUInt16BE(2)
+            case FRAMEBUFFER_UPDATE_REQUEST:
+                return 10
+            case KEY_EVENT:
+                return 8
+            case POINTER_EVENT:
+                return 6
+            case CLIENT_CUT_TEXT:
+                return this._buffer.length < 8 ? undefined : 8 + this._buffer.readUInt32BE(4)
+            case ENABLE_CONTINUOUS_UPDATES:
+                return 10
+            case SET_DESKTOP_SIZE:
+                return this._buffer.length < 8 ? undefined : 8 + 16 * this._buffer[6]
+            case FENCE:
+                return this._buffer.length < 9 ? undefined : 9 + this._buffer[8]
+            default:
+                throw new RfbProtocolError(`Unsupported client message type ${type}`)
+        }
+    }
+
+    /**
+     * Advances the handshake, returns whether the unit is forwarded
+     */
+    private accept(message: Buffer): boolean {
+        switch (this._phase) {
+            case "version": {
+                const match = message.toString("latin1").match(/^RFB (\d{3})\.(\d{3})\n$/)
+                if (!match) {
+                    throw new RfbProtocolError("Invalid protocol version")
+                }
+                // Versions other than 3.7 and 3.8 follow the 3.3 handshake
+                const minor = parseInt(match[2])
+                this._minor = minor === 7 || minor === 8 ? minor : 3
+                this._phase = "security"
+                return true
+            }
+            case "security": {
+                if (this._minor < 7) {
+                    return this.afterSecurity(this._serverSecurityType as number, message)
+                }
+                return this.afterSecurity(message[0], undefined)
+            }
+            case "auth":
+                this._phase = "init"
+                return true
+            case "init":
+                this._phase = "messages"
+                return true
+            case "messages":
+                return ![KEY_EVENT, POINTER_EVENT, CLIENT_CUT_TEXT, SET_DESKTOP_SIZE].includes(message[0])
+        }
+    }
+
+    /**
+     * @param message the unit already read for protocol 3.3 (auth response or ClientInit)
+     */
+    private afterSecurity(securityType: number, message: Buffer | undefined): boolean {
+        if (securityType === SECURITY_VNC_AUTH) {
+            // 3.3 reads the auth response right away
+            this._phase = message ? "init" : "auth"
+            return true
+        }
+        if (securityType === SECURITY_NONE) {
+            // 3.3 has already read the ClientInit byte
+            this._phase = message ? "messages" : "init"
+            return true
+        }
+        throw new RfbProtocolError(`Unsupported security type ${securityType}`)
+    }
+}
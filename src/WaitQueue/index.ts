@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto"
+
+export class WaitTimeoutError extends Error {
+    public readonly waitedMs: number
+
+    constructor(waitedMs: number) {
+        super(`No browser became available within ${waitedMs}ms`)
+        this.name = "WaitTimeoutError"
+        this.waitedMs = waitedMs
+    }
+}
+
+export class WaitCancelledError extends Error {
+    constructor(reason: string) {
+        super(`Wait cancelled: ${reason}`)
+        this.name = "WaitCancelledError"
+    }
+}
+
+export type WaitOptions = {
+    timeoutMs: number
+    // Higher priorities are served first, FIFO within the same priority
+    priority?: number
+    signal?: AbortSignal
+}
+
+export type WaitQueueStats = {
+    depth: number
+    oldestWaitMs: number
+    served: number
+    timedOut: number
+    cancelled: number
+    avgWaitMs: number
+    maxWaitMs: number
+}
+
+/**
+ * Sums the stats of several queues (averages are weighted by the served count)
+ */
+export function combineStats(stats: WaitQueueStats[]): WaitQueueStats {
+    const served = stats.reduce((sum, s) => sum + s.served, 0)
+    return {
+        depth: stats.reduce((sum, s) => sum + s.depth, 0),
+        oldestWaitMs: stats.reduce((max, s) => Math.max(max, s.oldestWaitMs), 0),
+        served,
+        timedOut: stats.reduce((sum, s) => sum + s.timedOut, 0),
+        cancelled: stats.reduce((sum, s) => sum + s.cancelled, 0),
+        avgWaitMs: served > 0 ? Math.round(stats.reduce((sum, s) => sum + s.avgWaitMs * s.served, 0) / served) : 0,
+        maxWaitMs: stats.reduce((max, s) => Math.max(max, s.maxWaitMs), 0)
+    }
+}
+
+type Waiter<T, C> = {
+    id: string
+    context: C
+    priority: number
+    enqueuedAt: number
+    resolve: (value: T) => void
+    reject: (error: Error) => void
+    cleanup: () => void
+}
+
+/**
+ * Priority queue of pending requests, each one resolved with the next available item
+ * C is the per-request data `serve` needs to produce the item (e.g. the lease time)
+ */
+export default class WaitQueue<T, C = undefined> {
+    private _waiters: Waiter<T, C>[] = []
+    private _served: number = 0
+    private _timedOut: number = 0
+    private _cancelled: number = 0
+    private _totalWaitMs: number = 0
+    private _maxWaitMs: number = 0
+
+    public get size(): number {
+        return this._waiters.length
+    }
+
+    /**
+     * Resolves when `serve` hands an item to this waiter,
+     * rejects with WaitTimeoutError after `timeoutMs` or WaitCancelledError on abort
+     */
+    public wait(options: WaitOptions, context: C): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                this._cancelled++
+                return reject(new WaitCancelledError("aborted"))
+            }
+
+            const waiter: Waiter<T, C> = {
+                id: randomUUID(),
+                context,
+                priority: options.priority || 0,
+                enqueuedAt: Date.now(),
+                resolve,
+                reject,
+                cleanup: () => {}
+            }
+
+            const timer = setTimeout(() => {
+                if (this.remove(waiter.id)) {
+                    this._timedOut++
+                    reject(new WaitTimeoutError(Date.now() - waiter.enqueuedAt))
+                }
+            }, options.timeoutMs)
+
+            const onAbort = () => {
+                if (this.remove(waiter.id)) {
+                    this._cancelled++
+                    reject(new WaitCancelledError("aborted"))
+                }
+            }
+            options.signal?.addEventListener("abort", onAbort, { once: true })
+
+            waiter.cleanup = () => {
+                clearTimeout(timer)
+                options.signal?.removeEventListener("abort", onAbort)
+            }
+
+            // Insert after every waiter with the same or a higher priority
+            const position = this._waiters.findIndex((w) => w.priority < waiter.priority)
+            if (position === -1) {
+                this._waiters.push(waiter)
+            } else {
+                this._waiters.splice(position, 0, waiter)
+            }
+        })
+    }
+
+    /**
+     * Hands items to the waiters in order while `next` returns one
+     * @param next returns the item for the head of the queue or undefined when none is available
+     */
+    public serve(next: (context: C) => T | undefined): number {
+        let served = 0
+        while (this._waiters.length > 0) {
+            const item = next(this._waiters[0].context)
+            if (item === undefined) {
+                break
+            }
+
+            const waiter = this._waiters.shift() as Waiter<T, C>
+            waiter.cleanup()
+
+            const waitedMs = Date.now() - waiter.enqueuedAt
+            this._served++
+            this._totalWaitMs += waitedMs
+            this._maxWaitMs = Math.max(this._maxWaitMs, waitedMs)
+            waiter.resolve(item)
+            served++
+        }
+
+        return served
+    }
+
+    /**
+     * Rejects every pending waiter (e.g. on shutdown)
+     */
+    public cancelAll(reason: string): void {
+        const waiters = this._waiters
+        this._waiters = []
+        for (const waiter of waiters) {
+            waiter.cleanup()
+            this._cancelled++
+            waiter.reject(new WaitCancelledError(reason))
+        }
+    }
+
+    public getStats(): WaitQueueStats {
+        const oldest = this._waiters.reduce((min, w) => Math.min(min, w.enqueuedAt), Infinity)
+        return {
+            depth: this._waiters.length,
+            oldestWaitMs: oldest === Infinity ? 0 : Date.now() - oldest,
+            served: this._served,
+            timedOut: this._timedOut,
+            cancelled: this._cancelled,
+            avgWaitMs: this._served > 0 ? Math.round(this._totalWaitMs / this._served) : 0,
+            maxWaitMs: this._maxWaitMs
+        }
+    }
+
+    private remove(id: string): boolean {
+        const index = this._waiters.findIndex((w) => w.id === id)
+        if (index === -1) {
+            return false
+        }
+
+        const [waiter] = this._waiters.splice(index, 1)
+        waiter.cleanup()
+        return true
+    }
+}
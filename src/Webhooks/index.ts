@@ -0,0 +1,356 @@
+import axios from "axios"
+import { createHmac, randomUUID } from "crypto"
+import { readFileSync } from "fs"
+import { Logger } from "pino"
+import { z } from "zod"
+import { webhookDeliveriesTotal } from "../Metrics"
+import { LifecycleEvent } from "../Events"
+import MemoryDeliveryStore from "./memory"
+import RedisDeliveryStore from "./redis"
+import { DeliveryStatus, DeliveryStore, DeliveryStoreKind, WebhookDelivery } from "./types"
+
+export * from "./types"
+export { MemoryDeliveryStore, RedisDeliveryStore }
+
+/**
+ * Headers set on every webhook call
+ */
+export const DELIVERY_ID_HEADER = "x-cmgr-delivery-id"
+export const EVENT_HEADER = "x-cmgr-event"
+export const TIMESTAMP_HEADER = "x-cmgr-timestamp"
+// "sha256=<hex hmac of `<timestamp>.<body>`>", only when the client has a secret
+export const SIGNATURE_HEADER = "x-cmgr-signature"
+
+/**
+ * Lease events a client can subscribe its callbackURL to (getBrowser `webhookEvents`)
+ */
+export const LEASE_WEBHOOK_EVENTS = [
+    "lease.granted",
+    "lease.extended",
+    "lease.expiring",
+    "lease.expired",
+    "browser.crashed"
+] as const
+
+export type LeaseWebhookEvent = typeof LEASE_WEBHOOK_EVENTS[number]
+
+// Delivered entries are pruned at most this often
+const PRUNE_INTERVAL = 60 * 60 * 1000
+
+const SecretsFileSchema = z.object({
+    default: z.string().min(16).optional(),
+    clients: z.record(z.string().min(16)).optional()
+})
+
+/**
+ * HMAC secrets, per clientID with an optional fallback
+ */
+export type WebhookSecrets = {
+    default?: string
+    clients: Record<string, string>
+}
+
+export type WebhookConfig = {
+    maxAttempts: number
+    // Delay before the first retry, doubled for every following one (ms)
+    baseDelay: number
+    maxDelay: number
+    // Time a single attempt may take (ms)
+    timeout: number
+    // Time delivered entries stay in the log (ms), dead letters are kept until replayed
+    retention: number
+    secrets: WebhookSecrets
+}
+
+export type DeliveryFilter = {
+    status?: DeliveryStatus
+    clientID?: string
+    limit?: number
+}
+
+export class WebhookReplayError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = "WebhookReplayError"
+    }
+}
+
+export function createDeliveryStore(kind: DeliveryStoreKind, namespace: string): DeliveryStore {
+    switch (kind) {
+        case "redis":
+            return new RedisDeliveryStore(namespace)
+        case "memory":
+            return new MemoryDeliveryStore()
+        default:
+            throw new Error(`Unknown delivery store "${kind}"`)
+    }
+}
+
+/**
+ * Lease webhook sent for a lifecycle event, if any
+ * Crashes only count while the browser is leased, the caller checks that
+ */
+export function toLeaseWebhookEvent(event: LifecycleEvent): LeaseWebhookEvent | undefined {
+    switch (event.type) {
+        case "lease.started":
+            return "lease.granted"
+        case "lease.extended":
+            return "lease.extended"
+        case "lease.expiring":
+            return "lease.expiring"
+        case "lease.freed":
+            return event.data.reason === "expired" ? "lease.expired" : undefined
+        case "browser.crashed":
+            return "browser.crashed"
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Signs a webhook body the way receivers are expected to verify it
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+    return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+/**
+ * Posts webhooks with exponential-backoff retries and keeps a log of every delivery
+ * Deliveries that exhaust their attempts (or get a non-retryable 4xx) become dead letters
+ */
+export default class WebhookDispatcher {
+    private _config: WebhookConfig
+    private _store: DeliveryStore
+    private _logger: Logger
+    private _timers: Record<string, NodeJS.Timeout> = {}
+    private _pruneTimer: NodeJS.Timeout | undefined
+    private _isStopped: boolean = false
+
+    constructor(config: WebhookConfig, logger: Logger, store: DeliveryStore) {
+        this._config = config
+        this._logger = logger
+        this._store = store
+    }
+
+    /**
+     * Reads the per-client secrets from a JSON file:
+     * { "default": "<secret>", "clients": { "<clientID>": "<secret>" } }
+     */
+    public static loadSecrets(defaultSecret?: string, path?: string): WebhookSecrets {
+        if (!path) {
+            return { default: defaultSecret, clients: {} }
+        }
+
+        const file = SecretsFileSchema.parse(JSON.parse(readFileSync(path, "utf-8")))
+        return {
+            default: file.default || defaultSecret,
+            clients: file.clients || {}
+        }
+    }
+
+    /**
+     * Resumes the pending deliveries of the log
+     */
+    public async start(): Promise<void> {
+        this._isStopped = false
+        const pending = (await this._store.listDeliveries()).filter((d) => d.status === "pending")
+        for (const delivery of pending) {
+            this.schedule(delivery.id, Math.max(0, delivery.nextAttemptAt - Date.now()))
+        }
+
+        if (pending.length > 0) {
+            this._logger.info({ pending: pending.length }, 'WEBHOOK_DELIVERIES_RESUMED')
+        }
+
+        this._pruneTimer = setInterval(() => {
+            this.prune().catch((error) => {
+                this._logger.error({ error }, 'ERROR_PRUNING_WEBHOOK_DELIVERIES')
+            })
+        }, Math.min(PRUNE_INTERVAL, this._config.retention))
+    }
+
+    public async stop(): Promise<void> {
+        this._isStopped = true
+        if (this._pruneTimer) {
+            clearInterval(this._pruneTimer)
+            this._pruneTimer = undefined
+        }
+        for (const id in this._timers) {
+            clearTimeout(this._timers[id])
+        }
+        this._timers = {}
+
+        await this._store.close()
+    }
+
+    /**
+     * Logs a delivery and sends it in the background
+     */
+    public async dispatch(event: string, url: string, clientID: string, payload: unknown): Promise<WebhookDelivery> {
+        const now = Date.now()
+        const delivery: WebhookDelivery = {
+            id: randomUUID(),
+            event,
+            url,
+            clientID,
+            payload,
+            status: "pending",
+            attempts: 0,
+            createdAt: now,
+            updatedAt: now,
+            nextAttemptAt: now
+        }
+
+        await this._store.saveDelivery(delivery)
+        this.schedule(delivery.id, 0)
+        return delivery
+    }
+
+    /**
+     * Sends a dead letter again, with a fresh set of attempts and the same idempotency key
+     * @throws WebhookReplayError if the delivery is unknown or not dead
+     */
+    public async replay(id: string): Promise<WebhookDelivery> {
+        const delivery = await this._store.getDelivery(id)
+        if (!delivery) {
+            throw new WebhookReplayError(`Delivery ${id} not found`)
+        }
+        if (delivery.status !== "dead") {
+            throw new WebhookReplayError(`Delivery ${id} is ${delivery.status}, only dead deliveries can be replayed`)
+        }
+
+        delivery.status = "pending"
+        delivery.attempts = 0
+        delivery.nextAttemptAt = Date.now()
+        delivery.updatedAt = Date.now()
+        await this._store.saveDelivery(delivery)
+
+        this._logger.info({ deliveryID: id, event: delivery.event }, 'WEBHOOK_DELIVERY_REPLAYED')
+        this.schedule(id, 0)
+        return delivery
+    }
+
+    public async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+        return this._store.getDelivery(id)
+    }
+
+    /**
+     * Deliveries of the log, newest first
+     */
+    public async listDeliveries(filter: DeliveryFilter = {}): Promise<WebhookDelivery[]> {
+        const deliveries = (await this._store.listDeliveries())
+            .filter((d) => (!filter.status || d.status === filter.status) && (!filter.clientID || d.clientID === filter.clientID))
+            .sort((a, b) => b.createdAt - a.createdAt)
+
+        return filter.limit ? deliveries.slice(0, filter.limit) : deliveries
+    }
+
+    private schedule(id: string, delay: number): void {
+        if (this._isStopped) {
+            return
+        }
+
+        if (this._timers[id]) {
+            clearTimeout(this._timers[id])
+        }
+
+        this._timers[id] = setTimeout(() => {
+            delete this._timers[id]
+            this.attempt(id).catch((error) => {
+                this._logger.error({ deliveryID: id, error }, 'ERROR_SENDING_WEBHOOK')
+            })
+        }, delay)
+    }
+
+    /**
+     * Delay before the retry that follows `attempts` failed attempts
+     */
+    private getBackoff(attempts: number): number {
+        return Math.min(this._config.maxDelay, this._config.baseDelay * Math.pow(2, attempts - 1))
+    }
+
+    private getSecret(clientID: string): string | undefined {
+        return this._config.secrets.clients[clientID] || this._config.secrets.default
+    }
+
+    private async attempt(id: string): Promise<void> {
+        const delivery = await this._store.getDelivery(id)
+        if (!delivery || delivery.status !== "pending") {
+            return
+        }
+
+        const body = JSON.stringify(delivery.payload)
+        const timestamp = Math.floor(Date.now() / 1000)
+        const secret = this.getSecret(delivery.clientID)
+        const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+            "Idempotency-Key": delivery.id,
+            [DELIVERY_ID_HEADER]: delivery.id,
+            [EVENT_HEADER]: delivery.event,
+            [TIMESTAMP_HEADER]: timestamp.toString(),
+            ...(secret ? { [SIGNATURE_HEADER]: signPayload(secret, timestamp, body) } : {})
+        }
+
+        let statusCode: number | undefined
+        let error: string | undefined
+        try {
+            const response = await axios.post(delivery.url, body, {
+                headers,
+                timeout: this._config.timeout,
+                // Every status is handled below
+                validateStatus: () => true
+            })
+            statusCode = response.status
+            if (statusCode < 200 || statusCode >= 300) {
+                error = `Receiver answered ${statusCode}`
+            }
+        } catch (err) {
+            error = err instanceof Error ? err.message : "Unknown Error"
+        }
+
+        delivery.attempts++
+        delivery.updatedAt = Date.now()
+        delivery.lastStatusCode = statusCode
+        delivery.lastError = error
+
+        if (!error) {
+            delivery.status = "delivered"
+            delivery.deliveredAt = Date.now()
+            delivery.nextAttemptAt = -1
+            await this._store.saveDelivery(delivery)
+            webhookDeliveriesTotal.inc({ event: delivery.event, result: "delivered" })
+            this._logger.info({ deliveryID: id, event: delivery.event, attempts: delivery.attempts }, 'WEBHOOK_DELIVERED')
+            return
+        }
+
+        // A 4xx other than timeout / rate limit will not succeed on retry
+        const isPermanent = statusCode !== undefined && statusCode >= 400 && statusCode < 500 && statusCode !== 408 && statusCode !== 429
+        if (isPermanent || delivery.attempts >= this._config.maxAttempts) {
+            delivery.status = "dead"
+            delivery.nextAttemptAt = -1
+            await this._store.saveDelivery(delivery)
+            webhookDeliveriesTotal.inc({ event: delivery.event, result: "dead" })
+            this._logger.error({ deliveryID: id, event: delivery.event, url: delivery.url, attempts: delivery.attempts, error }, 'WEBHOOK_DEAD_LETTERED')
+            return
+        }
+
+        const delay = this.getBackoff(delivery.attempts)
+        delivery.nextAttemptAt = Date.now() + delay
+        await this._store.saveDelivery(delivery)
+        webhookDeliveriesTotal.inc({ event: delivery.event, result: "retry" })
+        this._logger.warn({ deliveryID: id, event: delivery.event, attempts: delivery.attempts, retryIn: delay, error }, 'WEBHOOK_DELIVERY_FAILED')
+        this.schedule(id, delay)
+    }
+
+    /**
+     * Drops delivered entries older than the retention
+     */
+    private async prune(): Promise<void> {
+        const cutoff = Date.now() - this._config.retention
+        for (const delivery of await this._store.listDeliveries()) {
+            if (delivery.status === "delivered" && delivery.updatedAt < cutoff) {
+                await this._store.deleteDelivery(delivery.id)
+            }
+        }
+    }
+}
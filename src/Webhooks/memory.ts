@@ -0,0 +1,28 @@
+import { DeliveryStore, WebhookDelivery } from "./types"
+
+/**
+ * Keeps the delivery log in process memory (lost on restart)
+ */
+export default class MemoryDeliveryStore implements DeliveryStore {
+    public readonly name: string = "memory"
+    private _deliveries: Map<string, WebhookDelivery> = new Map()
+
+    public async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+        this._deliveries.set(delivery.id, structuredClone(delivery))
+    }
+
+    public async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+        const delivery = this._deliveries.get(id)
+        return delivery ? structuredClone(delivery) : undefined
+    }
+
+    public async deleteDelivery(id: string): Promise<void> {
+        this._deliveries.delete(id)
+    }
+
+    public async listDeliveries(): Promise<WebhookDelivery[]> {
+        return [...this._deliveries.values()].map((d) => structuredClone(d))
+    }
+
+    public async close(): Promise<void> {}
+}
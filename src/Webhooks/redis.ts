@@ -0,0 +1,38 @@
+import { createRedisClient, RedisClient } from "../utility/redis"
+import { DeliveryStore, WebhookDelivery } from "./types"
+
+/**
+ * Keeps the delivery log in a Redis hash (`<namespace>:webhooks`, one JSON field per delivery)
+ */
+export default class RedisDeliveryStore implements DeliveryStore {
+    public readonly name: string = "redis"
+    private _redis: RedisClient
+    private _key: string
+
+    constructor(namespace: string, redis: RedisClient = createRedisClient()) {
+        this._redis = redis
+        this._key = `${namespace}:webhooks`
+    }
+
+    public async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+        await this._redis.hset(this._key, delivery.id, JSON.stringify(delivery))
+    }
+
+    public async getDelivery(id: string): Promise<WebhookDelivery | undefined> {
+        const value = await this._redis.hget(this._key, id)
+        return value ? JSON.parse(value) : undefined
+    }
+
+    public async deleteDelivery(id: string): Promise<void> {
+        await this._redis.hdel(this._key, id)
+    }
+
+    public async listDeliveries(): Promise<WebhookDelivery[]> {
+        const values = await this._redis.hvals(this._key)
+        return values.map((value) => JSON.parse(value))
+    }
+
+    public async close(): Promise<void> {
+        await this._redis.quit()
+    }
+}
@@ -0,0 +1,39 @@
+/**
+ * "pending" while attempts remain, "dead" once retries are exhausted or the receiver rejected it for good
+ */
+export type DeliveryStatus = "pending" | "delivered" | "dead"
+
+/**
+ * A single webhook call and the outcome of its attempts
+ */
+export type WebhookDelivery = {
+    // Sent as the idempotency key, stays the same across retries and replays
+    id: string
+    event: string
+    url: string
+    clientID: string
+    payload: unknown
+    status: DeliveryStatus
+    attempts: number
+    createdAt: number
+    updatedAt: number
+    // Time of the next attempt, -1 when none is scheduled
+    nextAttemptAt: number
+    deliveredAt?: number
+    lastStatusCode?: number
+    lastError?: string
+}
+
+/**
+ * Persists the delivery log, so pending retries and dead letters survive a restart
+ */
+export interface DeliveryStore {
+    readonly name: string
+    saveDelivery(delivery: WebhookDelivery): Promise<void>
+    getDelivery(id: string): Promise<WebhookDelivery | undefined>
+    deleteDelivery(id: string): Promise<void>
+    listDeliveries(): Promise<WebhookDelivery[]>
+    close(): Promise<void>
+}
+
+export type DeliveryStoreKind = "memory" | "redis"
@@ -0,0 +1,74 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Limits of a client, 0 = unlimited
+const QuotaLimitsSchema = z.object({
+    maxConcurrentLeases: z.number().int(),
+    maxLeaseMinutes: z.number().int(),
+    launchesPerMinute: z.number().int(),
+})
+
+const ClientUsageSchema = z.object({
+    clientID: z.string(),
+    limits: QuotaLimitsSchema,
+    usage: z.object({
+        concurrentLeases: z.number().int(),
+        // Lease requests holding a slot while they get (or wait for) a browser
+        pendingLeases: z.number().int(),
+        launchesLastMinute: z.number().int(),
+    }),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    clients: z.array(ClientUsageSchema)
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getClients",
+    "list each client's usage against its quotas",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        if(!res.locals.quotas) {
+            throw new RequestError("NOT_FOUND", "Quotas are not enabled")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            clients: await res.locals.quotas.getUsage()
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
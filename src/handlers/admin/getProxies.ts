@@ -0,0 +1,60 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    pool: z.string().optional(),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getProxies",
+    "list the proxy pool with the health of each proxy (credentials are never returned)",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { pool } = QuerySchema.parse(req.query)
+        const proxies = res.locals.browserManager.proxies.getStatus({ pool })
+
+        // Leases currently launched with each proxy
+        const browsers = await res.locals.browserManager.getBrowsers()
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            proxies: proxies.map((proxy) => ({
+                ...proxy,
+                activeLeases: browsers.filter((b) => b.leaseTime !== -1 && b.proxy?.id === proxy.id).length
+            }))
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
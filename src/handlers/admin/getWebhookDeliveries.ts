@@ -0,0 +1,60 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    // "dead" lists the dead letters
+    status: z.enum(["pending", "delivered", "dead"]).optional(),
+    clientID: z.string().optional(),
+    // Defaults to 100
+    limit: z.coerce.number().int().min(1).max(1000).optional(),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getWebhookDeliveries",
+    "list the webhook delivery log, newest first",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const query = QuerySchema.parse(req.query)
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            deliveries: await res.locals.browserManager.webhooks.listDeliveries({
+                ...query,
+                limit: query.limit || 100
+            })
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
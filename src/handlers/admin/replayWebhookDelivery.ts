@@ -0,0 +1,66 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { WebhookReplayError } from "../../Webhooks"
+
+// Request Params
+export const ParamsSchema = z.object({
+    deliveryID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "replayWebhookDelivery",
+    "send a dead-lettered webhook again",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { deliveryID } = ParamsSchema.parse(req.params)
+        const webhooks = res.locals.browserManager.webhooks
+        if(!(await webhooks.getDelivery(deliveryID))) {
+            throw new RequestError("NOT_FOUND", "Delivery not found")
+        }
+
+        try {
+            setSuccessResponse<typeof ResponseSchema>(res, {
+                delivery: await webhooks.replay(deliveryID)
+            })
+        } catch (err) {
+            if(err instanceof WebhookReplayError) {
+                throw new RequestError("CONFLICT", err.message)
+            }
+            throw err
+        }
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
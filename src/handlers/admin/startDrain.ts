@@ -0,0 +1,55 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+    // Logged and reported in the status endpoints
+    reason: z.string().max(200).optional(),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "startDrain",
+    "stop taking new leases, the active leases run until they end (a SIGTERM then shuts down once they did)",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { reason } = BodySchema.parse(req.body || {})
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            drain: res.locals.browserManager.drain(reason || "admin")
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
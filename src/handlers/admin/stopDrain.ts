@@ -0,0 +1,61 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { DrainCancelError } from "../../BrowserManager"
+import { z } from "zod"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "stopDrain",
+    "take new leases again (not once the drain is part of a shutdown)",
+    "admin",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        try {
+            res.locals.browserManager.resume()
+        } catch (err) {
+            if(err instanceof DrainCancelError) {
+                throw new RequestError("CONFLICT", err.message)
+            }
+            throw err
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            drain: res.locals.browserManager.getDrainStatus()
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -1,4 +1,7 @@
 import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { isForwarded, relayToNode } from "../../Cluster/relay"
+import { canAccessClient } from "../../Auth"
+import { endLease } from "../../Leases"
 import { z } from "zod"
 
 // Request Params
@@ -38,22 +41,40 @@ const handler = new Endpoint<
     ) => {
         const { browserID } = BodySchema.parse(req.body)
         const browser = await res.locals.browserManager.getBrowserWithId(browserID)
+
+        // In cluster mode the browser may belong to another node
+        if(!browser && res.locals.cluster && !isForwarded(req, res)) {
+            const owner = await res.locals.cluster.findOwner({ browserID })
+            if(owner) {
+                await relayToNode(req, res, owner, "/freeBrowser")
+                return next()
+            }
+        }
+
         if(!browser) {
             throw new RequestError("NOT_FOUND", "Browser not found")
         }
 
+        // Keys bound to a client may only free that client's browsers
+        if(!canAccessClient(res.locals.principal, browser.clientID)) {
+            throw new RequestError("FORBIDDEN", "Browser belongs to another client")
+        }
+
         // Make sure it is running
         if (browser.leaseTime !== -1) {
             console.log("killing browser", browser.name)
             // Kill the browser
-            await res.locals.browserManager.killBrowser(
-                browser.name,
-                0
-            )
+            await endLease(res, browser)
         }
 
         setSuccessResponse<typeof ResponseSchema>(res, { })
         next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
     }
 ).handler
 
@@ -1,5 +1,7 @@
 import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
 import { z } from "zod"
+import { canAccessClient } from "../../Auth"
+import { toPublicBrowser } from "../../BrowserManager"
 
 // Request Params
 export const ParamsSchema = z.object({
@@ -15,6 +17,8 @@ export const BodySchema = z.object({
 
 // Request Query
 export const QuerySchema = z.object({
+    // "cluster" adds the capacity of every cluster node
+    scope: z.enum(["local", "cluster"]).optional(),
 })
 
 /**
@@ -35,13 +39,29 @@ const handler = new Endpoint<
         res,
         next
     ) => {
+        const { scope } = QuerySchema.parse(req.query)
         const browsers = await res.locals.browserManager.getBrowsers()
+        const pool = res.locals.browserManager.getPoolStatus()
         setSuccessResponse<typeof ResponseSchema>(res, {
-            capacity: process.env.NUM_BROWSERS || 0,
+            capacity: pool.maxBrowsers,
             used: browsers.filter((b)=> b.leaseTime !== -1).length,
+            pool: pool,
+            drain: res.locals.browserManager.getDrainStatus(),
+            // Keys bound to a client only see that client's browsers
             browsers: browsers
+                .filter((b) => canAccessClient(res.locals.principal, b.clientID))
+                .map(toPublicBrowser),
+            ...(scope === "cluster" && res.locals.cluster ? {
+                cluster: await res.locals.cluster.getStatus()
+            } : {})
         })
         next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
     }
 ).handler
 
@@ -1,5 +1,6 @@
 import { Endpoint, TContext, setSuccessResponse, RequestError } from "../../utility/express"
 import { z } from "zod"
+import { canAccessClient } from "../../Auth"
 
 // Request Params
 export const ParamsSchema = z.object({
@@ -39,17 +40,22 @@ const handler = new Endpoint<
             const browsers = await res.locals.browserManager.getBrowsersFromDocker()
             
             // Filter browsers to only include essential information
-            const filteredBrowsers = browsers.map(browser => ({
-                name: browser.name,
-                ports: browser.ports,
-                leaseTime: browser.leaseTime
-            }))
+            const filteredBrowsers = browsers
+                .filter((browser) => canAccessClient(res.locals.principal, browser.clientID))
+                .map(browser => ({
+                    name: browser.name,
+                    pool: browser.pool,
+                    ports: browser.ports,
+                    leaseTime: browser.leaseTime
+                }))
             
             setSuccessResponse<typeof ResponseSchema>(res, {
                 capacity: browsers.length,
                 used: browsers.filter((b)=> b.leaseTime !== -1).length,
                 browsers: filteredBrowsers,
-                source: "docker"
+                source: "docker",
+                queue: res.locals.browserManager.getPoolStatus().queue,
+                drain: res.locals.browserManager.getDrainStatus()
             })
         } catch (error) {
             throw new RequestError(
@@ -59,6 +65,12 @@ const handler = new Endpoint<
             )
         }
         next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
     }
 ).handler
 
@@ -1,7 +1,12 @@
 import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
-import puppeteer from "puppeteer-core"
 import { Browser } from "../../BrowserManager"
-import axios, { isAxiosError } from "axios"
+import { isForwarded, relayToNode } from "../../Cluster/relay"
+import { LEASE_WEBHOOK_EVENTS } from "../../Webhooks"
+import { canAccessClient } from "../../Auth"
+import { getGatewayEndpoint } from "../../Gateway"
+import { directBrowserURL } from "../../utility/browser"
+import { LeasedBrowser, OutOfCapacityError, createLease, renewLease, toQuotaError } from "../../Leases"
+import { ProxyFormatError, parseProxyAuth, parseProxyServer } from "../../Proxies"
 import { z } from "zod"
 
 // Request Params
@@ -10,6 +15,27 @@ export const ParamsSchema = z.object({
 
 // Response Data Body
 export const ResponseSchema = z.object({
+    // CDP websocket through the manager's gateway, carries the lease token
+    wsEndpoint: z.string().optional(),
+    // Direct CDP endpoint and published ports of the browser (only with EXPOSE_BROWSER_PORTS)
+    url: z.string().optional(),
+    id: z.string().optional(),
+    leaseID: z.string().optional(),
+    expiresAt: z.number(),
+    // Only for new leases
+    pool: z.string().optional(),
+    vncPassword: z.string().optional(),
+    // Proxy of the proxy pool the lease was assigned, without its credentials
+    proxy: z.object({
+        id: z.string(),
+        pool: z.string(),
+        server: z.string(),
+        tags: z.record(z.string())
+    }).optional(),
+    appPort: z.number().optional(),
+    wsPort: z.number().optional(),
+    vncPort: z.number().optional(),
+    browserPort: z.number().optional(),
 })
 
 // Request Body
@@ -22,8 +48,12 @@ export const BodySchema = z.object({
     clientID: z.string().optional(),
     callbackURL: z.string().optional(),
     fingerprintID: z.string().optional(),
+    // "[scheme://]host:port", with proxyAuth as "username:password"
     proxyServer: z.string().optional(),
     proxyAuth: z.string().optional(),
+    // Assigns a proxy of the manager's proxy pool instead (all tags must match)
+    proxyPool: z.string().optional(),
+    proxyTags: z.record(z.string()).optional(),
     isDebug: z.boolean().optional(),
     //Deprecated
     viewport: z.object({
@@ -52,12 +82,38 @@ export const BodySchema = z.object({
     }).optional(),
     vncVersion: z.enum(["legacy", "new"]).optional(),
     recordData: z.boolean().optional(),
+    // Pool to lease from, or the image of the pool (the default pool if both are omitted)
+    pool: z.string().optional(),
+    image: z.string().optional(),
+    // Wait up to this long for a browser when the pool is exhausted (instead of failing right away)
+    waitTimeoutMs: z.number().int().min(0).max(10 * 60 * 1000).optional(),
+    // Queued requests with a higher priority are served first
+    priority: z.number().int().min(0).max(100).optional(),
+    // Lease events posted to callbackURL
+    webhookEvents: z.array(z.enum(LEASE_WEBHOOK_EVENTS)).optional(),
+    // Send "lease.expiring" this long before the deadline (defaults to LEASE_EXPIRY_WARNING)
+    expiryWarningSeconds: z.number().int().min(1).max(60 * 60).optional(),
 })
 
 // Request Query
 export const QuerySchema = z.object({
 })
 
+function toDirectAccess(browser: Browser): Partial<z.infer<typeof ResponseSchema>> {
+    const url = directBrowserURL(browser.ports)
+    if (!url) {
+        return {}
+    }
+
+    return {
+        url,
+        appPort: browser.ports.app,
+        wsPort: browser.ports.browser,
+        vncPort: browser.ports.vnc,
+        browserPort: browser.ports.browser
+    }
+}
+
 /**
  * @dev Handler for the endpoint
 */
@@ -77,22 +133,23 @@ const handler = new Endpoint<
         next
     ) => {
         let {
-            browserID, leaseTime, proxyServer, proxyAuth, sessionID, clientID, 
+            browserID, leaseTime, proxyServer, proxyAuth, proxyPool, proxyTags, sessionID, clientID,
             fingerprintID, callbackURL, driver, reportKey, sessionUUID, vncMode, isPasswordProtected,
             numberOfCameras, numberOfMicrophones, numberOfSpeakers, locale, language, timezone, platform, extensions, overrideUserAgent, screen, vncVersion,
-            recordData
+            recordData, waitTimeoutMs, priority, pool, image, webhookEvents, expiryWarningSeconds, isDebug, isExtending
         } = BodySchema.parse(req.body)
 
-        if(!vncVersion) {
-            vncVersion = "legacy"
-        }
-
-        if(!vncMode || (vncMode !== "ro" && vncMode !== "rw")) {
-            vncMode = "ro"
+        if(webhookEvents && webhookEvents.length > 0 && !callbackURL) {
+            throw new RequestError("BAD_REQUEST", "webhookEvents requires a callbackURL")
         }
 
-        if(!isPasswordProtected) {
-            isPasswordProtected = false
+        // Keys bound to a client always lease for that client
+        const principal = res.locals.principal
+        if(principal?.clientID) {
+            if(clientID && clientID !== principal.clientID) {
+                throw new RequestError("FORBIDDEN", "API key is not allowed to lease for this client")
+            }
+            clientID = principal.clientID
         }
 
         // Find the browser
@@ -104,259 +161,108 @@ const handler = new Endpoint<
             browser = await res.locals.browserManager.getBrowserWithSessionId(sessionID)
         }
 
+        if(browser && !canAccessClient(principal, browser.clientID)) {
+            throw new RequestError("FORBIDDEN", "Browser belongs to another client")
+        }
+
+        // In cluster mode the session may be leased on another node
+        if(!browser && res.locals.cluster && !isForwarded(req, res)) {
+            const owner = await res.locals.cluster.findOwner({ browserID, sessionID })
+            if(owner) {
+                await relayToNode(req, res, owner, "/getBrowser")
+                return next()
+            }
+        }
+
         // Check if the browser id exists
         if(!browser) {
-            if(req.body.isExtending){
+            if(isExtending){
                 throw new RequestError("NOT_FOUND", "Browser not found")
             }
 
-            // Create new browser
-            browser = await res.locals.browserManager.reserveBrowser(leaseTime)
-            if(!browser) {
-                throw new RequestError("BAD_REQUEST", "Browser out of capacity")
-            }
-
-            await res.locals.browserManager.setInternals(browser.name, {
-                sessionID: sessionID,
-                clientID: clientID || "",
-                webhook: callbackURL || "",
-                fingerprintID: fingerprintID || "",
-                driver: driver || "",
-                reportKey: reportKey || "",
-                sessionUUID: sessionUUID || ""
-            })
-
-            let created = false
-            let proxy = ["", ""]
-            let vncPassword = ""
-            for (let i = 0; i < parseInt(process.env.CREATE_BROWSER_MAX_TRIES || "15"); i++) {
+            let proxy: { url: string, username?: string, password?: string } | undefined
+            if(proxyServer || proxyAuth) {
+                if(proxyPool || proxyTags) {
+                    throw new RequestError("BAD_REQUEST", "proxyServer cannot be combined with proxyPool or proxyTags")
+                }
+                if(!proxyServer) {
+                    throw new RequestError("BAD_REQUEST", "proxyAuth requires a proxyServer")
+                }
                 try {
-                    if(proxyServer && proxyAuth){
-                        proxy = proxyAuth.split(":")
-                    
-                        // Misconfigured proxy
-                        if(proxy.length < 2) {
-                            proxyServer = undefined
-                        }
-                    }
-
-                    // Launch browser
-                    const requestBody : Record<string, any> = {
-                        leaseTime: leaseTime,
-                        sessionID: sessionID, // Pass sessionID for recording
-                        screen: {
-                            resolution: screen?.resolution || process.env.SCREEN_RESOLUTION || "1280x2400",
-                            depth: screen?.depth || process.env.SCREEN_DEPTH || "24",
-                            dpi: screen?.dpi || process.env.SCREEN_DPI || "96"
-                        },
-                        vnc: {
-                            mode : vncMode,
-                            isPasswordProtected : isPasswordProtected
-                        },
-                        numberOfCameras,
-                        numberOfMicrophones,
-                        numberOfSpeakers,
-                        locale,
-                        language,
-                        timezone,
-                        platform,
-                        extensions,
-                        overrideUserAgent,
-                        vncVersion,
-                        recordData
-                    }
-                    if(req.body.proxyServer){
-                        requestBody["proxy"] = {
-                            url      : req.body.proxyServer,
-                            username : proxy[0],
-                            password : proxy[1]
-                        }
-                    }
-
-                    // Log the browser
-                    const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
-                    let host = process.env.BROWSER_CONNECTION_HOST || 'localhost';
-                    
-                    // If BROWSER_CONNECTION_HOST is empty and we're in manage-only mode, use container name
-                    if (!process.env.BROWSER_CONNECTION_HOST && manageOnly) {
-                        host = browser.name;
-                    }
-                    
-                    const launchUrl = `http://${host}:${browser.ports.app}/action/launch`;
-                    const launchResponse = await axios.post(
-                        launchUrl,
-                        requestBody,
-                        {
-                            headers:{
-                                "Content-Type": "application/json"
-                            }
-                        }
-                    )
-    
-                    if(launchResponse.data) {
-                        vncPassword = launchResponse.data.password
-                    }
-
-                    created = true
-                    break
+                    parseProxyServer(proxyServer)
+                    proxy = { url: proxyServer, ...(proxyAuth ? parseProxyAuth(proxyAuth) : {}) }
                 } catch (err) {
-                    res.log.error(
-                        { 
-                            browserName: browser.name,
-                            error: err instanceof Error ? err.message : "Unknown Error",
-                            stack: err instanceof Error ? err.stack : "Unknown Stack",
-                            data: isAxiosError(err) && err.response ? err.response.data : {},
-                        },
-                        "ERROR_LAUNCHING_BROWSER",
-                    )
+                    if(err instanceof ProxyFormatError) {
+                        throw new RequestError("BAD_REQUEST", err.message)
+                    }
+                    throw err
                 }
-    
-                // sleep
-                await new Promise(resolve => setTimeout(resolve, parseInt(process.env.CREATE_BROWSER_WAIT_TIME || "500")))
-            }
-                    
-            // make sure the command didn't fail, even after all these trials
-            if (!created) {
-                res.log.error(
-                    { browserName: browser.name },
-                    "COULD_NOT_CREATE_BROWSER"
-                )
-            
-                // try to kill the browser, even though it's not created from this
-                // call, since the reason might be that it's already running for
-                // any other unknown reason.
-                await res.locals.browserManager.killBrowser(browser.name)
-                throw new RequestError("UNKNOWN_ERROR", "Couldn't create the browser container")
             }
 
-            // Now the container has been spawned
-            // Try connecting to the browser every second for 15 seconds
-            let connected = false
-            const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
-            let host = process.env.BROWSER_CONNECTION_HOST || 'localhost';
-            
-            // If BROWSER_CONNECTION_HOST is empty and we're in manage-only mode, use container name
-            if (!process.env.BROWSER_CONNECTION_HOST && manageOnly) {
-                host = browser.name;
-            }
-            
-            for (let i = 0; i < parseInt(process.env.TEST_BROWSER_MAX_TRIES || "15"); i++) {
-                try {
-                    // Use browser-node's /system/devtools/version endpoint to get WebSocket URL
-                    // This avoids Chrome's Host header security check
-                    const devtoolsVersionUrl = `http://${host}:${browser.ports.app}/system/devtools/version`
-                    const testResponse = await axios.get(devtoolsVersionUrl, {
-                        timeout: 3000,
-                        validateStatus: (status) => status === 200
-                    })
-                    
-                    const originalWebSocketUrl = testResponse.data?.webSocketDebuggerUrl
-                    if (!originalWebSocketUrl) {
-                        throw new Error("webSocketDebuggerUrl not found in devtoolsVersion response")
+            let leased: LeasedBrowser | undefined
+            try {
+                leased = await createLease(req, res, {
+                    sessionID, leaseTime, clientID, pool, image, waitTimeoutMs, priority,
+                    callbackURL, webhookEvents, expiryWarningSeconds, fingerprintID, driver, reportKey, sessionUUID,
+                    proxyPool, proxyTags,
+                    launch: {
+                        proxy,
+                        vncMode, isPasswordProtected, vncVersion, isDebug, screen,
+                        numberOfCameras, numberOfMicrophones, numberOfSpeakers, locale, language, timezone, platform,
+                        extensions, overrideUserAgent, recordData
                     }
-                    
-                    const wsUrl = new URL(originalWebSocketUrl)
-                    const wsPath = wsUrl.pathname
-                    const webSocketDebuggerUrl = `ws://${host}:${browser.ports.browser}${wsPath}`
-                    
-                    const connection = await puppeteer.connect({ 
-                        browserWSEndpoint: webSocketDebuggerUrl
-                    })
-                    connection.disconnect()
-                    connected = true
-
-                    res.log.info(
-                        { browserName: browser.name },
-                        "CONNECTED_TO_BROWSER"
-                    )
-                    break
-                } catch (err) {
-                    res.log.error(
-                        { 
-                            browserName: browser.name,
-                            error: err instanceof Error ? err.message : "Unknown Error",
-                            attempt: i + 1
-                        },
-                        "COULD_NOT_CONNECT_TO_BROWSER"
-                    )
+                }, "/getBrowser")
+            } catch (err) {
+                if(err instanceof OutOfCapacityError) {
+                    throw new RequestError("BAD_REQUEST", err.message)
                 }
-
-                await new Promise(resolve => setTimeout(resolve, parseInt(process.env.TEST_BROWSER_WAIT_TIME || "1000")))
-            }
-
-             // make sure the connection got established and didn't fail, even after all these trials
-            if (!connected) {
-                // kill the browser that was created here, to allow using it again
-                await res.locals.browserManager.killBrowser(browser.name)
-                throw new RequestError("UNKNOWN_ERROR", "Couldn't test the connection of the browser")
-            }
-
-            await res.locals.browserManager.setVncPassword(browser.name, vncPassword)
-            await res.locals.browserManager.setVncVersion(browser.name, vncVersion)
-            if(req.body.isDebug){
-                await res.locals.browserManager.setDebug(browser.name, req.body.isDebug)
+                throw err
             }
 
-            if(req.body.screen){
-                await res.locals.browserManager.setViewport(browser.name, {
-                    width: parseInt(req.body.screen.resolution.split("x")[0]),
-                    height: parseInt(req.body.screen.resolution.split("x")[1])
-                })
-            } else {
-                await res.locals.browserManager.setDefaultViewport(browser.name)
+            // Relayed to another node
+            if(!leased) {
+                return next()
             }
 
+            browser = leased.browser
             setSuccessResponse<typeof ResponseSchema>(res, {
-                url: `http://${process.env.HOSTIP}:${browser.ports.browser}`,
+                wsEndpoint: getGatewayEndpoint(browser),
                 id: browser.labels?.id,
-                vncPassword: vncPassword,
-                appPort: browser.ports.app,
-                wsPort: browser.ports.browser,
-                vncPort: browser.ports.vnc,
-                browserPort: browser.ports.browser
+                leaseID: browser.leaseID,
+                expiresAt: browser.expiresAt,
+                pool: browser.pool,
+                vncPassword: leased.vncPassword,
+                proxy: browser.proxy,
+                ...toDirectAccess(browser)
             })
             next()
         } else {
-            try {
-                // Extend lease time
-                const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1';
-                let host = process.env.BROWSER_CONNECTION_HOST || 'localhost';
-                
-                // If BROWSER_CONNECTION_HOST is empty and we're in manage-only mode, use container name
-                if (!process.env.BROWSER_CONNECTION_HOST && manageOnly) {
-                    host = browser.name;
+            if(res.locals.quotas) {
+                try {
+                    res.locals.quotas.checkLeaseTime(browser.clientID, leaseTime)
+                } catch (err) {
+                    throw toQuotaError(err)
                 }
-                
-                await axios.post(`http://${host}:${browser.ports.app}/action/lease`, {
-                    leaseTime: leaseTime
-                })
-            } catch (err) {
-                res.log.error(
-                    { 
-                        browserName: browser.name,
-                        error: err instanceof Error ? err.message : "Unknown Error",
-                        stack: err instanceof Error ? err.stack : "Unknown Stack",
-                        data: isAxiosError(err) && err.response ? err.response.data : {},
-                    },
-                    "ERROR_EXTENDING_LEASE_TIME",
-                )
-
-                throw new RequestError("UNKNOWN_ERROR", "Couldn't extend the lease time of the browser")
             }
 
-            // Reset timeout
-            await res.locals.browserManager.resetTimeout(browser.name)
-            await res.locals.browserManager.setTimeout(browser.name, leaseTime)
+            // Extend lease time
+            const expiresAt = await renewLease(res, browser, leaseTime)
             setSuccessResponse<typeof ResponseSchema>(res, {
-                url: `http://${process.env.HOSTIP}:${browser.ports.browser}`,
+                wsEndpoint: getGatewayEndpoint(browser),
                 id: browser.labels?.id,
-                appPort: browser.ports.app,
-                vncPort: browser.ports.vnc,
-                wsPort: browser.ports.browser,
-                browserPort: browser.ports.browser
+                leaseID: browser.leaseID,
+                expiresAt: expiresAt,
+                proxy: browser.proxy,
+                ...toDirectAccess(browser)
             })
             next()
         }
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
     }
 ).handler
 
@@ -0,0 +1,31 @@
+import { Endpoint, TContext, setRawResponse } from "../../utility/express"
+import { DOCS_PAGE } from "../../OpenAPI"
+import { z } from "zod"
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    TContext<unknown>
+>(
+    "getDocs",
+    "API docs page rendered from /openapi.json",
+    "docs",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        setRawResponse(res, DOCS_PAGE, "text/html; charset=utf-8")
+        next()
+    },
+    {
+        contentType: "text/html"
+    }
+).handler
+
+export default handler
@@ -0,0 +1,39 @@
+import { Endpoint, TContext, setRawResponse } from "../../utility/express"
+import { apiRegistry } from "../../OpenAPI"
+import { z } from "zod"
+
+// Bumped with every new versioned router
+const API_VERSION = "2.0.0"
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    TContext<unknown>
+>(
+    "getOpenAPI",
+    "OpenAPI 3 document of every endpoint",
+    "docs",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const document = apiRegistry.generate({
+            title: "CMGR API",
+            version: API_VERSION,
+            description: "Leases browser containers to clients"
+        })
+        setRawResponse(res, JSON.stringify(document), "application/json")
+        next()
+    },
+    {
+        contentType: "application/json"
+    }
+).handler
+
+export default handler
@@ -0,0 +1,112 @@
+import { Endpoint, TContext } from "../../utility/express"
+import { z } from "zod"
+import { EventFilter, LIFECYCLE_EVENT_TYPES, LifecycleEvent } from "../../Events"
+
+// Interval of the comment frames that keep proxies from closing an idle stream (ms)
+const HEARTBEAT_INTERVAL = 15000
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    browserID: z.string().optional(),
+    sessionID: z.string().optional(),
+    clientID: z.string().optional(),
+    // Comma separated list, e.g. "lease.started,lease.freed"
+    types: z.string().optional().transform((types, ctx) => {
+        if (!types) {
+            return undefined
+        }
+
+        const list = types.split(",").map((t) => t.trim()).filter((t) => t.length > 0)
+        for (const type of list) {
+            if (!(LIFECYCLE_EVENT_TYPES as readonly string[]).includes(type)) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown event type "${type}"` })
+                return z.NEVER
+            }
+        }
+
+        return list as EventFilter["types"]
+    }),
+})
+
+function toFrame(event: LifecycleEvent): string {
+    return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getEvents",
+    "stream browser and lease lifecycle events (Server-Sent Events)",
+    "events",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const query = QuerySchema.parse(req.query)
+        const filter: EventFilter = {
+            types: query.types,
+            browserID: query.browserID,
+            sessionID: query.sessionID,
+            // Keys bound to a client only see that client's events
+            clientID: res.locals.principal?.clientID || query.clientID
+        }
+
+        const events = res.locals.browserManager.events
+        res.status(200)
+        res.setHeader("Content-Type", "text/event-stream")
+        res.setHeader("Cache-Control", "no-cache")
+        res.setHeader("Connection", "keep-alive")
+        res.setHeader("X-Accel-Buffering", "no")
+        res.flushHeaders()
+
+        // Resume after a reconnect, as far as the history goes
+        const lastEventID = parseInt(req.header("Last-Event-ID") || "", 10)
+        if (!isNaN(lastEventID)) {
+            for (const event of events.replay(filter, lastEventID)) {
+                res.write(toFrame(event))
+            }
+        }
+
+        const unsubscribe = events.subscribe(filter, (event) => {
+            res.write(toFrame(event))
+        })
+        const heartbeat = setInterval(() => {
+            res.write(": heartbeat\n\n")
+        }, HEARTBEAT_INTERVAL)
+
+        res.on("close", () => {
+            clearInterval(heartbeat)
+            unsubscribe()
+        })
+
+        // The stream stays open until the client goes away, so the responder is not called
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        contentType: "text/event-stream"
+    }
+).handler
+
+export default handler
@@ -0,0 +1,39 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    status: z.string(),
+    uptime: z.number()
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    z.AnyZodObject,
+    typeof ResponseSchema,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    TContext<unknown>
+>(
+    "healthz",
+    "liveness probe, the process is serving requests",
+    "health",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            status: "ok",
+            uptime: Math.round(process.uptime())
+        })
+        next()
+    },
+    {
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
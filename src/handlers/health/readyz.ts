@@ -0,0 +1,53 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    z.AnyZodObject,
+    typeof ResponseSchema,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    TContext<unknown>
+>(
+    "readyz",
+    "readiness probe, the pools can serve leases",
+    "health",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        // Load balancers stop sending leases to a draining instance
+        const drain = res.locals.browserManager.getDrainStatus()
+        if(drain.draining) {
+            throw new RequestError("SERVICE_UNAVAILABLE", "Draining, no new leases are taken", drain)
+        }
+
+        if(!res.locals.healthChecker) {
+            setSuccessResponse<typeof ResponseSchema>(res, {
+                status: "ok",
+                pools: res.locals.browserManager.getPoolStatus().pools
+            })
+            return next()
+        }
+
+        const report = res.locals.healthChecker.getReport()
+        if(report.status === "unavailable") {
+            throw new RequestError("SERVICE_UNAVAILABLE", "No pool can serve a lease", report)
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, report)
+        next()
+    },
+    {
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
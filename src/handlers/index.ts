@@ -28,6 +28,9 @@ const handler = new Endpoint<
             message: "CMGR is running"
         })
         next()
+    },
+    {
+        response: ResponseSchema
     }
 ).handler
 
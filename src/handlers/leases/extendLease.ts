@@ -0,0 +1,79 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { findLease, renewLease, toQuotaError } from "../../Leases"
+
+// Request Params
+export const ParamsSchema = z.object({
+    leaseID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    leaseID: z.string(),
+    id: z.string().optional(),
+    leaseTime: z.number(),
+    expiresAt: z.number(),
+})
+
+// Request Body
+export const BodySchema = z.object({
+    // Minutes from now
+    leaseTime: z.number().min(1).max(60),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "extendLease",
+    "move the deadline of a lease",
+    "leases",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { leaseID } = ParamsSchema.parse(req.params)
+        const { leaseTime } = BodySchema.parse(req.body)
+
+        const browser = await findLease(req, res, leaseID, `/leases/${leaseID}/extend`)
+        if(!browser) {
+            return next()
+        }
+
+        if(res.locals.quotas) {
+            try {
+                res.locals.quotas.checkLeaseTime(browser.clientID, leaseTime)
+            } catch (err) {
+                throw toQuotaError(err)
+            }
+        }
+
+        const expiresAt = await renewLease(res, browser, leaseTime)
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            leaseID: leaseID,
+            id: browser.labels?.id,
+            leaseTime: leaseTime,
+            expiresAt: expiresAt
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,65 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { findLease, renewLease } from "../../Leases"
+
+// Request Params
+export const ParamsSchema = z.object({
+    leaseID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    leaseID: z.string(),
+    expiresAt: z.number(),
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "heartbeatLease",
+    "keep a lease alive for another lease time",
+    "leases",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { leaseID } = ParamsSchema.parse(req.params)
+
+        const browser = await findLease(req, res, leaseID, `/leases/${leaseID}/heartbeat`)
+        if(!browser) {
+            return next()
+        }
+
+        // Pushes the deadline by the lease time the browser was leased for
+        const expiresAt = await renewLease(res, browser, browser.leaseTime)
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            leaseID: leaseID,
+            expiresAt: expiresAt
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,31 @@
+import { Endpoint, TContext, setRawResponse } from "../../utility/express"
+import { registry } from "../../Metrics"
+import { z } from "zod"
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    z.AnyZodObject,
+    TContext<unknown>
+>(
+    "getMetrics",
+    "pool, lease and launch metrics in the Prometheus text format",
+    "metrics",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        setRawResponse(res, await registry.metrics(), registry.contentType)
+        next()
+    },
+    {
+        contentType: "text/plain"
+    }
+).handler
+
+export default handler
@@ -0,0 +1,204 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { LEASE_WEBHOOK_EVENTS } from "../../Webhooks"
+import { OutOfCapacityError, createLease } from "../../Leases"
+import { ProxyFormatError, parseProxyServer } from "../../Proxies"
+import { getGatewayEndpoint } from "../../Gateway"
+import { LeaseSchema, toLeaseView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    lease: LeaseSchema.extend({
+        vncPassword: z.string()
+    })
+})
+
+// Request Body
+export const BodySchema = z.object({
+    sessionID: z.string().min(1),
+    // Minutes
+    leaseTime: z.number().min(1).max(60),
+    clientID: z.string().optional(),
+    // Pool to lease from, or the image of the pool (the default pool if both are omitted)
+    pool: z.string().optional(),
+    image: z.string().optional(),
+    // Wait for a browser when the pool is exhausted, instead of answering 503
+    wait: z.object({
+        timeoutMs: z.number().int().min(1).max(10 * 60 * 1000),
+        priority: z.number().int().min(0).max(100).optional()
+    }).optional(),
+    callback: z.object({
+        url: z.string().url(),
+        events: z.array(z.enum(LEASE_WEBHOOK_EVENTS)).optional(),
+        expiryWarningSeconds: z.number().int().min(1).max(60 * 60).optional(),
+        reportKey: z.string().optional(),
+        sessionUUID: z.string().optional()
+    }).optional(),
+    fingerprintID: z.string().optional(),
+    driver: z.string().optional(),
+    launch: z.object({
+        // "[scheme://]host:port"
+        proxy: z.object({
+            url: z.string(),
+            username: z.string().optional(),
+            password: z.string().optional()
+        }).optional(),
+        // Assigns a proxy of the manager's proxy pool instead (all tags must match)
+        proxyPool: z.string().optional(),
+        proxyTags: z.record(z.string()).optional(),
+        vnc: z.object({
+            mode: z.enum(["ro", "rw"]).optional(),
+            isPasswordProtected: z.boolean().optional(),
+            version: z.enum(["legacy", "new"]).optional()
+        }).optional(),
+        screen: z.object({
+            resolution: z.enum(["1280x1024", "1920x1080", "1366x768", "1536x864", "1280x720", "1440x900", "1280x2400"]),
+            depth: z.string(),
+            dpi: z.string()
+        }).optional(),
+        devices: z.object({
+            cameras: z.number().min(1).max(4).optional(),
+            microphones: z.number().min(1).max(4).optional(),
+            speakers: z.number().min(1).max(4).optional()
+        }).optional(),
+        locale: z.string().optional(),
+        language: z.string().optional(),
+        timezone: z.string().optional(),
+        platform: z.enum(["win32", "linux", "darwin"]).optional(),
+        extensions: z.array(z.string()).optional(),
+        userAgent: z.string().optional(),
+        recordData: z.boolean().optional(),
+        isDebug: z.boolean().optional()
+    }).optional(),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "createLease",
+    "lease and launch a browser",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const body = BodySchema.parse(req.body)
+
+        // Keys bound to a client always lease for that client
+        let clientID = body.clientID
+        const principal = res.locals.principal
+        if(principal?.clientID) {
+            if(clientID && clientID !== principal.clientID) {
+                throw new RequestError("FORBIDDEN", "API key is not allowed to lease for this client")
+            }
+            clientID = principal.clientID
+        }
+
+        // Sessions are unique, extend the existing lease instead
+        if(await res.locals.browserManager.getBrowserWithSessionId(body.sessionID)) {
+            throw new RequestError("CONFLICT", `Session ${body.sessionID} already has a lease`)
+        }
+
+        const launch = body.launch || {}
+        if(launch.proxy) {
+            if(launch.proxyPool || launch.proxyTags) {
+                throw new RequestError("BAD_REQUEST", "launch.proxy cannot be combined with launch.proxyPool or launch.proxyTags")
+            }
+            try {
+                parseProxyServer(launch.proxy.url)
+            } catch (err) {
+                if(err instanceof ProxyFormatError) {
+                    throw new RequestError("BAD_REQUEST", err.message)
+                }
+                throw err
+            }
+        }
+
+        let leased
+        try {
+            leased = await createLease(req, res, {
+                sessionID: body.sessionID,
+                leaseTime: body.leaseTime,
+                clientID: clientID,
+                pool: body.pool,
+                image: body.image,
+                waitTimeoutMs: body.wait?.timeoutMs,
+                priority: body.wait?.priority,
+                callbackURL: body.callback?.url,
+                webhookEvents: body.callback?.events,
+                expiryWarningSeconds: body.callback?.expiryWarningSeconds,
+                reportKey: body.callback?.reportKey,
+                sessionUUID: body.callback?.sessionUUID,
+                fingerprintID: body.fingerprintID,
+                driver: body.driver,
+                proxyPool: launch.proxyPool,
+                proxyTags: launch.proxyTags,
+                launch: {
+                    proxy: launch.proxy,
+                    vncMode: launch.vnc?.mode,
+                    isPasswordProtected: launch.vnc?.isPasswordProtected,
+                    vncVersion: launch.vnc?.version,
+                    screen: launch.screen,
+                    numberOfCameras: launch.devices?.cameras,
+                    numberOfMicrophones: launch.devices?.microphones,
+                    numberOfSpeakers: launch.devices?.speakers,
+                    locale: launch.locale,
+                    language: launch.language,
+                    timezone: launch.timezone,
+                    platform: launch.platform,
+                    extensions: launch.extensions,
+                    overrideUserAgent: launch.userAgent,
+                    recordData: launch.recordData,
+                    isDebug: launch.isDebug
+                }
+            }, "/v2/leases")
+        } catch (err) {
+            if(err instanceof OutOfCapacityError) {
+                throw new RequestError("SERVICE_UNAVAILABLE", err.message, { pool: err.pool })
+            }
+            throw err
+        }
+
+        // Relayed to another node (its status is passed through)
+        if(!leased) {
+            return next()
+        }
+
+        res.locals.isNewResource = true
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            lease: {
+                ...toLeaseView(leased.browser),
+                // The lease secrets are only handed out here
+                wsEndpoint: getGatewayEndpoint(leased.browser),
+                vncPassword: leased.vncPassword
+            }
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema,
+        status: 201
+    }
+).handler
+
+export default handler
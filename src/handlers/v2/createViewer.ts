@@ -0,0 +1,89 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { findLease } from "../../Leases"
+import { VIEWER_MODES, ViewerTokenError } from "../../VncProxy"
+
+// Request Params
+export const ParamsSchema = z.object({
+    id: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    viewer: z.object({
+        // Websocket URL for noVNC, carries the token
+        url: z.string(),
+        token: z.string(),
+        mode: z.enum(VIEWER_MODES),
+        expiresAt: z.number(),
+        // Asked by the VNC server once connected
+        vncPassword: z.string().optional()
+    })
+})
+
+// Request Body
+export const BodySchema = z.object({
+    // Defaults to the lease's vncMode, "rw" needs a lease launched with vncMode "rw"
+    mode: z.enum(VIEWER_MODES).optional(),
+    // Time the viewer has to connect, an open connection lasts until the lease ends
+    ttlSeconds: z.number().int().min(10).max(3600).optional(),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "createViewer",
+    "issue a VNC viewer token for a lease",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { id } = ParamsSchema.parse(req.params)
+        const { mode, ttlSeconds } = BodySchema.parse(req.body || {})
+
+        if(!res.locals.vncProxy) {
+            throw new RequestError("SERVICE_UNAVAILABLE", "VNC proxy is not running")
+        }
+
+        const browser = await findLease(req, res, id, `/v2/leases/${id}/viewer`)
+        if(!browser) {
+            return next()
+        }
+
+        try {
+            const viewer = res.locals.vncProxy.issueToken(browser, mode, ttlSeconds)
+            res.locals.isNewResource = true
+            setSuccessResponse<typeof ResponseSchema>(res, {
+                viewer: { ...viewer, vncPassword: browser.vncPassword }
+            })
+        } catch (error) {
+            if(error instanceof ViewerTokenError) {
+                throw new RequestError("FORBIDDEN", error.message)
+            }
+            throw error
+        }
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema,
+        status: 201
+    }
+).handler
+
+export default handler
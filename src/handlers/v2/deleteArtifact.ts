@@ -0,0 +1,66 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ArtifactSchema, findArtifacts } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    sessionID: z.string(),
+    sessionUUID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    artifact: ArtifactSchema,
+    deletedAt: z.number()
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "deleteArtifact",
+    "delete the artifacts of a session",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { sessionID, sessionUUID } = ParamsSchema.parse(req.params)
+
+        await findArtifacts(res, sessionID, sessionUUID)
+        const deleted = await res.locals.browserManager.artifacts.delete(sessionID, sessionUUID)
+        // Swept in the meantime
+        if(!deleted) {
+            throw new RequestError("NOT_FOUND", "Artifacts not found")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            artifact: deleted,
+            deletedAt: Date.now()
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,68 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { endLease, findLease } from "../../Leases"
+import { LeaseSchema, toLeaseView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    id: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    lease: LeaseSchema,
+    endedAt: z.number()
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "deleteLease",
+    "end a lease and free its browser",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { id } = ParamsSchema.parse(req.params)
+
+        const browser = await findLease(req, res, id, `/v2/leases/${id}`)
+        if(!browser) {
+            return next()
+        }
+
+        // The view is taken before the kill resets the lease fields
+        const lease = toLeaseView(browser)
+        await endLease(res, browser)
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            lease: lease,
+            endedAt: Date.now()
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,64 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileSchema, findProfile } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    fingerprintID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    profile: ProfileSchema,
+    deletedAt: z.number()
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "deleteProfile",
+    "delete a browser profile with all its versions",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { fingerprintID } = ParamsSchema.parse(req.params)
+
+        await findProfile(res, fingerprintID)
+        const deleted = await res.locals.browserManager.profiles.delete(fingerprintID)
+        if(!deleted) {
+            throw new RequestError("NOT_FOUND", "Profile not found")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            profile: deleted,
+            deletedAt: Date.now()
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,62 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileSchema, findProfile } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    fingerprintID: z.string(),
+    version: z.string().regex(/^[1-9][0-9]*$/, "Expected a version number"),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    // Without versions left, the profile itself is deleted
+    profile: ProfileSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "deleteProfileVersion",
+    "delete one version of a browser profile",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { fingerprintID, version } = ParamsSchema.parse(req.params)
+
+        await findProfile(res, fingerprintID)
+        const profile = await res.locals.browserManager.profiles.deleteVersion(fingerprintID, parseInt(version))
+        if(!profile) {
+            throw new RequestError("NOT_FOUND", "Profile version not found")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, { profile })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,79 @@
+import { Endpoint, RequestError, TContext } from "../../utility/express"
+import { z } from "zod"
+import { createReadStream } from "fs"
+import { basename } from "path"
+import { getContentType } from "../../Artifacts"
+import { findArtifacts } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    sessionID: z.string(),
+    sessionUUID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    // Name of the file, as listed in `files`
+    file: z.string().min(1),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "downloadArtifact",
+    "download a file of the artifacts of a session",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { sessionID, sessionUUID } = ParamsSchema.parse(req.params)
+        const { file } = QuerySchema.parse(req.query)
+
+        const collection = await findArtifacts(res, sessionID, sessionUUID)
+        const filePath = res.locals.browserManager.artifacts.getFilePath(collection, file)
+        if(!filePath) {
+            throw new RequestError("NOT_FOUND", "File not found", { files: collection.files.map((f) => f.name) })
+        }
+
+        // Streamed, so the responder is not called
+        const stream = createReadStream(filePath)
+        stream.once("open", () => {
+            res.status(200)
+            res.setHeader("Content-Type", getContentType(file))
+            res.setHeader("Content-Disposition", `attachment; filename="${basename(file).replace(/"/g, "")}"`)
+            stream.pipe(res)
+        })
+        stream.once("error", (error) => {
+            if(res.headersSent) {
+                return res.destroy(error)
+            }
+            // Deleted since it was listed
+            next(new RequestError("NOT_FOUND", "File not found"))
+        })
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        contentType: "application/octet-stream"
+    }
+).handler
+
+export default handler
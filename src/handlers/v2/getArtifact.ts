@@ -0,0 +1,57 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ArtifactSchema, findArtifacts } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    sessionID: z.string(),
+    sessionUUID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    artifact: ArtifactSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getArtifact",
+    "get the artifacts of a session",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { sessionID, sessionUUID } = ParamsSchema.parse(req.params)
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            artifact: await findArtifacts(res, sessionID, sessionUUID)
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
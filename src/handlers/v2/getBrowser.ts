@@ -0,0 +1,66 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { canAccessClient } from "../../Auth"
+import { BrowserSchema, toBrowserView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    name: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    browser: BrowserSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getBrowser",
+    "get a browser of this node",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { name } = ParamsSchema.parse(req.params)
+
+        const browser = await res.locals.browserManager.getBrowser(name)
+        if(!browser) {
+            throw new RequestError("NOT_FOUND", "Browser not found")
+        }
+
+        if(browser.leaseTime !== -1 && !canAccessClient(res.locals.principal, browser.clientID)) {
+            throw new RequestError("FORBIDDEN", "Browser belongs to another client")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            browser: toBrowserView(browser)
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,62 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { findLease } from "../../Leases"
+import { LeaseSchema, toLeaseView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    id: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    lease: LeaseSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getLease",
+    "get a lease",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { id } = ParamsSchema.parse(req.params)
+
+        const browser = await findLease(req, res, id, `/v2/leases/${id}`)
+        if(!browser) {
+            return next()
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            lease: toLeaseView(browser)
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,56 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileSchema, findProfile } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    fingerprintID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    profile: ProfileSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getProfile",
+    "get a browser profile and its versions",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { fingerprintID } = ParamsSchema.parse(req.params)
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            profile: await findProfile(res, fingerprintID)
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,64 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileSchema, ProfileVersionSchema, findProfile } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    fingerprintID: z.string(),
+    // A version number or "latest"
+    version: z.string().regex(/^(latest|[1-9][0-9]*)$/, "Expected a version number or \"latest\""),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    profile: ProfileSchema,
+    version: ProfileVersionSchema,
+    sessionData: z.string()
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "getProfileVersion",
+    "get the sessionData of a profile version",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { fingerprintID, version } = ParamsSchema.parse(req.params)
+
+        await findProfile(res, fingerprintID)
+        const snapshot = await res.locals.browserManager.profiles.read(fingerprintID, version === "latest" ? undefined : parseInt(version))
+        if(!snapshot) {
+            throw new RequestError("NOT_FOUND", "Profile version not found")
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, snapshot)
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,66 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ArtifactSchema } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    artifacts: z.array(ArtifactSchema)
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    sessionID: z.string().optional(),
+    clientID: z.string().optional(),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "listArtifacts",
+    "list the session artifacts stored on this node",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { sessionID, clientID } = QuerySchema.parse(req.query)
+
+        const artifacts = res.locals.browserManager.artifacts
+        if(!artifacts.enabled) {
+            throw new RequestError("SERVICE_UNAVAILABLE", "Artifact collection is disabled (ARTIFACTS_DIR is not set)")
+        }
+
+        // Keys bound to a client only see that client's artifacts
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            artifacts: await artifacts.list({
+                sessionID,
+                clientID: res.locals.principal?.clientID || clientID
+            })
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,64 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { canAccessClient } from "../../Auth"
+import { BROWSER_STATES, BrowserSchema, getBrowserState, toBrowserView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    browsers: z.array(BrowserSchema)
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    pool: z.string().optional(),
+    state: z.enum(BROWSER_STATES).optional(),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "listBrowsers",
+    "list the browsers of this node",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { pool, state } = QuerySchema.parse(req.query)
+
+        // Keys bound to a client only see idle browsers and their own leases
+        const browsers = (await res.locals.browserManager.getBrowsers())
+            .filter((b) => !pool || b.pool === pool)
+            .filter((b) => !state || getBrowserState(b) === state)
+            .filter((b) => b.leaseTime === -1 || canAccessClient(res.locals.principal, b.clientID))
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            browsers: browsers.map(toBrowserView)
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,59 @@
+import { Endpoint, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileSchema } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    profiles: z.array(ProfileSchema)
+})
+
+// Request Body
+export const BodySchema = z.object({
+})
+
+// Request Query
+export const QuerySchema = z.object({
+    clientID: z.string().optional(),
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "listProfiles",
+    "list the stored browser profiles, most recently updated first",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { clientID } = QuerySchema.parse(req.query)
+
+        // Keys bound to a client only see that client's profiles
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            profiles: await res.locals.browserManager.profiles.list({
+                clientID: res.locals.principal?.clientID || clientID
+            })
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
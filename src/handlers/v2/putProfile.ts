@@ -0,0 +1,73 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { ProfileOwnershipError } from "../../Profiles"
+import { ProfileSchema } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    fingerprintID: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    profile: ProfileSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+    // Injected into the launch request of the next lease with this fingerprintID
+    sessionData: z.string().min(1),
+    // Client of a new profile (keys bound to a client always write for it)
+    clientID: z.string().optional(),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "putProfile",
+    "save sessionData as the new version of a browser profile",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { fingerprintID } = ParamsSchema.parse(req.params)
+        const { sessionData, clientID } = BodySchema.parse(req.body)
+
+        try {
+            const profile = await res.locals.browserManager.profiles.save(fingerprintID, sessionData, {
+                clientID: res.locals.principal?.clientID || clientID,
+                source: "api"
+            })
+            res.locals.isNewResource = true
+            setSuccessResponse<typeof ResponseSchema>(res, { profile })
+        } catch (error) {
+            if(error instanceof ProfileOwnershipError) {
+                throw new RequestError("FORBIDDEN", error.message)
+            }
+            throw error
+        }
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema,
+        status: 201
+    }
+).handler
+
+export default handler
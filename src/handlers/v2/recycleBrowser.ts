@@ -0,0 +1,81 @@
+import { Endpoint, RequestError, TContext, setSuccessResponse } from "../../utility/express"
+import { z } from "zod"
+import { BrowserSchema, toBrowserView } from "./schemas"
+
+// Request Params
+export const ParamsSchema = z.object({
+    name: z.string(),
+})
+
+// Response Data Body
+export const ResponseSchema = z.object({
+    browser: BrowserSchema
+})
+
+// Request Body
+export const BodySchema = z.object({
+    // Recycle a leased browser too, ending its lease
+    force: z.boolean().optional(),
+    reason: z.string().max(200).optional(),
+})
+
+// Request Query
+export const QuerySchema = z.object({
+})
+
+/**
+ * @dev Handler for the endpoint
+*/
+const handler = new Endpoint<
+    typeof ParamsSchema,
+    typeof ResponseSchema,
+    typeof BodySchema,
+    typeof QuerySchema,
+    TContext<typeof ResponseSchema>
+>(
+    "recycleBrowser",
+    "replace the container of a browser",
+    "v2",
+    async (
+        req,
+        res,
+        next
+    ) => {
+        const { name } = ParamsSchema.parse(req.params)
+        const { force, reason } = BodySchema.parse(req.body || {})
+
+        const browser = await res.locals.browserManager.getBrowser(name)
+        if(!browser) {
+            throw new RequestError("NOT_FOUND", "Browser not found")
+        }
+
+        if(browser.isRemoving || browser.isRetiring) {
+            throw new RequestError("CONFLICT", "Browser is already being removed")
+        }
+
+        if(browser.leaseTime !== -1 && !force) {
+            throw new RequestError("CONFLICT", "Browser is leased, set force to recycle it anyway", {
+                leaseID: browser.leaseID
+            })
+        }
+
+        const view = toBrowserView(browser)
+        await res.locals.browserManager.recycleBrowser(name, reason || "requested", "recycled")
+        if(view.lease) {
+            await res.locals.cluster?.release({ sessionID: view.lease.sessionID, browserID: view.browserID, leaseID: view.lease.id })
+        }
+
+        setSuccessResponse<typeof ResponseSchema>(res, {
+            browser: { ...view, state: "removing" }
+        })
+        next()
+    },
+    {
+        params: ParamsSchema,
+        body: BodySchema,
+        query: QuerySchema,
+        response: ResponseSchema
+    }
+).handler
+
+export default handler
@@ -0,0 +1,199 @@
+import { Response } from "express"
+import { z } from "zod"
+import { Browser } from "../../BrowserManager"
+import { ArtifactCollection } from "../../Artifacts"
+import { Profile } from "../../Profiles"
+import { canAccessClient } from "../../Auth"
+import { RequestError, TContext } from "../../utility/express"
+import { directBrowserURL } from "../../utility/browser"
+
+/**
+ * Shared request / response schemas of the v2 API
+ */
+export const BROWSER_STATES = ["starting", "idle", "leased", "unhealthy", "removing", "retiring"] as const
+
+export type BrowserState = typeof BROWSER_STATES[number]
+
+export const PortsSchema = z.object({
+    browser: z.number(),
+    app: z.number(),
+    vnc: z.number()
+})
+
+// Proxy of the proxy pool a lease was assigned, without its credentials
+export const AssignedProxySchema = z.object({
+    id: z.string(),
+    pool: z.string(),
+    // "http://host:port"
+    server: z.string(),
+    tags: z.record(z.string())
+})
+
+export const LeaseSchema = z.object({
+    id: z.string(),
+    browserID: z.string().optional(),
+    browserName: z.string(),
+    pool: z.string(),
+    sessionID: z.string(),
+    clientID: z.string().optional(),
+    // Minutes
+    leaseTime: z.number(),
+    leasedAt: z.number(),
+    expiresAt: z.number(),
+    // CDP websocket through the manager's gateway, carries the lease token (only returned when the lease is created)
+    wsEndpoint: z.string().optional(),
+    // Direct CDP endpoint and published ports of the browser (only with EXPOSE_BROWSER_PORTS)
+    url: z.string().optional(),
+    ports: PortsSchema.optional(),
+    proxy: AssignedProxySchema.optional()
+})
+
+export const BrowserSchema = z.object({
+    name: z.string(),
+    browserID: z.string().optional(),
+    pool: z.string(),
+    state: z.enum(BROWSER_STATES),
+    createdAt: z.number(),
+    idleSince: z.number(),
+    lastUsed: z.number(),
+    ports: PortsSchema,
+    lease: z.object({
+        id: z.string(),
+        sessionID: z.string(),
+        clientID: z.string().optional(),
+        expiresAt: z.number(),
+        proxy: AssignedProxySchema.optional()
+    }).optional()
+})
+
+export const ArtifactSchema = z.object({
+    sessionID: z.string(),
+    // The lease ID when the lease had no sessionUUID
+    sessionUUID: z.string(),
+    leaseID: z.string().optional(),
+    clientID: z.string().optional(),
+    browserName: z.string(),
+    pool: z.string(),
+    collectedAt: z.number(),
+    // Bytes
+    size: z.number(),
+    files: z.array(z.object({
+        name: z.string(),
+        size: z.number()
+    }))
+})
+
+export const ProfileVersionSchema = z.object({
+    version: z.number(),
+    createdAt: z.number(),
+    // Bytes of sessionData
+    size: z.number(),
+    source: z.enum(["session", "api"]),
+    sessionID: z.string().optional(),
+    leaseID: z.string().optional()
+})
+
+export const ProfileSchema = z.object({
+    fingerprintID: z.string(),
+    clientID: z.string().optional(),
+    createdAt: z.number(),
+    updatedAt: z.number(),
+    latestVersion: z.number(),
+    // Oldest first
+    versions: z.array(ProfileVersionSchema)
+})
+
+export function getBrowserState(browser: Browser): BrowserState {
+    if (browser.isRemoving) {
+        return "removing"
+    }
+    if (browser.isRetiring) {
+        return "retiring"
+    }
+    if (browser.isUnhealthy) {
+        return "unhealthy"
+    }
+    if (browser.leaseTime !== -1) {
+        return "leased"
+    }
+    return browser.isUp ? "idle" : "starting"
+}
+
+export function toLeaseView(browser: Browser): z.infer<typeof LeaseSchema> {
+    const url = directBrowserURL(browser.ports)
+    return {
+        id: browser.leaseID as string,
+        browserID: browser.labels?.id,
+        browserName: browser.name,
+        pool: browser.pool,
+        sessionID: browser.sessionID || "",
+        clientID: browser.clientID || undefined,
+        leaseTime: browser.leaseTime,
+        leasedAt: browser.leasedAt as number,
+        expiresAt: browser.expiresAt,
+        url,
+        ports: url ? { ...browser.ports } : undefined,
+        proxy: browser.proxy
+    }
+}
+
+export function toBrowserView(browser: Browser): z.infer<typeof BrowserSchema> {
+    return {
+        name: browser.name,
+        browserID: browser.labels?.id,
+        pool: browser.pool,
+        state: getBrowserState(browser),
+        createdAt: browser.createdAt,
+        idleSince: browser.idleSince,
+        lastUsed: browser.lastUsed,
+        ports: { ...browser.ports },
+        lease: browser.leaseTime !== -1 && browser.leaseID ? {
+            id: browser.leaseID,
+            sessionID: browser.sessionID || "",
+            clientID: browser.clientID || undefined,
+            expiresAt: browser.expiresAt,
+            proxy: browser.proxy
+        } : undefined
+    }
+}
+
+/**
+ * Artifacts of a session, checked against the caller's client
+ * @throws RequestError SERVICE_UNAVAILABLE when ARTIFACTS_DIR is unset, NOT_FOUND, FORBIDDEN
+ */
+export async function findArtifacts(res: Response<any, TContext<any>>, sessionID: string, sessionUUID: string): Promise<ArtifactCollection> {
+    const artifacts = res.locals.browserManager.artifacts
+    if (!artifacts.enabled) {
+        throw new RequestError("SERVICE_UNAVAILABLE", "Artifact collection is disabled (ARTIFACTS_DIR is not set)")
+    }
+
+    const collection = await artifacts.get(sessionID, sessionUUID)
+    if (!collection) {
+        throw new RequestError("NOT_FOUND", "Artifacts not found")
+    }
+
+    // Keys bound to a client may only read that client's artifacts
+    if (!canAccessClient(res.locals.principal, collection.clientID)) {
+        throw new RequestError("FORBIDDEN", "Artifacts belong to another client")
+    }
+
+    return collection
+}
+
+/**
+ * Profile of a fingerprintID, checked against the caller's client
+ * @throws RequestError NOT_FOUND, FORBIDDEN
+ */
+export async function findProfile(res: Response<any, TContext<any>>, fingerprintID: string): Promise<Profile> {
+    const profile = await res.locals.browserManager.profiles.get(fingerprintID)
+    if (!profile) {
+        throw new RequestError("NOT_FOUND", "Profile not found")
+    }
+
+    // Keys bound to a client may only touch that client's profiles
+    if (!canAccessClient(res.locals.principal, profile.clientID)) {
+        throw new RequestError("FORBIDDEN", "Profile belongs to another client")
+    }
+
+    return profile
+}
@@ -5,13 +5,35 @@ import { pinoHttp } from "pino-http"
 import { createServer, Server } from 'node:http'; 
 import pino from 'pino'
 import cors from 'cors'
-import BrowserManager from "./BrowserManager"
+import BrowserManager, { loadPoolsConfig } from "./BrowserManager"
+import PortAllocator from "./PortAllocator"
+import { ContainerRuntimeKind } from "./ContainerRuntime"
+import { StateStoreKind } from "./StateStore"
+import Cluster, { ClusterConfig, ClusterStoreKind } from "./Cluster"
+import { hostname } from "node:os"
+import QuotaManager from "./Quotas"
+import Auth from "./Auth"
+import HealthChecker from "./HealthChecker"
+import { registerPoolMetrics } from "./Metrics"
+import WebhookDispatcher from "./Webhooks"
+import { apiRegistry } from "./OpenAPI"
+import { ProfileBackendKind } from "./Profiles"
+import ProxyPool, { ProxySelection } from "./Proxies"
+import CdpGateway, { GATEWAY_PATH, rejectUpgrade } from "./Gateway"
+import VncProxy, { VNC_PATH } from "./VncProxy"
+import { randomBytes } from "node:crypto"
 
 // Routes
 import DefaultRoutesHandler from "./routes"
+import V2RoutesHandler from "./routes/v2"
 
 let httpServer: Server | undefined
 let browserManager: BrowserManager | undefined
+let cluster: Cluster | undefined
+let quotas: QuotaManager | undefined
+let healthChecker: HealthChecker | undefined
+let gateway: CdpGateway | undefined
+let vncProxy: VncProxy | undefined
 
 export async function main(
     deployment: string, 
@@ -28,6 +50,14 @@ export async function main(
         // Browser Defaults
         BROWSER_IMAGE_NAME: "ghcr.io/ajent-foundation/browser-node:latest-brave",
         NUM_BROWSERS: "4",
+        MIN_BROWSERS: process.env.NUM_BROWSERS || "4",
+        MAX_BROWSERS: process.env.NUM_BROWSERS || "4",
+        TARGET_IDLE: "1",
+        DEFAULT_POOL_NAME: "default",
+        SCALE_DOWN_COOLDOWN: "300000",
+        SCALE_CHECK_INTERVAL: "10000",
+        LEASE_EXPIRY_WARNING: "60000",
+        LEASE_MAX_LIFETIME_MINUTES: "0",
         HOSTIP: "0.0.0.0",
         BASE_BROWSER_PORT: "10222",
         BASE_BROWSER_APP_PORT: "7070",
@@ -41,11 +71,97 @@ export async function main(
         TEST_BROWSER_MAX_TRIES: "15",
         KILL_WAIT_TIME: "2 * 1000",
         KILL_MAX_TRIES: "10",
+        PORT_BIND_CHECK: "true",
+        // Clients connect through the gateway, the browser ports are only published on loopback
+        EXPOSE_BROWSER_PORTS: "false",
+        CONTAINER_RUNTIME: "docker",
+        STATE_STORE: "memory",
+        PRESERVE_CONTAINERS_ON_SHUTDOWN: "true",
+        // Time active leases get to end after a SIGTERM before the containers are stopped (s, 0 = stop right away)
+        SHUTDOWN_GRACE_PERIOD: "300",
+
+        // Cluster Defaults
+        CLUSTER_ENABLED: "false",
+        CLUSTER_NODE_ID: hostname(),
+        CLUSTER_NAMESPACE: "cmgr:cluster",
+        CLUSTER_STORE: "redis",
+        CLUSTER_HEARTBEAT_INTERVAL: "5000",
+        CLUSTER_ROUTING: "forward",
+
+        // Quota Defaults (0 = unlimited), QUOTAS_CONFIG_PATH adds per-client overrides
+        QUOTA_MAX_CONCURRENT_LEASES: "0",
+        QUOTA_MAX_LEASE_MINUTES: "0",
+        QUOTA_LAUNCHES_PER_MINUTE: "0",
+
+        // Health Check Defaults
+        HEALTH_CHECK_ENABLED: "true",
+        HEALTH_CHECK_INTERVAL: "30000",
+        HEALTH_CHECK_TIMEOUT: "5000",
+        HEALTH_CHECK_FAILURE_THRESHOLD: "3",
+
+        // Webhook Defaults (signed with WEBHOOK_SECRET, WEBHOOK_SECRETS_PATH adds per-client secrets)
+        WEBHOOK_MAX_ATTEMPTS: "8",
+        WEBHOOK_RETRY_BASE_DELAY: "1000",
+        WEBHOOK_RETRY_MAX_DELAY: "300000",
+        WEBHOOK_TIMEOUT: "10000",
+        WEBHOOK_RETENTION: "86400000",
+
+        // Security Defaults (auth is enabled by setting AUTH_CONFIG_PATH)
+        CORS_ORIGIN: "*",
+
+        // CDP Gateway Defaults
+        GATEWAY_CONNECT_TIMEOUT: "10000",
+
+        // VNC Proxy Defaults (tokens are signed with VNC_TOKEN_SECRET, a random secret when unset)
+        VNC_TOKEN_TTL: "300",
+        VNC_CONNECT_TIMEOUT: "10000",
+
+        // Artifact Defaults (collection is enabled by setting ARTIFACTS_DIR)
+        ARTIFACTS_CONTAINER_PATH: "/home/user/artifacts",
+        ARTIFACTS_MAX_AGE: "604800000",
+        ARTIFACTS_MAX_TOTAL_MB: "10240",
+        ARTIFACTS_COLLECT_TIMEOUT: "30000",
+        ARTIFACTS_MAX_COLLECT_MB: "1024",
+
+        // Profile Defaults (sessionData per fingerprintID)
+        PROFILE_STORE: "filesystem",
+        PROFILE_DIR: "./data/profiles",
+        PROFILE_MAX_VERSIONS: "5",
+
+        // Proxy Pool Defaults (the inventory is read from PROXY_CONFIG_PATH)
+        PROXY_SELECTION: "sticky",
+        PROXY_CHECK_INTERVAL: "60000",
+        PROXY_CHECK_TIMEOUT: "5000",
+        PROXY_FAILURE_THRESHOLD: "3",
+        PROXY_LAUNCH_RETRY_AFTER: "300000",
+    })
+
+    // Nodes of a cluster share the state store, keep their browsers apart
+    const isClusterEnabled = process.env.CLUSTER_ENABLED === 'true'
+    setDefaults({
+        CLUSTER_ADVERTISE_URL: `http://${process.env.CLUSTER_NODE_ID}:${process.env.EXPRESS_PORT}`,
+        GATEWAY_PUBLIC_URL: `ws://${process.env.HOSTIP}:${process.env.EXPRESS_PORT}`,
+        PORT_BIND_HOST: process.env.EXPOSE_BROWSER_PORTS === 'true' ? "0.0.0.0" : "127.0.0.1",
+        STATE_STORE_NAMESPACE: isClusterEnabled ?
+            `cmgr:${process.env.CLUSTER_NODE_ID}:${process.env.CONTAINER_PREFIX}` :
+            `cmgr:${process.env.CONTAINER_PREFIX}`,
+    })
+
+    // Port ranges default to 100 ports from each base port
+    setDefaults({
+        BROWSER_PORT_RANGE: `${process.env.BASE_BROWSER_PORT}-${parseInt(process.env.BASE_BROWSER_PORT as string) + 99}`,
+        BROWSER_APP_PORT_RANGE: `${process.env.BASE_BROWSER_APP_PORT}-${parseInt(process.env.BASE_BROWSER_APP_PORT as string) + 99}`,
+        BROWSER_VNC_PORT_RANGE: `${process.env.BASE_BROWSER_VNC_PORT}-${parseInt(process.env.BASE_BROWSER_VNC_PORT as string) + 99}`,
     })
 
     // III -  Init Logger
     const Logger = pino({
         level: 'info',
+        // Credentials are never logged
+        redact: [
+            'headers.authorization', 'headers["x-api-key"]',
+            'req.headers.authorization', 'req.headers["x-api-key"]'
+        ],
     }, pino.multistream([
         { stream: process.stdout },
         ...(logPath ? [
@@ -57,13 +173,30 @@ export async function main(
         ] : [])
     ]))
 
+    // IV- Load the pools (POOLS_CONFIG_PATH, or a single pool from the BROWSER_IMAGE_NAME settings)
+    const { pools, defaultPool } = loadPoolsConfig({
+        name: process.env.DEFAULT_POOL_NAME as string,
+        image: process.env.BROWSER_IMAGE_NAME as string,
+        minBrowsers: parseInt(process.env.MIN_BROWSERS as string),
+        maxBrowsers: parseInt(process.env.MAX_BROWSERS as string),
+        targetIdle: parseInt(process.env.TARGET_IDLE as string)
+    }, process.env.POOLS_CONFIG_PATH)
+
     // V- Init Browser Manager
     browserManager = BrowserManager.getInstance({
-        browserImageName: process.env.BROWSER_IMAGE_NAME as string,
-        numBrowsers: parseInt(process.env.NUM_BROWSERS as string),
-        baseBrowserPort: parseInt(process.env.BASE_BROWSER_PORT as string),
-        baseBrowserAppPort: parseInt(process.env.BASE_BROWSER_APP_PORT as string),
-        baseBrowserVncPort: parseInt(process.env.BASE_BROWSER_VNC_PORT as string),
+        pools,
+        defaultPool,
+        scaleDownCooldown: parseInt(process.env.SCALE_DOWN_COOLDOWN as string),
+        scaleCheckInterval: parseInt(process.env.SCALE_CHECK_INTERVAL as string),
+        leaseExpiryWarning: parseInt(process.env.LEASE_EXPIRY_WARNING as string),
+        maxLeaseLifetime: parseInt(process.env.LEASE_MAX_LIFETIME_MINUTES as string) * 60000,
+        portRanges: {
+            browser: PortAllocator.parseRange(process.env.BROWSER_PORT_RANGE as string),
+            app: PortAllocator.parseRange(process.env.BROWSER_APP_PORT_RANGE as string),
+            vnc: PortAllocator.parseRange(process.env.BROWSER_VNC_PORT_RANGE as string)
+        },
+        portBindHost: process.env.PORT_BIND_HOST as string,
+        portBindCheck: process.env.PORT_BIND_CHECK !== 'false',
         browserPrefix: process.env.CONTAINER_PREFIX as string,
         launchArgs: {},
         maxRetries: parseInt(process.env.KILL_MAX_TRIES as string),
@@ -72,17 +205,116 @@ export async function main(
             width: parseInt((process.env.SCREEN_RESOLUTION|| "1280x2400").split("x")[0]),
             height: parseInt((process.env.SCREEN_RESOLUTION|| "1280x2400").split("x")[1])
         },
-        additionalDockerArgs: additionalDockerArgs || {}
+        additionalDockerArgs: additionalDockerArgs || {},
+        containerRuntime: process.env.CONTAINER_RUNTIME as ContainerRuntimeKind,
+        stateStore: process.env.STATE_STORE as StateStoreKind,
+        stateStoreNamespace: process.env.STATE_STORE_NAMESPACE as string,
+        webhooks: {
+            maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS as string),
+            baseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY as string),
+            maxDelay: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY as string),
+            timeout: parseInt(process.env.WEBHOOK_TIMEOUT as string),
+            retention: parseInt(process.env.WEBHOOK_RETENTION as string),
+            secrets: WebhookDispatcher.loadSecrets(process.env.WEBHOOK_SECRET, process.env.WEBHOOK_SECRETS_PATH)
+        },
+        artifacts: {
+            dir: process.env.ARTIFACTS_DIR || undefined,
+            containerPath: process.env.ARTIFACTS_CONTAINER_PATH as string,
+            maxAge: parseInt(process.env.ARTIFACTS_MAX_AGE as string),
+            maxTotalSize: parseInt(process.env.ARTIFACTS_MAX_TOTAL_MB as string) * 1024 * 1024,
+            collectTimeout: parseInt(process.env.ARTIFACTS_COLLECT_TIMEOUT as string),
+            maxCollectSize: parseInt(process.env.ARTIFACTS_MAX_COLLECT_MB as string) * 1024 * 1024
+        },
+        profiles: {
+            backend: process.env.PROFILE_STORE as ProfileBackendKind,
+            dir: process.env.PROFILE_DIR as string,
+            maxVersions: Math.max(1, parseInt(process.env.PROFILE_MAX_VERSIONS as string))
+        },
+        proxies: ProxyPool.loadConfig({
+            selection: process.env.PROXY_SELECTION as ProxySelection,
+            checkInterval: parseInt(process.env.PROXY_CHECK_INTERVAL as string),
+            checkTimeout: parseInt(process.env.PROXY_CHECK_TIMEOUT as string),
+            failureThreshold: Math.max(1, parseInt(process.env.PROXY_FAILURE_THRESHOLD as string)),
+            launchRetryAfter: parseInt(process.env.PROXY_LAUNCH_RETRY_AFTER as string)
+        }, process.env.PROXY_CONFIG_PATH)
     }, Logger)
     await browserManager.init(process.env.SHOULD_PULL_IMAGE ? process.env.SHOULD_PULL_IMAGE === 'true' : pullOnStart)
 
-    // VI- Init Express
+    registerPoolMetrics(browserManager)
+
+    // VI- Join the cluster (optional)
+    if(isClusterEnabled) {
+        if(!process.env.CLUSTER_SECRET) {
+            throw new Error("CLUSTER_SECRET is required in cluster mode, set the same secret on every node")
+        }
+        cluster = new Cluster({
+            nodeID: process.env.CLUSTER_NODE_ID as string,
+            url: process.env.CLUSTER_ADVERTISE_URL as string,
+            namespace: process.env.CLUSTER_NAMESPACE as string,
+            store: process.env.CLUSTER_STORE as ClusterStoreKind,
+            heartbeatInterval: parseInt(process.env.CLUSTER_HEARTBEAT_INTERVAL as string),
+            routing: process.env.CLUSTER_ROUTING as ClusterConfig["routing"],
+            secret: process.env.CLUSTER_SECRET
+        }, browserManager, Logger)
+        await cluster.start()
+    }
+
+    // VII- Init Quotas
+    quotas = new QuotaManager(QuotaManager.loadConfig({
+        maxConcurrentLeases: parseInt(process.env.QUOTA_MAX_CONCURRENT_LEASES as string),
+        maxLeaseMinutes: parseInt(process.env.QUOTA_MAX_LEASE_MINUTES as string),
+        launchesPerMinute: parseInt(process.env.QUOTA_LAUNCHES_PER_MINUTE as string)
+    }, process.env.QUOTAS_CONFIG_PATH), browserManager)
+
+    // VIII- Init Auth
+    const auth = process.env.AUTH_CONFIG_PATH ? Auth.fromFile(process.env.AUTH_CONFIG_PATH) : undefined
+    if(!auth) {
+        Logger.warn('AUTH_DISABLED: every route is open, set AUTH_CONFIG_PATH to require API keys')
+    }
+
+    // IX- Init Health Checks
+    if(process.env.HEALTH_CHECK_ENABLED === 'true') {
+        healthChecker = new HealthChecker({
+            interval: parseInt(process.env.HEALTH_CHECK_INTERVAL as string),
+            timeout: parseInt(process.env.HEALTH_CHECK_TIMEOUT as string),
+            failureThreshold: parseInt(process.env.HEALTH_CHECK_FAILURE_THRESHOLD as string)
+        }, browserManager, Logger)
+        healthChecker.start()
+    }
+
+    // X- Init Express
     const EXPRESS_PORT= expressVars.getExpressPort()
     const EXPRESS_APP: Application = express()
     httpServer = createServer(EXPRESS_APP)
 
+    // Websocket connections: CDP on /devtools/:browserID, VNC viewers on /vnc/:browserID
+    const cdpGateway = new CdpGateway({
+        publicURL: process.env.GATEWAY_PUBLIC_URL as string,
+        connectTimeout: parseInt(process.env.GATEWAY_CONNECT_TIMEOUT as string)
+    }, browserManager, Logger)
+    const vncViewerProxy = new VncProxy({
+        tokenSecret: process.env.VNC_TOKEN_SECRET || randomBytes(32).toString("hex"),
+        tokenTTL: parseInt(process.env.VNC_TOKEN_TTL as string),
+        connectTimeout: parseInt(process.env.VNC_CONNECT_TIMEOUT as string)
+    }, browserManager, Logger)
+    cdpGateway.start()
+    vncViewerProxy.start()
+    gateway = cdpGateway
+    vncProxy = vncViewerProxy
+
+    httpServer.on("upgrade", (req, socket, head) => {
+        const path = (req.url || "").split("?")[0]
+        if (path.startsWith(`${GATEWAY_PATH}/`)) {
+            cdpGateway.handleUpgrade(req, socket, head)
+        } else if (path.startsWith(`${VNC_PATH}/`)) {
+            vncViewerProxy.handleUpgrade(req, socket, head)
+        } else {
+            rejectUpgrade(socket, 404)
+        }
+    })
+
     // Core
-    EXPRESS_APP.use(contextInit(browserManager))
+    EXPRESS_APP.use(contextInit(browserManager, cluster, quotas, auth, healthChecker, vncViewerProxy))
 
     // Plugins
     EXPRESS_APP.use(pinoHttp({
@@ -92,7 +324,8 @@ export async function main(
     EXPRESS_APP.use(urlencoded({ extended: true }))
     EXPRESS_APP.use(json())
     EXPRESS_APP.use(cors({
-        origin: '*',
+        // Comma separated list of origins, "*" allows any
+        origin: process.env.CORS_ORIGIN === '*' ? '*' : (process.env.CORS_ORIGIN as string).split(',').map((o) => o.trim()),
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS']
     }))
 
@@ -100,10 +333,16 @@ export async function main(
     EXPRESS_APP.use(preRequest)
 
     // Express-Routes
+    EXPRESS_APP.use(
+        "/v2", 
+        V2RoutesHandler,
+    )
     EXPRESS_APP.use(
         "/", 
         DefaultRoutesHandler,
     )
+    apiRegistry.collect("/v2", V2RoutesHandler)
+    apiRegistry.collect("", DefaultRoutesHandler)
    
     // Global Middlewares (POST)
     EXPRESS_APP.use(notFound)
@@ -130,9 +369,41 @@ export async function main(
     }
 }
 
+/**
+ * Drains before shutting down: no new leases, the active ones get up to `gracePeriod` ms to end
+ * Skipped when the containers outlive the process (they are adopted by the next instance)
+ */
+export async function drainAndShutdown(gracePeriod: number) {
+    const willPreserve = browserManager?.hasPersistentState && process.env.PRESERVE_CONTAINERS_ON_SHUTDOWN !== 'false'
+    if(browserManager && gracePeriod > 0 && !willPreserve) {
+        const deadline = Date.now() + gracePeriod
+        browserManager.drain("shutdown", { deadline, shutdown: true })
+        await browserManager.waitForLeases(deadline)
+    }
+    await shutdown()
+}
+
 export async function shutdown() {
-    if(browserManager) await browserManager.killAllExisting()
+    gateway?.stop()
+    gateway = undefined
+    vncProxy?.stop()
+    vncProxy = undefined
+    healthChecker?.stop()
+    healthChecker = undefined
+    if(cluster) {
+        await cluster.stop()
+    }
+    cluster = undefined
+    if(browserManager) {
+        // With a persistent state store the containers outlive the process and are adopted on the next start
+        if(browserManager.hasPersistentState && process.env.PRESERVE_CONTAINERS_ON_SHUTDOWN !== 'false') {
+            await browserManager.detach()
+        } else {
+            await browserManager.killAllExisting()
+        }
+    }
     browserManager = undefined
+    quotas = undefined
     if(httpServer) httpServer.close()
     httpServer = undefined
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { loadEnv } from "./env"
 import { getArgs } from "./args"
-import { main, shutdown } from "./index"
+import { drainAndShutdown, main, shutdown } from "./index"
 
 if (require.main === module) {
     (async () => {
@@ -24,8 +24,15 @@ if (require.main === module) {
             await shutdown()
             process.exit(0)
         })
+        // Running leases get SHUTDOWN_GRACE_PERIOD to end, later SIGTERMs are ignored
+        let isStopping = false
         process.on("SIGTERM", async () => {
-            await shutdown()
+            if(isStopping) {
+                return
+            }
+            isStopping = true
+            logger.info({ gracePeriod: process.env.SHUTDOWN_GRACE_PERIOD }, "SIGTERM_RECEIVED")
+            await drainAndShutdown(parseInt(process.env.SHUTDOWN_GRACE_PERIOD as string) * 1000)
             process.exit(0)
         })
         process.on("uncaughtException", async(error) => {
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from "express"
+import { RequestError, TContext } from "../utility/express"
+import { AuthError, Scope, hasScope } from "../Auth"
+
+// Authenticates the caller and checks the scope (no-op when auth is disabled)
+export function requireScope(scope: Scope) {
+    // The scope is attached for the OpenAPI document
+    return Object.assign(async function requireScope(req:Request, res:Response<any, TContext<any>>, next:NextFunction) {
+        res.locals.callStack.push("requireScope")
+        if(!res.locals.auth) {
+            return next()
+        }
+
+        try {
+            const apiKey = req.headers["x-api-key"]
+            const principal = res.locals.auth.authenticate(
+                typeof apiKey === "string" ? apiKey : undefined,
+                req.headers.authorization
+            )
+
+            if(!hasScope(principal, scope)) {
+                return next(new RequestError("FORBIDDEN", `Missing scope "${scope}"`))
+            }
+
+            res.locals.principal = principal
+            next()
+        } catch (err) {
+            next(err instanceof AuthError ? new RequestError("UNAUTHORIZED", err.message) : err)
+        }
+    }, { scope })
+}
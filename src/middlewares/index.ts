@@ -3,6 +3,7 @@ import { preRequest, postRequest } from "./logging"
 import { notFound } from "./notFound"
 import { responder } from "./responder"
 import { errHandler } from "./errHandler"
+import { requireScope } from "./auth"
 
 export {
     init,
@@ -11,4 +12,5 @@ export {
     notFound,
     responder,
     errHandler,
+    requireScope,
 }
\ No newline at end of file
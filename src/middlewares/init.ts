@@ -2,9 +2,19 @@ import { Request, Response, NextFunction } from "express"
 import { TContext } from "../utility/express"
 import { randomUUID } from "crypto"
 import BrowserManager from "../BrowserManager"
+import Cluster from "../Cluster"
+import QuotaManager from "../Quotas"
+import Auth from "../Auth"
+import HealthChecker from "../HealthChecker"
+import VncProxy from "../VncProxy"
 
 export function init(
-    browserManager: BrowserManager
+    browserManager: BrowserManager,
+    cluster?: Cluster,
+    quotas?: QuotaManager,
+    auth?: Auth,
+    healthChecker?: HealthChecker,
+    vncProxy?: VncProxy
 ) {
     return async (_:Request, res:Response<unknown, TContext<unknown>>, next:NextFunction) => {
         const context: TContext<unknown> = {
@@ -17,6 +27,11 @@ export function init(
                 "init"
             ],
             browserManager: browserManager,
+            cluster: cluster,
+            quotas: quotas,
+            auth: auth,
+            healthChecker: healthChecker,
+            vncProxy: vncProxy,
             isRedirect: false
         }
         res.locals = context
@@ -5,7 +5,9 @@ export async function responder(_:Request, res:Response<any, TContext<any>>, nex
     res.locals.callStack.push("responder")
 
     if(res.locals.isRedirect){
-        res.redirect(res.locals.data as string)
+        res.redirect(res.locals.redirectStatus || 302, res.locals.data as string)
+    } else if(res.locals.isSuccess && res.locals.rawContentType) {
+        res.status(200).type(res.locals.rawContentType).send(res.locals.data)
     } else {
         respondJSON(res)
     }
@@ -1,15 +1,36 @@
 import { Router } from 'express'
 import setResource from '../middlewares/setResource'
+import { requireScope } from '../middlewares/auth'
 
 // Handlers
 import defHandler from "../handlers"
 import getBrowserHandler from "../handlers/default/getBrowser"
 import freeBrowserHandler from "../handlers/default/freeBrowser"
+import extendLeaseHandler from "../handlers/leases/extendLease"
+import heartbeatLeaseHandler from "../handlers/leases/heartbeatLease"
 import getAllBrowserHandler from "../handlers/default/getAll"
 import getAllFromDockerHandler from "../handlers/default/getAllFromDocker"
+import getClientsHandler from "../handlers/admin/getClients"
+import getWebhookDeliveriesHandler from "../handlers/admin/getWebhookDeliveries"
+import replayWebhookDeliveryHandler from "../handlers/admin/replayWebhookDelivery"
+import getProxiesHandler from "../handlers/admin/getProxies"
+import startDrainHandler from "../handlers/admin/startDrain"
+import stopDrainHandler from "../handlers/admin/stopDrain"
+import healthzHandler from "../handlers/health/healthz"
+import readyzHandler from "../handlers/health/readyz"
+import getMetricsHandler from "../handlers/metrics/getMetrics"
+import getEventsHandler from "../handlers/events/getEvents"
+import getOpenAPIHandler from "../handlers/docs/getOpenAPI"
+import getDocsHandler from "../handlers/docs/getDocs"
 
 // The Routing Sheet
 const GROUP = "default"
+const ADMIN_GROUP = "admin"
+const HEALTH_GROUP = "health"
+const METRICS_GROUP = "metrics"
+const EVENTS_GROUP = "events"
+const LEASES_GROUP = "leases"
+const DOCS_GROUP = "docs"
 const ROUTES_TABLE = Router()
 
 // The Routing Sheet
@@ -19,28 +40,128 @@ ROUTES_TABLE.get(
     defHandler
 )
 
+// Probes (always open, used by orchestrators)
+ROUTES_TABLE.get(
+	"/healthz",
+    setResource(HEALTH_GROUP),
+    healthzHandler
+)
+
+ROUTES_TABLE.get(
+	"/readyz",
+    setResource(HEALTH_GROUP),
+    readyzHandler
+)
+
+// API description (always open)
+ROUTES_TABLE.get(
+	"/openapi.json",
+    setResource(DOCS_GROUP),
+    getOpenAPIHandler
+)
+
+ROUTES_TABLE.get(
+	"/docs",
+    setResource(DOCS_GROUP),
+    getDocsHandler
+)
+
+ROUTES_TABLE.get(
+	"/metrics",
+    setResource(METRICS_GROUP),
+    requireScope("read-status"),
+    getMetricsHandler
+)
+
+ROUTES_TABLE.get(
+	"/events",
+    setResource(EVENTS_GROUP),
+    requireScope("read-status"),
+    getEventsHandler
+)
+
 ROUTES_TABLE.get(
 	"/detailedStatus",
     setResource(GROUP),
+    requireScope("read-status"),
     getAllBrowserHandler
 )
 
 ROUTES_TABLE.get(
 	"/detailedDynamicStatus",
     setResource(GROUP),
+    requireScope("read-status"),
     getAllFromDockerHandler
 )
 
 ROUTES_TABLE.post(
 	"/getBrowser",
     setResource(GROUP),
+    requireScope("lease"),
     getBrowserHandler
 )
 
 ROUTES_TABLE.post(
 	"/freeBrowser",
     setResource(GROUP),
+    requireScope("free"),
     freeBrowserHandler
 )
 
+ROUTES_TABLE.post(
+	"/leases/:leaseID/extend",
+    setResource(LEASES_GROUP),
+    requireScope("lease"),
+    extendLeaseHandler
+)
+
+ROUTES_TABLE.post(
+	"/leases/:leaseID/heartbeat",
+    setResource(LEASES_GROUP),
+    requireScope("lease"),
+    heartbeatLeaseHandler
+)
+
+ROUTES_TABLE.get(
+	"/admin/clients",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    getClientsHandler
+)
+
+ROUTES_TABLE.get(
+	"/admin/webhooks",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    getWebhookDeliveriesHandler
+)
+
+ROUTES_TABLE.post(
+	"/admin/webhooks/:deliveryID/replay",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    replayWebhookDeliveryHandler
+)
+
+ROUTES_TABLE.get(
+	"/admin/proxies",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    getProxiesHandler
+)
+
+ROUTES_TABLE.post(
+	"/admin/drain",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    startDrainHandler
+)
+
+ROUTES_TABLE.delete(
+	"/admin/drain",
+    setResource(ADMIN_GROUP),
+    requireScope("admin"),
+    stopDrainHandler
+)
+
 export default ROUTES_TABLE
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { Router } from 'express'
+import setResource from '../middlewares/setResource'
+import { requireScope } from '../middlewares/auth'
+
+// Handlers
+import createLeaseHandler from "../handlers/v2/createLease"
+import getLeaseHandler from "../handlers/v2/getLease"
+import deleteLeaseHandler from "../handlers/v2/deleteLease"
+import createViewerHandler from "../handlers/v2/createViewer"
+import listBrowsersHandler from "../handlers/v2/listBrowsers"
+import getBrowserHandler from "../handlers/v2/getBrowser"
+import recycleBrowserHandler from "../handlers/v2/recycleBrowser"
+import listArtifactsHandler from "../handlers/v2/listArtifacts"
+import getArtifactHandler from "../handlers/v2/getArtifact"
+import downloadArtifactHandler from "../handlers/v2/downloadArtifact"
+import deleteArtifactHandler from "../handlers/v2/deleteArtifact"
+import listProfilesHandler from "../handlers/v2/listProfiles"
+import getProfileHandler from "../handlers/v2/getProfile"
+import getProfileVersionHandler from "../handlers/v2/getProfileVersion"
+import putProfileHandler from "../handlers/v2/putProfile"
+import deleteProfileHandler from "../handlers/v2/deleteProfile"
+import deleteProfileVersionHandler from "../handlers/v2/deleteProfileVersion"
+
+// The Routing Sheet (mounted on /v2)
+const GROUP = "v2"
+const ROUTES_TABLE = Router()
+
+ROUTES_TABLE.post(
+	"/leases",
+    setResource(GROUP),
+    requireScope("lease"),
+    createLeaseHandler
+)
+
+ROUTES_TABLE.get(
+	"/leases/:id",
+    setResource(GROUP),
+    requireScope("lease"),
+    getLeaseHandler
+)
+
+ROUTES_TABLE.delete(
+	"/leases/:id",
+    setResource(GROUP),
+    requireScope("free"),
+    deleteLeaseHandler
+)
+
+ROUTES_TABLE.post(
+	"/leases/:id/viewer",
+    setResource(GROUP),
+    requireScope("lease"),
+    createViewerHandler
+)
+
+ROUTES_TABLE.get(
+	"/browsers",
+    setResource(GROUP),
+    requireScope("read-status"),
+    listBrowsersHandler
+)
+
+ROUTES_TABLE.get(
+	"/browsers/:name",
+    setResource(GROUP),
+    requireScope("read-status"),
+    getBrowserHandler
+)
+
+ROUTES_TABLE.post(
+	"/browsers/:name/recycle",
+    setResource(GROUP),
+    requireScope("admin"),
+    recycleBrowserHandler
+)
+
+ROUTES_TABLE.get(
+	"/artifacts",
+    setResource(GROUP),
+    requireScope("lease"),
+    listArtifactsHandler
+)
+
+ROUTES_TABLE.get(
+	"/artifacts/:sessionID/:sessionUUID",
+    setResource(GROUP),
+    requireScope("lease"),
+    getArtifactHandler
+)
+
+ROUTES_TABLE.get(
+	"/artifacts/:sessionID/:sessionUUID/download",
+    setResource(GROUP),
+    requireScope("lease"),
+    downloadArtifactHandler
+)
+
+ROUTES_TABLE.delete(
+	"/artifacts/:sessionID/:sessionUUID",
+    setResource(GROUP),
+    requireScope("free"),
+    deleteArtifactHandler
+)
+
+ROUTES_TABLE.get(
+	"/profiles",
+    setResource(GROUP),
+    requireScope("lease"),
+    listProfilesHandler
+)
+
+ROUTES_TABLE.get(
+	"/profiles/:fingerprintID",
+    setResource(GROUP),
+    requireScope("lease"),
+    getProfileHandler
+)
+
+ROUTES_TABLE.put(
+	"/profiles/:fingerprintID",
+    setResource(GROUP),
+    requireScope("lease"),
+    putProfileHandler
+)
+
+ROUTES_TABLE.delete(
+	"/profiles/:fingerprintID",
+    setResource(GROUP),
+    requireScope("free"),
+    deleteProfileHandler
+)
+
+ROUTES_TABLE.get(
+	"/profiles/:fingerprintID/versions/:version",
+    setResource(GROUP),
+    requireScope("lease"),
+    getProfileVersionHandler
+)
+
+ROUTES_TABLE.delete(
+	"/profiles/:fingerprintID/versions/:version",
+    setResource(GROUP),
+    requireScope("free"),
+    deleteProfileVersionHandler
+)
+
+export default ROUTES_TABLE
@@ -0,0 +1,86 @@
+import puppeteer from "puppeteer-core"
+import axios from "axios"
+import { PortSet } from "../../PortAllocator"
+
+/**
+ * @dev getBrowserHost returns the host the manager reaches a browser container on
+ * BROWSER_CONNECTION_HOST (default localhost), or the container name in manage-only mode when it is unset
+ */
+export function getBrowserHost(browserName: string): string {
+    const manageOnly = process.env.MANAGE_ONLY === 'true' || process.env.MANAGE_ONLY === '1'
+    if (!process.env.BROWSER_CONNECTION_HOST && manageOnly) {
+        return browserName
+    }
+
+    return process.env.BROWSER_CONNECTION_HOST || 'localhost'
+}
+
+/**
+ * @dev directBrowserURL returns the URL clients reach the published browser port on
+ * Undefined unless EXPOSE_BROWSER_PORTS is set, clients go through the gateway otherwise
+ */
+export function directBrowserURL(ports: PortSet): string | undefined {
+    if (process.env.EXPOSE_BROWSER_PORTS !== 'true') {
+        return undefined
+    }
+
+    return `http://${process.env.HOSTIP}:${ports.browser}`
+}
+
+/**
+ * @dev getBrowserWSEndpoint returns the CDP websocket URL of the browser, through its published port
+ * Reads the websocket URL from the node's /system/devtools/version endpoint (avoids Chrome's Host header check)
+ */
+export async function getBrowserWSEndpoint(browserName: string, ports: PortSet, timeout: number): Promise<string> {
+    const host = getBrowserHost(browserName)
+    const versionResponse = await axios.get(`http://${host}:${ports.app}/system/devtools/version`, {
+        timeout,
+        validateStatus: (status) => status === 200
+    })
+
+    const originalWebSocketUrl = versionResponse.data?.webSocketDebuggerUrl
+    if (!originalWebSocketUrl) {
+        throw new Error("webSocketDebuggerUrl not found in devtoolsVersion response")
+    }
+
+    // The node reports the in-container port, connect through the published one
+    return `ws://${host}:${ports.browser}${new URL(originalWebSocketUrl).pathname}`
+}
+
+/**
+ * @dev probeBrowser checks that the browser answers CDP by connecting to it with puppeteer
+ * @throws Error when the browser does not answer within `timeout` ms
+ */
+export async function probeBrowser(browserName: string, ports: PortSet, timeout: number): Promise<void> {
+    const connecting = puppeteer.connect({
+        browserWSEndpoint: await getBrowserWSEndpoint(browserName, ports, timeout),
+        protocolTimeout: timeout
+    })
+
+    let timer: NodeJS.Timeout | undefined
+    try {
+        const connection = await Promise.race([
+            connecting,
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`CDP connect timed out after ${timeout}ms`)), timeout)
+            })
+        ])
+        await connection.disconnect()
+    } catch (error) {
+        // Close a connection that completes after the timeout
+        connecting.then((connection) => connection.disconnect()).catch(() => {})
+        throw error
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+/**
+ * @dev extendNodeLease moves the lease deadline kept by the browser node itself
+ * @param leaseTime - Minutes from now
+ */
+export async function extendNodeLease(browserName: string, ports: PortSet, leaseTime: number): Promise<void> {
+    await axios.post(`http://${getBrowserHost(browserName)}:${ports.app}/action/lease`, {
+        leaseTime: leaseTime
+    })
+}
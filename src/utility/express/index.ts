@@ -1,8 +1,13 @@
 import {  z, ZodError, ZodType } from "zod"
 import { NextFunction, Request, Response } from "express"
 import BrowserManager from "../../BrowserManager"
+import Cluster from "../../Cluster"
+import QuotaManager from "../../Quotas"
+import Auth, { Principal } from "../../Auth"
+import HealthChecker from "../../HealthChecker"
+import VncProxy from "../../VncProxy"
 
-export type TErrorType = "UNKNOWN_ERROR" | "NOT_FOUND" | "BAD_REQUEST" | "UNAUTHORIZED" | "FORBIDDEN" | "CONFLICT" | "INTERNAL_SERVER_ERROR"
+export type TErrorType = "UNKNOWN_ERROR" | "NOT_FOUND" | "BAD_REQUEST" | "UNAUTHORIZED" | "FORBIDDEN" | "CONFLICT" | "GONE" | "TOO_MANY_REQUESTS" | "TIMEOUT" | "SERVICE_UNAVAILABLE" | "INTERNAL_SERVER_ERROR"
 
 export class RequestError extends Error { 
     private _type : TErrorType
@@ -26,6 +31,13 @@ export class RequestError extends Error {
         return this._type
     }
 
+    /**
+     * @dev details is a function that returns the details of the error
+     */
+    get details() {
+        return this._details
+    }
+
     /**
      * @dev type is a function that returns the type of the error 
     */
@@ -43,6 +55,14 @@ export class RequestError extends Error {
                 return "The request was forbidden"
             case "CONFLICT":
                 return "The request caused a conflict"
+            case "GONE":
+                return "The requested resource is no longer available"
+            case "TOO_MANY_REQUESTS":
+                return "Too many requests"
+            case "TIMEOUT":
+                return "The request timed out"
+            case "SERVICE_UNAVAILABLE":
+                return "The service is unavailable"
             case "INTERNAL_SERVER_ERROR":
                 return "An internal server error has occurred"
             default:
@@ -65,6 +85,14 @@ export class RequestError extends Error {
                 return 403
               case "CONFLICT":
                 return 409
+              case "GONE":
+                return 410
+              case "TOO_MANY_REQUESTS":
+                return 429
+              case "TIMEOUT":
+                return 504
+              case "SERVICE_UNAVAILABLE":
+                return 503
               case "INTERNAL_SERVER_ERROR":
                 return 500
               default:
@@ -118,6 +146,12 @@ export async function respondJSON(
             error = data
         } 
         
+        // Retry hint (e.g. rate limits)
+        const details = error.details as { retryAfterSeconds?: number } | undefined
+        if(details && typeof details.retryAfterSeconds === "number") {
+            res.setHeader('Retry-After', String(details.retryAfterSeconds))
+        }
+
         // Respond to client
         res
             .status(error.statusCode)
@@ -134,9 +168,19 @@ export function setSuccessResponse<O extends ZodType>(res:Response<any, TContext
 }
 
 
-export function setRedirectResponse(res:Response<any, TContext<unknown>>, uri:string){
+/**
+ * @dev setRawResponse sends `body` as is instead of the JSON envelope (e.g. text/plain exposition formats)
+ */
+export function setRawResponse(res:Response<any, TContext<unknown>>, body:string, contentType:string){
+    res.locals.isSuccess = true
+    res.locals.rawContentType = contentType
+    res.locals.data = body
+}
+
+export function setRedirectResponse(res:Response<any, TContext<unknown>>, uri:string, status?: number){
     res.locals.isSuccess = true
     res.locals.isRedirect = true
+    res.locals.redirectStatus = status
     res.locals.data = uri
 }
 
@@ -159,7 +203,15 @@ export type TContext<O> = {
     isNewResource?: boolean,
     data: O | null,
     isRedirect: boolean,
-    browserManager: BrowserManager
+    redirectStatus?: number,
+    rawContentType?: string,
+    browserManager: BrowserManager,
+    cluster?: Cluster
+    quotas?: QuotaManager
+    auth?: Auth
+    principal?: Principal
+    healthChecker?: HealthChecker
+    vncProxy?: VncProxy
 }
 
 /**
@@ -194,6 +246,20 @@ export type TEndpointHandler<
     
 ) => Promise<void>
 
+/**
+ * @dev EndpointSchemas describes an endpoint for the OpenAPI document
+ * @param status the success status code (defaults to 200)
+ * @param contentType set for endpoints that answer something else than the JSON envelope
+ */
+export type EndpointSchemas = {
+    params?: z.ZodType
+    body?: z.ZodType
+    query?: z.ZodType
+    response?: z.ZodType
+    status?: number
+    contentType?: string
+}
+
 /** 
  * @dev Endpoint is a class that represents an endpoint
  * @param P a zObject of the Request Params
@@ -213,6 +279,7 @@ export class Endpoint<
     public name: string
     public description: string
     public group: string
+    public schemas: EndpointSchemas
 
     /** 
      * @dev Constructor of the Endpoint
@@ -220,25 +287,30 @@ export class Endpoint<
      * @param description a string of the description of the endpoint
      * @param group a string of the group of the endpoint
      * @param handler a TEndpointHandler of the handler of the endpoint
+     * @param schemas the EndpointSchemas published in the OpenAPI document
     */
     constructor(
         name: string,
         description: string,
         group: string,
-        handler: TEndpointHandler<P,R,B,Q,L>
+        handler: TEndpointHandler<P,R,B,Q,L>,
+        schemas: EndpointSchemas = {}
     ){
         this.name = name
         this.description = description
         this.group = group
         this._handler = handler
+        this.schemas = schemas
     }
 
     /** 
      * @dev handler is a function that returns the handler of the endpoint
+     * The endpoint is attached to it so routers can be documented (see OpenAPI)
      */
     get handler(){
         const handler = this._handler
-        return async function call(
+        const endpoint: DocumentedEndpoint = this
+        return Object.assign(async function call(
             req: Request<
                 z.infer<P>, 
                 TContext<z.infer<R>>, 
@@ -254,10 +326,15 @@ export class Endpoint<
             } catch (error:unknown) {
                 next(error)
             }
-        }
+        }, { endpoint })
     }
 }
 
+/**
+ * @dev DocumentedEndpoint is the part of an Endpoint read by the OpenAPI registry
+ */
+export type DocumentedEndpoint = Pick<Endpoint<any, any, any, any, any>, "name" | "description" | "group" | "schemas">
+
 export function isZodError(err: unknown): err is ZodError {
     return Boolean(
       err && (err instanceof ZodError || (err as ZodError).name === 'ZodError'),
@@ -0,0 +1,40 @@
+import Redis, { Cluster, RedisOptions } from "ioredis"
+import { redisVars, cacheVars } from "../../env"
+
+export type RedisClient = Redis | Cluster
+
+/**
+ * Creates a Redis client from the REDIS_* env vars
+ * Supports a plain URI, host/port, sentinel (REDIS_MASTER_NAME) and cluster mode (REDIS_CLUSTER_MODE)
+ */
+export function createRedisClient(): RedisClient {
+    const options: RedisOptions = {
+        username: redisVars.getRedisUsername(),
+        password: redisVars.getRedisPassword(),
+        // Managed Redis offerings often only need TLS enabled, without custom certs
+        ...(redisVars.getRedisEmptyTls() === "true" ? { tls: {} } : {}),
+        maxRetriesPerRequest: 3
+    }
+
+    const host = redisVars.getRedisHost() || "localhost"
+    const port = redisVars.getRedisPort()
+
+    if (redisVars.getRedisClusterMode() === "true") {
+        return new Cluster([{ host, port }], { redisOptions: options })
+    }
+
+    if (redisVars.getRedisMasterName()) {
+        return new Redis({
+            ...options,
+            sentinels: [{ host, port }],
+            name: redisVars.getRedisMasterName()
+        })
+    }
+
+    const uri = cacheVars.getRedisURI()
+    if (uri) {
+        return new Redis(uri, options)
+    }
+
+    return new Redis({ ...options, host, port })
+}